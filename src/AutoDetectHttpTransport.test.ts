@@ -0,0 +1,134 @@
+/**
+ * Unit tests for AutoDetectHttpTransport
+ */
+
+import * as http from "http";
+import { AddressInfo, Socket } from "net";
+import { AutoDetectHttpTransport } from "./AutoDetectHttpTransport";
+import { JSONRPCMessage } from "./types";
+
+/**
+ * Local server speaking either Streamable HTTP or legacy HTTP+SSE on /mcp
+ */
+class DualServer {
+  stream?: http.ServerResponse;
+  requests: string[] = [];
+  private server: http.Server;
+  private sockets = new Set<Socket>();
+
+  constructor(private readonly mode: "streamable" | "legacy") {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    this.server.on("connection", (socket) => {
+      this.sockets.add(socket);
+      socket.on("close", () => this.sockets.delete(socket));
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/mcp`;
+  }
+
+  async close(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    this.requests.push(`${req.method} ${req.url}`);
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      if (this.mode === "legacy") {
+        if (req.method === "GET" && req.url === "/mcp") {
+          res.writeHead(200, { "Content-Type": "text/event-stream" });
+          res.write("event: endpoint\ndata: /messages\n\n");
+          this.stream = res;
+        } else if (req.method === "POST" && req.url === "/messages") {
+          const message = JSON.parse(raw) as JSONRPCMessage;
+          res.writeHead(202).end();
+          this.stream?.write(
+            `data: ${JSON.stringify({ id: message.id, result: "legacy" })}\n\n`
+          );
+        } else {
+          res.writeHead(405).end();
+        }
+        return;
+      }
+
+      if (req.method === "POST") {
+        const message = JSON.parse(raw) as JSONRPCMessage;
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ id: message.id, result: "streamable" }));
+      } else {
+        res.writeHead(405).end();
+      }
+    });
+  }
+}
+
+function nextMessage(transport: AutoDetectHttpTransport) {
+  return new Promise<JSONRPCMessage>((resolve) => transport.onMessage(resolve));
+}
+
+describe("AutoDetectHttpTransport", () => {
+  let server: DualServer;
+  let transport: AutoDetectHttpTransport;
+
+  afterEach(async () => {
+    await transport.close();
+    await server.close();
+  });
+
+  it("should use Streamable HTTP when the server supports it", async () => {
+    server = new DualServer("streamable");
+    transport = new AutoDetectHttpTransport({ url: await server.listen() });
+    await transport.start();
+
+    const response = nextMessage(transport);
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "initialize" });
+
+    expect((await response).result).toBe("streamable");
+    expect(transport.getDetectedType()).toBe("streamable-http");
+  });
+
+  it("should fall back to HTTP+SSE when the POST is rejected", async () => {
+    server = new DualServer("legacy");
+    transport = new AutoDetectHttpTransport({ url: await server.listen() });
+    await transport.start();
+
+    const response = nextMessage(transport);
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "initialize" });
+
+    expect((await response).result).toBe("legacy");
+    expect(transport.getDetectedType()).toBe("sse");
+    expect(server.requests).toEqual([
+      "POST /mcp",
+      "GET /mcp",
+      "POST /messages",
+    ]);
+
+    // Later messages go straight to the detected transport
+    await transport.send({
+      jsonrpc: "2.0",
+      method: "notifications/initialized",
+    });
+    expect(server.requests).toHaveLength(4);
+  });
+
+  it("should report the configured URL before detection", () => {
+    server = new DualServer("streamable");
+    transport = new AutoDetectHttpTransport({ url: "http://127.0.0.1:1/mcp" });
+
+    expect(transport.getInfo()).toEqual({
+      type: "auto",
+      endpoint: "http://127.0.0.1:1/mcp",
+    });
+    expect(transport.getDetectedType()).toBeUndefined();
+  });
+});
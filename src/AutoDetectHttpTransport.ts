@@ -0,0 +1,179 @@
+/**
+ * AutoDetectHttpTransport - Picks Streamable HTTP or legacy HTTP+SSE
+ *
+ * Follows the backwards-compatibility procedure from the MCP specification:
+ * the first message is POSTed as Streamable HTTP, and if the server rejects
+ * it with 400, 404 or 405 the client falls back to the legacy transport by
+ * opening an SSE stream and waiting for the endpoint event.
+ */
+
+import { JSONRPCMessage, TransportInfo } from "./types";
+import { BaseTransport, Transport } from "./Transport";
+import { StreamableHttpTransport } from "./StreamableHttpTransport";
+import { SseTransport } from "./SseTransport";
+import { HttpStatusError } from "./httpUtils";
+
+/**
+ * Status codes that indicate a server without Streamable HTTP support
+ */
+const FALLBACK_STATUS_CODES = [400, 404, 405];
+
+/**
+ * Options for auto-detecting the HTTP transport
+ */
+export interface AutoDetectHttpTransportOptions {
+  /** Server URL tried first as a Streamable HTTP endpoint */
+  url: string;
+  /** URL of the legacy SSE stream (default: same as url) */
+  sseUrl?: string;
+  /** Extra headers sent with every request (e.g. Authorization) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * AutoDetectHttpTransport
+ */
+export class AutoDetectHttpTransport extends BaseTransport {
+  private readonly options: AutoDetectHttpTransportOptions;
+  private delegate?: Transport;
+  private detecting?: Promise<void>;
+  private protocolVersion?: string;
+  private started: boolean = false;
+  private closed: boolean = false;
+
+  constructor(options: AutoDetectHttpTransportOptions) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Mark the transport as ready. Detection happens on the first send.
+   */
+  async start(): Promise<void> {
+    this.started = true;
+    this.closed = false;
+  }
+
+  /**
+   * Send a message, detecting the server's transport on first use
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.started || this.closed) {
+      throw new Error("Transport not connected");
+    }
+
+    if (this.detecting) {
+      await this.detecting;
+      if (!this.delegate) {
+        throw new Error("Transport detection failed");
+      }
+      return this.delegate.send(message);
+    }
+
+    let finishDetection!: () => void;
+    this.detecting = new Promise((resolve) => (finishDetection = resolve));
+
+    try {
+      const streamable = new StreamableHttpTransport({
+        url: this.options.url,
+        headers: this.options.headers,
+      });
+      this.adopt(streamable);
+      await streamable.start();
+
+      try {
+        await streamable.send(message);
+        return;
+      } catch (error) {
+        if (
+          !(error instanceof HttpStatusError) ||
+          !FALLBACK_STATUS_CODES.includes(error.status)
+        ) {
+          throw error;
+        }
+      }
+
+      // Fall back to the legacy HTTP+SSE transport
+      await streamable.close();
+      const legacy = new SseTransport({
+        url: this.options.sseUrl ?? this.options.url,
+        headers: this.options.headers,
+      });
+      this.adopt(legacy);
+      await legacy.start();
+      await legacy.send(message);
+    } catch (error) {
+      // Let the next send retry detection
+      this.delegate = undefined;
+      this.detecting = undefined;
+      throw error;
+    } finally {
+      finishDetection();
+    }
+  }
+
+  /**
+   * Send a batch through the detected transport, or one by one if it
+   * cannot batch
+   */
+  async sendBatch(messages: JSONRPCMessage[]): Promise<void> {
+    await this.detecting;
+    if (this.delegate?.sendBatch) {
+      await this.delegate.sendBatch(messages);
+      return;
+    }
+    for (const message of messages) {
+      await this.send(message);
+    }
+  }
+
+  /**
+   * Pass the negotiated version on to the detected transport
+   */
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+    this.delegate?.setProtocolVersion?.(version);
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.delegate?.close();
+  }
+
+  isAlive(): boolean {
+    if (this.delegate) {
+      return this.delegate.isAlive();
+    }
+    return this.started && !this.closed;
+  }
+
+  getInfo(): TransportInfo {
+    return (
+      this.delegate?.getInfo() ?? {
+        type: "auto",
+        endpoint: new URL(this.options.url).toString(),
+      }
+    );
+  }
+
+  /**
+   * Get the detected transport type, once known
+   */
+  getDetectedType(): string | undefined {
+    return this.delegate?.getInfo().type;
+  }
+
+  /**
+   * Use a transport as the delegate and forward its events
+   */
+  private adopt(transport: Transport): void {
+    this.delegate = transport;
+    if (this.protocolVersion) {
+      transport.setProtocolVersion?.(this.protocolVersion);
+    }
+    transport.onMessage((message) => this.emitMessage(message));
+    transport.onClose((info) => this.emitClose(info));
+    transport.onError((error) => this.emitError(error));
+    transport.onParseError?.((raw) => this.emitParseError(raw));
+  }
+}
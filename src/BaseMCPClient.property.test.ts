@@ -90,7 +90,7 @@ const validMCPClientConfigArb = fc.record({
   reSync: fc.record({
     maxRetries: fc.integer({ min: 1, max: 10 }),
     retryDelayMs: fc.integer({ min: 100, max: 10000 }),
-    backoffMultiplier: fc.float({ min: 1.0, max: 3.0 }),
+    backoffMultiplier: fc.float({ min: 1.0, max: 3.0, noNaN: true }),
   }),
   logging: fc.record({
     logLevel: fc.constantFrom(
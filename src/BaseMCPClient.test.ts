@@ -3,7 +3,23 @@
  */
 
 import { BaseMCPClient, LogOutputChannel } from "./BaseMCPClient";
-import { MCPClientConfig, ConnectionState } from "./types";
+import { BaseTransport, Transport } from "./Transport";
+import { InMemoryTransport } from "./InMemoryTransport";
+import { MCPRequestError } from "./MCPRequestError";
+import { ToolValidationError } from "./ToolValidationError";
+import { Deadline, withDeadline } from "./Deadline";
+import { DeadlineExceededError } from "./DeadlineExceededError";
+import { CircuitOpenError } from "./CircuitOpenError";
+import {
+  MCPClientConfig,
+  CatalogChange,
+  CircuitState,
+  ConnectionState,
+  JSONRPCMessage,
+  LatencySnapshot,
+  LatencyStore,
+  TransportInfo,
+} from "./types";
 
 /**
  * Mock LogOutputChannel for testing
@@ -76,6 +92,116 @@ class TestMCPClient extends BaseMCPClient {
   }
 }
 
+/**
+ * Transport that answers every request with an empty result
+ */
+class FakeTransport extends BaseTransport {
+  public sent: JSONRPCMessage[] = [];
+  public started = false;
+  public closed = false;
+
+  async start(): Promise<void> {
+    this.started = true;
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    this.sent.push(message);
+    if (message.id !== undefined) {
+      setImmediate(() =>
+        this.emitMessage({ jsonrpc: "2.0", id: message.id, result: {} })
+      );
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+
+  isAlive(): boolean {
+    return this.started && !this.closed;
+  }
+
+  getInfo(): TransportInfo {
+    return { type: "fake" };
+  }
+
+  simulateClose(): void {
+    this.emitClose({ code: null, signal: null, reason: "Connection lost" });
+  }
+}
+
+/**
+ * Test client that uses a FakeTransport instead of spawning a process
+ */
+class FakeTransportClient extends BaseMCPClient {
+  public fakeTransport = new FakeTransport();
+
+  protected createTransport(): Transport {
+    return this.fakeTransport;
+  }
+
+  protected async onServerReady(): Promise<void> {}
+}
+
+/**
+ * Test client connected to an in-process server through a linked pair
+ */
+class InMemoryClient extends BaseMCPClient {
+  constructor(
+    outputChannel: LogOutputChannel,
+    private readonly clientTransport: Transport,
+    config?: Partial<MCPClientConfig>
+  ) {
+    super("TestExtension", outputChannel, {
+      logging: { logLevel: "debug", logCommunication: true },
+      ...config,
+    });
+  }
+
+  protected createTransport(): Transport {
+    return this.clientTransport;
+  }
+
+  protected async onServerReady(): Promise<void> {}
+}
+
+/**
+ * Start an InMemoryClient against a server end that answers initialize
+ */
+async function startInMemoryClient(
+  outputChannel: LogOutputChannel
+): Promise<{ client: InMemoryClient; server: InMemoryTransport }> {
+  const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+  server.onMessage((message) => {
+    if (message.method === "initialize") {
+      server.send({ jsonrpc: "2.0", id: message.id, result: {} });
+    }
+  });
+  await server.start();
+
+  const client = new InMemoryClient(outputChannel, clientTransport);
+  await client.start();
+  return { client, server };
+}
+
+/**
+ * Send a request from the server end and wait for the client's reply
+ */
+function requestFromServer(
+  server: InMemoryTransport,
+  message: JSONRPCMessage
+): Promise<JSONRPCMessage> {
+  return new Promise((resolve) => {
+    const subscription = server.onMessage((reply) => {
+      if (reply.id === message.id && reply.method === undefined) {
+        subscription.dispose();
+        resolve(reply);
+      }
+    });
+    server.send(message);
+  });
+}
+
 describe("BaseMCPClient Unit Tests", () => {
   let outputChannel: MockLogOutputChannel;
   let client: TestMCPClient;
@@ -84,9 +210,9 @@ describe("BaseMCPClient Unit Tests", () => {
     outputChannel = new MockLogOutputChannel();
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     if (client) {
-      client.stop();
+      await client.stop();
     }
   });
 
@@ -126,6 +252,21 @@ describe("BaseMCPClient Unit Tests", () => {
         });
       }).toThrow();
     });
+
+    it("should reject an invalid re-sync configuration", () => {
+      expect(
+        () =>
+          new TestMCPClient("TestExtension", outputChannel, {
+            reSync: {
+              maxRetries: -1,
+              retryDelayMs: 2000,
+              backoffMultiplier: 1.5,
+            },
+          })
+      ).toThrow(
+        "Invalid re-sync configuration: maxRetries must not be negative"
+      );
+    });
   });
 
   describe("Connection Status", () => {
@@ -223,7 +364,7 @@ describe("BaseMCPClient Unit Tests", () => {
       expect(status.state).toBe(ConnectionState.DISCONNECTED);
     });
 
-    it("should clear pending requests on stop", () => {
+    it("should clear pending requests on stop", async () => {
       client = new TestMCPClient("TestExtension", outputChannel);
 
       // Add mock pending requests
@@ -250,7 +391,7 @@ describe("BaseMCPClient Unit Tests", () => {
         startTime: Date.now(),
       });
 
-      client.stop();
+      await client.stop();
 
       // Verify pending requests were cleared and rejected
       expect(client["pendingRequests"].size).toBe(0);
@@ -379,6 +520,210 @@ describe("BaseMCPClient Unit Tests", () => {
       // Verify request was removed
       expect(client["pendingRequests"].has(1)).toBe(false);
     });
+
+    it("should pick timeouts from rules and show the rule in diagnostics", async () => {
+      const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+      server.onMessage((message) => {
+        if (message.method === "initialize") {
+          server.send({ jsonrpc: "2.0", id: message.id, result: {} });
+        }
+      });
+      await server.start();
+      const inMemory = new InMemoryClient(outputChannel, clientTransport, {
+        timeout: {
+          initializationTimeoutMs: 60000,
+          standardRequestTimeoutMs: 30000,
+          toolsListTimeoutMs: 60000,
+          rules: [{ tool: "fs_*", timeoutMs: 180000 }],
+        },
+      });
+      await inMemory.start();
+
+      inMemory["callTool"]("fs_search", {}).catch(() => undefined);
+      inMemory.ping().catch(() => undefined);
+      inMemory.ping({ timeout: 2000 }).catch(() => undefined);
+
+      expect(
+        inMemory
+          .getDiagnostics()
+          .pendingRequests.map(({ timeoutMs, timeoutSource }) => [
+            timeoutMs,
+            timeoutSource,
+          ])
+      ).toEqual([
+        [180000, 'rules[0] (tool "fs_*")'],
+        [30000, "standardRequestTimeoutMs"],
+        [2000, "request option"],
+      ]);
+      await inMemory.stop();
+    });
+
+    it("should record latency of completed requests per tool", async () => {
+      const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+      server.onMessage((message) => {
+        if (message.method === "initialize" || message.method === "ping") {
+          server.send({ jsonrpc: "2.0", id: message.id, result: {} });
+        } else if (message.method === "tools/call") {
+          server.send({
+            jsonrpc: "2.0",
+            id: message.id,
+            error: { code: -32602, message: "Unknown tool" },
+          });
+        }
+      });
+      await server.start();
+      const inMemory = new InMemoryClient(outputChannel, clientTransport, {
+        catalog: { enabled: false },
+      });
+      await inMemory.start();
+
+      await inMemory.ping();
+      await expect(inMemory["callTool"]("fs_search", {})).rejects.toThrow(
+        "Unknown tool"
+      );
+
+      expect(
+        inMemory
+          .getDiagnostics()
+          .latencyStats?.map(({ method, tool, count }) => [method, tool, count])
+      ).toEqual([
+        ["initialize", undefined, 1],
+        ["ping", undefined, 1],
+        ["tools/call", "fs_search", 1],
+      ]);
+      await inMemory.stop();
+    });
+
+    it("should load latency statistics on start and save them on stop", async () => {
+      const saved: LatencySnapshot = {
+        version: 1,
+        entries: [
+          {
+            method: "tools/call",
+            tool: "fs_search",
+            count: 2,
+            ewmaMs: 4000,
+            samples: [3000, 5000],
+          },
+        ],
+      };
+      const store = {
+        load: jest.fn().mockResolvedValue(saved),
+        save: jest.fn(),
+      };
+      class StoreClient extends InMemoryClient {
+        protected getLatencyStore(): LatencyStore {
+          return store;
+        }
+      }
+
+      const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+      server.onMessage((message) => {
+        if (message.method === "initialize") {
+          server.send({ jsonrpc: "2.0", id: message.id, result: {} });
+        }
+      });
+      await server.start();
+      const inMemory = new StoreClient(outputChannel, clientTransport, {
+        catalog: { enabled: false },
+        timeout: {
+          initializationTimeoutMs: 60000,
+          standardRequestTimeoutMs: 30000,
+          toolsListTimeoutMs: 60000,
+          adaptive: { enabled: true, minSamples: 2 },
+        },
+      });
+      await inMemory.start();
+
+      inMemory["callTool"]("fs_search", {}).catch(() => undefined);
+      expect(inMemory.getDiagnostics().pendingRequests[0]).toMatchObject({
+        timeoutMs: 15000,
+        timeoutSource: "adaptive (3 × p99 5000ms)",
+      });
+
+      await inMemory.stop();
+      expect(store.load).toHaveBeenCalledTimes(1);
+      expect(store.save).toHaveBeenCalledTimes(1);
+      const [snapshot] = store.save.mock.calls[0];
+      expect(
+        snapshot.entries.map(
+          ({ method, tool }: { method: string; tool?: string }) => [
+            method,
+            tool,
+          ]
+        )
+      ).toEqual([
+        ["tools/call", "fs_search"],
+        ["initialize", undefined],
+      ]);
+    });
+
+    it("should not let a hanging latency store hold up stopping", async () => {
+      class HangingStoreClient extends InMemoryClient {
+        protected getLatencyStore(): LatencyStore {
+          return {
+            load: () => undefined,
+            save: () => new Promise<void>(() => undefined),
+          };
+        }
+      }
+      const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+      server.onMessage((message) => {
+        if (message.method === "initialize") {
+          server.send({ jsonrpc: "2.0", id: message.id, result: {} });
+        }
+      });
+      await server.start();
+      const inMemory = new HangingStoreClient(outputChannel, clientTransport, {
+        catalog: { enabled: false },
+      });
+      await inMemory.start();
+
+      const startedAt = Date.now();
+      await inMemory.stop();
+
+      expect(Date.now() - startedAt).toBeLessThan(3000);
+      expect(inMemory.isServerProcessAlive()).toBe(false);
+      expect(
+        outputChannel.logs.some(
+          (log) =>
+            log.level === "warn" &&
+            log.message.includes("Latency statistics not saved within 1000ms")
+        )
+      ).toBe(true);
+    });
+
+    it("should log a warning when latency statistics cannot be saved", async () => {
+      class FailingStoreClient extends InMemoryClient {
+        protected getLatencyStore(): LatencyStore {
+          return {
+            load: () => undefined,
+            save: () => Promise.reject(new Error("disk full")),
+          };
+        }
+      }
+      const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+      server.onMessage((message) => {
+        if (message.method === "initialize") {
+          server.send({ jsonrpc: "2.0", id: message.id, result: {} });
+        }
+      });
+      await server.start();
+      const inMemory = new FailingStoreClient(outputChannel, clientTransport, {
+        catalog: { enabled: false },
+      });
+      await inMemory.start();
+
+      await inMemory.stop();
+
+      expect(
+        outputChannel.logs.some(
+          (log) =>
+            log.level === "warn" &&
+            log.message.includes("Failed to save latency statistics: disk full")
+        )
+      ).toBe(true);
+    });
   });
 
   describe("Message Handling", () => {
@@ -436,4 +781,1970 @@ describe("BaseMCPClient Unit Tests", () => {
       expect(client["pendingRequests"].has(1)).toBe(false);
     });
   });
+
+  describe("Transport Selection", () => {
+    it("should start and initialize through a custom transport", async () => {
+      const fakeClient = new FakeTransportClient(
+        "TestExtension",
+        outputChannel
+      );
+
+      await fakeClient.start();
+
+      expect(fakeClient.fakeTransport.started).toBe(true);
+      expect(fakeClient.fakeTransport.sent[0].method).toBe("initialize");
+      expect(fakeClient.getConnectionStatus().state).toBe(
+        ConnectionState.CONNECTED
+      );
+      expect(fakeClient.isServerProcessAlive()).toBe(true);
+      expect(fakeClient.getDiagnostics().transport).toEqual({ type: "fake" });
+
+      await fakeClient.stop();
+      expect(fakeClient.fakeTransport.closed).toBe(true);
+      expect(fakeClient.getDiagnostics().transport).toBeUndefined();
+    });
+
+    it("should treat an unexpected transport close like a server exit", async () => {
+      const fakeClient = new FakeTransportClient(
+        "TestExtension",
+        outputChannel
+      );
+      await fakeClient.start();
+
+      fakeClient.fakeTransport.simulateClose();
+
+      const status = fakeClient.getConnectionStatus();
+      expect(status.state).toBe(ConnectionState.DISCONNECTED);
+      expect(status.serverProcessRunning).toBe(false);
+      await fakeClient.stop();
+    });
+
+    it("should reject requests when the transport fails to send", async () => {
+      const fakeClient = new FakeTransportClient(
+        "TestExtension",
+        outputChannel
+      );
+      await fakeClient.start();
+      fakeClient.fakeTransport.send = async () => {
+        throw new Error("write failed");
+      };
+
+      await expect(fakeClient["sendRequest"]("tools/list", {})).rejects.toThrow(
+        "write failed"
+      );
+      expect(fakeClient["pendingRequests"].size).toBe(0);
+      await fakeClient.stop();
+    });
+
+    it("should require getServerCommand for the default stdio transport", () => {
+      class NoCommandClient extends BaseMCPClient {
+        protected async onServerReady(): Promise<void> {}
+      }
+      const noCommandClient = new NoCommandClient(
+        "TestExtension",
+        outputChannel
+      );
+
+      expect(() => noCommandClient["createTransport"]()).toThrow(
+        "getServerCommand() must be implemented"
+      );
+    });
+  });
+
+  describe("Server-Initiated Requests", () => {
+    it("should answer with the registered handler", async () => {
+      const { client: inMemory, server } = await startInMemoryClient(
+        outputChannel
+      );
+      inMemory["setRequestHandler"]("roots/list", async () => ({
+        roots: [{ uri: "file:///workspace", name: "workspace" }],
+      }));
+
+      const reply = await requestFromServer(server, {
+        jsonrpc: "2.0",
+        id: "srv-1",
+        method: "roots/list",
+      });
+
+      expect(reply).toEqual({
+        jsonrpc: "2.0",
+        id: "srv-1",
+        result: { roots: [{ uri: "file:///workspace", name: "workspace" }] },
+      });
+      await inMemory.stop();
+    });
+
+    it("should pass params and context to the handler", async () => {
+      const { client: inMemory, server } = await startInMemoryClient(
+        outputChannel
+      );
+      const handler = jest.fn().mockReturnValue({ action: "decline" });
+      inMemory["setRequestHandler"]("elicitation/create", handler);
+
+      const params = { message: "Name?", requestedSchema: {} };
+      await requestFromServer(server, {
+        jsonrpc: "2.0",
+        id: 7,
+        method: "elicitation/create",
+        params,
+      });
+
+      expect(handler).toHaveBeenCalledWith(params, {
+        id: 7,
+        method: "elicitation/create",
+      });
+      await inMemory.stop();
+    });
+
+    it("should reply with -32601 for unknown methods", async () => {
+      const { client: inMemory, server } = await startInMemoryClient(
+        outputChannel
+      );
+
+      const reply = await requestFromServer(server, {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "sampling/createMessage",
+      });
+
+      expect(reply.error).toEqual({
+        code: -32601,
+        message: "Method not found: sampling/createMessage",
+      });
+
+      // Removing a handler makes the method unknown again
+      inMemory["setRequestHandler"]("roots/list", () => ({ roots: [] }));
+      inMemory["removeRequestHandler"]("roots/list");
+      const removed = await requestFromServer(server, {
+        jsonrpc: "2.0",
+        id: 2,
+        method: "roots/list",
+      });
+      expect(removed.error?.code).toBe(-32601);
+      await inMemory.stop();
+    });
+
+    it("should turn handler failures into error replies", async () => {
+      const { client: inMemory, server } = await startInMemoryClient(
+        outputChannel
+      );
+      inMemory["setRequestHandler"]("sampling/createMessage", () => {
+        throw new MCPRequestError(-1, "User rejected sampling request", {
+          reason: "declined",
+        });
+      });
+      inMemory["setRequestHandler"]("roots/list", () => {
+        throw new Error("No workspace open");
+      });
+
+      const rejected = await requestFromServer(server, {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "sampling/createMessage",
+        params: { messages: [], maxTokens: 10 },
+      });
+      const failed = await requestFromServer(server, {
+        jsonrpc: "2.0",
+        id: 2,
+        method: "roots/list",
+      });
+
+      expect(rejected.error).toEqual({
+        code: -1,
+        message: "User rejected sampling request",
+        data: { reason: "declined" },
+      });
+      expect(failed.error).toEqual({
+        code: -32603,
+        message: "No workspace open",
+      });
+      await inMemory.stop();
+    });
+
+    it("should record server requests as inbound and replies as outbound", async () => {
+      const { client: inMemory, server } = await startInMemoryClient(
+        outputChannel
+      );
+
+      await requestFromServer(server, {
+        jsonrpc: "2.0",
+        id: "abc",
+        method: "unknown/method",
+      });
+
+      const exchange = inMemory
+        .getDiagnostics()
+        .recentCommunication.filter((entry) => entry.requestId === "abc");
+      expect(
+        exchange.map((entry) => [entry.type, entry.success, entry.inbound])
+      ).toEqual([
+        ["request", true, true],
+        ["response", false, undefined],
+      ]);
+      await inMemory.stop();
+    });
+
+    it("should reject client requests with the server's error code", async () => {
+      const { client: inMemory, server } = await startInMemoryClient(
+        outputChannel
+      );
+      server.onMessage((message) => {
+        if (message.method === "tools/call") {
+          server.send({
+            jsonrpc: "2.0",
+            id: message.id,
+            error: { code: -32602, message: "Unknown tool: missing" },
+          });
+        }
+      });
+
+      const error = await inMemory["callTool"]("missing", {}).catch(
+        (e: unknown) => e
+      );
+
+      expect(error).toBeInstanceOf(MCPRequestError);
+      expect((error as MCPRequestError).code).toBe(-32602);
+      expect((error as MCPRequestError).message).toBe("Unknown tool: missing");
+      await inMemory.stop();
+    });
+  });
+
+  describe("Server Notifications", () => {
+    it("should dispatch notifications to subscribed listeners", async () => {
+      const { client: inMemory, server } = await startInMemoryClient(
+        outputChannel
+      );
+      const progress = jest.fn();
+      const toolsChanged = jest.fn();
+      inMemory.onNotification("notifications/progress", progress);
+      inMemory.onNotification("notifications/tools/list_changed", toolsChanged);
+
+      await server.send({
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: { progressToken: "t1", progress: 5, total: 10 },
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(progress).toHaveBeenCalledWith({
+        progressToken: "t1",
+        progress: 5,
+        total: 10,
+      });
+      expect(toolsChanged).not.toHaveBeenCalled();
+      await inMemory.stop();
+    });
+
+    it("should stop delivering after the listener is disposed", async () => {
+      const { client: inMemory, server } = await startInMemoryClient(
+        outputChannel
+      );
+      const listener = jest.fn();
+      const subscription = inMemory.onNotification(
+        "notifications/resources/updated",
+        listener
+      );
+      const notify = async () => {
+        await server.send({
+          jsonrpc: "2.0",
+          method: "notifications/resources/updated",
+          params: { uri: "file:///a.txt" },
+        });
+        await new Promise((resolve) => setImmediate(resolve));
+      };
+
+      await notify();
+      subscription.dispose();
+      await notify();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      await inMemory.stop();
+    });
+
+    it("should keep notifying other listeners when one throws", async () => {
+      const { client: inMemory, server } = await startInMemoryClient(
+        outputChannel
+      );
+      const second = jest.fn();
+      inMemory.onNotification("notifications/message", () => {
+        throw new Error("listener failed");
+      });
+      inMemory.onNotification("notifications/message", second);
+
+      await server.send({
+        jsonrpc: "2.0",
+        method: "notifications/message",
+        params: { level: "info", data: "hello" },
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(second).toHaveBeenCalledWith({ level: "info", data: "hello" });
+      expect(
+        outputChannel.logs.some(
+          (m) =>
+            m.level === "warn" &&
+            m.message.includes("Notification listener failed")
+        )
+      ).toBe(true);
+      await inMemory.stop();
+    });
+
+    it("should record notifications as inbound communication", async () => {
+      const { client: inMemory, server } = await startInMemoryClient(
+        outputChannel
+      );
+
+      await server.send({
+        jsonrpc: "2.0",
+        method: "notifications/prompts/list_changed",
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const last = inMemory.getDiagnostics().recentCommunication.pop();
+      expect(last).toMatchObject({
+        type: "notification",
+        method: "notifications/prompts/list_changed",
+        success: true,
+        inbound: true,
+      });
+      await inMemory.stop();
+    });
+  });
+
+  describe("Initialization Handshake", () => {
+    /**
+     * Connect a client to a server end that answers initialize with the
+     * given result and records everything it receives
+     */
+    async function connect(
+      initializeResult: unknown,
+      configure?: (client: InMemoryClient) => void
+    ): Promise<{ client: InMemoryClient; received: JSONRPCMessage[] }> {
+      const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+      const received: JSONRPCMessage[] = [];
+      server.onMessage((message) => {
+        received.push(message);
+        if (message.method === "initialize") {
+          server.send({
+            jsonrpc: "2.0",
+            id: message.id,
+            result: initializeResult,
+          });
+        }
+      });
+      await server.start();
+
+      const inMemory = new InMemoryClient(outputChannel, clientTransport);
+      configure?.(inMemory);
+      await inMemory.start();
+      await new Promise((resolve) => setImmediate(resolve));
+      return { client: inMemory, received };
+    }
+
+    it("should store the server's InitializeResult", async () => {
+      const { client: inMemory } = await connect({
+        protocolVersion: "2024-11-05",
+        capabilities: { tools: { listChanged: true }, logging: {} },
+        serverInfo: { name: "test-server", version: "2.3.4" },
+        instructions: "Call list_files first",
+      });
+
+      expect(inMemory.getServerCapabilities()).toEqual({
+        tools: { listChanged: true },
+        logging: {},
+      });
+      expect(inMemory.getServerInfo()).toEqual({
+        name: "test-server",
+        version: "2.3.4",
+      });
+      expect(inMemory.getServerInstructions()).toBe("Call list_files first");
+
+      await inMemory.stop();
+      expect(inMemory.getServerCapabilities()).toBeUndefined();
+    });
+
+    it("should send notifications/initialized after initialize", async () => {
+      const { client: inMemory, received } = await connect({
+        capabilities: {},
+      });
+
+      expect(received.map((m) => m.method)).toEqual([
+        "initialize",
+        "notifications/initialized",
+      ]);
+      expect(received[1].id).toBeUndefined();
+      await inMemory.stop();
+    });
+
+    it("should declare capabilities for registered request handlers", async () => {
+      const { client: inMemory, received } = await connect({}, (c) => {
+        c["setRequestHandler"]("roots/list", () => ({ roots: [] }));
+        c["setRequestHandler"]("sampling/createMessage", () => {
+          throw new Error("not supported");
+        });
+      });
+
+      expect(received[0].params).toEqual({
+        protocolVersion: "2025-06-18",
+        capabilities: { roots: { listChanged: false }, sampling: {} },
+        clientInfo: { name: "TestExtension", version: "1.0.0" },
+      });
+      expect(inMemory.getServerCapabilities()).toEqual({});
+      await inMemory.stop();
+    });
+
+    it("should use capabilities and client info from the subclass", async () => {
+      class DeclaringClient extends InMemoryClient {
+        protected getClientCapabilities() {
+          return { roots: { listChanged: true }, elicitation: {} };
+        }
+
+        protected getClientInfo() {
+          return { name: "my-extension", version: "4.5.6" };
+        }
+      }
+      const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+      const initialize = new Promise<JSONRPCMessage>((resolve) =>
+        server.onMessage((message) => {
+          if (message.method === "initialize") {
+            server.send({ jsonrpc: "2.0", id: message.id, result: {} });
+            resolve(message);
+          }
+        })
+      );
+      await server.start();
+      const declaring = new DeclaringClient(outputChannel, clientTransport);
+
+      await declaring.start();
+
+      expect((await initialize).params).toMatchObject({
+        capabilities: { roots: { listChanged: true }, elicitation: {} },
+        clientInfo: { name: "my-extension", version: "4.5.6" },
+      });
+      await declaring.stop();
+    });
+  });
+
+  describe("Protocol Version Negotiation", () => {
+    /**
+     * Connect a client to a server end that answers initialize with the
+     * given protocol version and echoes every other request (or batch)
+     */
+    async function connectWithVersion(protocolVersion?: string): Promise<{
+      client: InMemoryClient;
+      server: InMemoryTransport;
+      clientTransport: Transport;
+    }> {
+      const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+      server.onMessage((message) => {
+        if (message.method === "initialize") {
+          server.send({
+            jsonrpc: "2.0",
+            id: message.id,
+            result: { protocolVersion, capabilities: {} },
+          });
+        } else if (message.id !== undefined) {
+          server.send({
+            jsonrpc: "2.0",
+            id: message.id,
+            result: { echo: message.method },
+          });
+        }
+      });
+      await server.start();
+
+      const inMemory = new InMemoryClient(outputChannel, clientTransport);
+      return { client: inMemory, server, clientTransport };
+    }
+
+    it("should accept an older version chosen by the server", async () => {
+      const { client: inMemory, clientTransport } = await connectWithVersion(
+        "2024-11-05"
+      );
+      const setProtocolVersion = jest.fn();
+      clientTransport.setProtocolVersion = setProtocolVersion;
+
+      await inMemory.start();
+
+      expect(inMemory.getProtocolVersion()).toBe("2024-11-05");
+      expect(inMemory.getDiagnostics().protocolVersion).toBe("2024-11-05");
+      expect(setProtocolVersion).toHaveBeenCalledWith("2024-11-05");
+      await inMemory.stop();
+    });
+
+    it("should fail with a clear error for an unsupported version", async () => {
+      const { client: inMemory, clientTransport } = await connectWithVersion(
+        "2023-01-01"
+      );
+
+      await expect(inMemory.start()).rejects.toThrow(
+        "Server requires unsupported MCP protocol version 2023-01-01 (supported: 2025-06-18, 2025-03-26, 2024-11-05)"
+      );
+
+      const status = inMemory.getConnectionStatus();
+      expect(status.state).toBe(ConnectionState.ERROR);
+      expect(status.message).toContain(
+        "unsupported MCP protocol version 2023-01-01"
+      );
+      expect(status.serverProcessRunning).toBe(false);
+      expect(clientTransport.isAlive()).toBe(false);
+      expect(inMemory.getProtocolVersion()).toBeUndefined();
+    });
+
+    it("should send a JSON-RPC batch only for 2025-03-26", async () => {
+      const { client: inMemory, clientTransport } = await connectWithVersion(
+        "2025-03-26"
+      );
+      const sendBatch = jest.fn(async (messages: JSONRPCMessage[]) => {
+        for (const message of messages) {
+          await clientTransport.send(message);
+        }
+      });
+      clientTransport.sendBatch = sendBatch;
+      await inMemory.start();
+
+      const results = await inMemory["sendBatch"]([
+        { method: "tools/list", params: {} },
+        { method: "prompts/list", params: {} },
+      ]);
+
+      expect(sendBatch).toHaveBeenCalledTimes(1);
+      expect(sendBatch.mock.calls[0][0].map((m) => m.method)).toEqual([
+        "tools/list",
+        "prompts/list",
+      ]);
+      expect(results).toEqual([
+        { status: "fulfilled", value: { echo: "tools/list" } },
+        { status: "fulfilled", value: { echo: "prompts/list" } },
+      ]);
+      await inMemory.stop();
+    });
+
+    it("should send batched requests one by one for other versions", async () => {
+      const { client: inMemory, clientTransport } = await connectWithVersion(
+        "2025-06-18"
+      );
+      const sendBatch = jest.fn();
+      clientTransport.sendBatch = sendBatch;
+      await inMemory.start();
+
+      const results = await inMemory["sendBatch"]([
+        { method: "tools/list", params: {} },
+        { method: "prompts/list", params: {} },
+      ]);
+
+      expect(sendBatch).not.toHaveBeenCalled();
+      expect(results.map((r) => r.status)).toEqual(["fulfilled", "fulfilled"]);
+      await inMemory.stop();
+    });
+  });
+
+  describe("Cancellation", () => {
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    /**
+     * Connect a client to a server end that answers initialize and "ping",
+     * never answers anything else, and records every message
+     */
+    async function connectToSlowServer(): Promise<{
+      client: InMemoryClient;
+      received: JSONRPCMessage[];
+    }> {
+      const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+      const received: JSONRPCMessage[] = [];
+      server.onMessage((message) => {
+        received.push(message);
+        if (message.method === "initialize" || message.method === "ping") {
+          server.send({ jsonrpc: "2.0", id: message.id, result: {} });
+        }
+      });
+      await server.start();
+
+      const inMemory = new InMemoryClient(outputChannel, clientTransport);
+      await inMemory.start();
+      await flush();
+      return { client: inMemory, received };
+    }
+
+    it("should reject, clean up and notify the server when aborted", async () => {
+      const { client: inMemory, received } = await connectToSlowServer();
+      const controller = new AbortController();
+
+      const call = inMemory["callTool"](
+        "long_running",
+        {},
+        { signal: controller.signal }
+      );
+      await flush();
+      const requestId = received.find((m) => m.method === "tools/call")?.id;
+      controller.abort();
+
+      await expect(call).rejects.toThrow("Request cancelled: tools/call");
+      await expect(call).rejects.toHaveProperty("name", "AbortError");
+      expect(inMemory["pendingRequests"].size).toBe(0);
+
+      await flush();
+      expect(received[received.length - 1]).toEqual({
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId, reason: "Request cancelled by client" },
+      });
+      await inMemory.stop();
+    });
+
+    it("should not send a request whose signal is already aborted", async () => {
+      const { client: inMemory, received } = await connectToSlowServer();
+      const controller = new AbortController();
+      controller.abort();
+      const sentBefore = received.length;
+
+      await expect(
+        inMemory["sendRequest"]("tools/list", {}, { signal: controller.signal })
+      ).rejects.toThrow("Request cancelled: tools/list");
+
+      await flush();
+      expect(received).toHaveLength(sentBefore);
+      await inMemory.stop();
+    });
+
+    it("should send a cancellation when a request times out", async () => {
+      const { client: inMemory, received } = await connectToSlowServer();
+
+      await expect(
+        inMemory["sendRequest"]("tools/list", {}, { timeout: 20 })
+      ).rejects.toThrow("Request timeout after 20ms: tools/list");
+
+      await flush();
+      const cancelled = received.find(
+        (m) => m.method === "notifications/cancelled"
+      );
+      expect(cancelled?.params).toEqual({
+        requestId: received.find((m) => m.method === "tools/list")?.id,
+        reason: "Request timed out after 20ms",
+      });
+      await inMemory.stop();
+    });
+
+    it("should ignore an abort after the response arrived", async () => {
+      const { client: inMemory, received } = await connectToSlowServer();
+      const controller = new AbortController();
+
+      await inMemory["sendRequest"]("ping", {}, { signal: controller.signal });
+      controller.abort();
+
+      await flush();
+      expect(received.some((m) => m.method === "notifications/cancelled")).toBe(
+        false
+      );
+      await inMemory.stop();
+    });
+
+    it("should cancel every outstanding request when the deadline expires", async () => {
+      const { client: inMemory, received } = await connectToSlowServer();
+
+      const outcome = withDeadline(50, async (deadline) => {
+        await inMemory.ping({ deadline });
+        return Promise.all([
+          inMemory.listTools({ deadline }),
+          inMemory.readResource("file:///a", { deadline }),
+        ]);
+      });
+
+      await expect(outcome).rejects.toThrow(DeadlineExceededError);
+      await expect(outcome).rejects.toThrow(
+        /^Deadline of 50ms exceeded: (tools\/list|resources\/read)$/
+      );
+      expect(inMemory["pendingRequests"].size).toBe(0);
+
+      await flush();
+      expect(
+        received
+          .filter((m) => m.method === "notifications/cancelled")
+          .map((m) => (m.params as { reason: string }).reason)
+      ).toEqual(["Deadline exceeded", "Deadline exceeded"]);
+      await inMemory.stop();
+    });
+
+    it("should cap the timeout at the deadline and pass it in _meta", async () => {
+      const { client: inMemory, received } = await connectToSlowServer();
+      const deadline = new Deadline(5000);
+
+      inMemory["callTool"]("long_running", {}, { deadline }).catch(
+        () => undefined
+      );
+      inMemory["sendRequest"](
+        "tools/list",
+        {},
+        { timeout: 1000, deadline }
+      ).catch(() => undefined);
+      await flush();
+
+      const [call, list] = inMemory.getDiagnostics().pendingRequests;
+      expect(call.timeoutSource).toBe("deadline");
+      expect(call.timeoutMs).toBeLessThanOrEqual(5000);
+      expect(list).toMatchObject({
+        timeoutMs: 1000,
+        timeoutSource: "request option",
+      });
+
+      const meta = received.find((m) => m.method === "tools/call")?.params as {
+        _meta?: { deadlineMs?: number };
+      };
+      expect(meta._meta?.deadlineMs).toBeGreaterThan(4000);
+      expect(meta._meta?.deadlineMs).toBeLessThanOrEqual(5000);
+
+      deadline.dispose();
+      await inMemory.stop();
+    });
+
+    it("should not send a request once the deadline has expired", async () => {
+      const { client: inMemory, received } = await connectToSlowServer();
+      const deadline = new Deadline(0);
+      const sentBefore = received.length;
+
+      await expect(inMemory.ping({ deadline })).rejects.toThrow(
+        "Deadline of 0ms exceeded: ping"
+      );
+
+      await flush();
+      expect(received).toHaveLength(sentBefore);
+      await inMemory.stop();
+    });
+  });
+
+  describe("Progress", () => {
+    /**
+     * Connect a client to a server end that reports progress for
+     * tools/call every intervalMs and answers after `steps` reports
+     */
+    async function connectToReportingServer(
+      intervalMs: number,
+      steps: number
+    ): Promise<{ client: InMemoryClient; received: JSONRPCMessage[] }> {
+      const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+      const received: JSONRPCMessage[] = [];
+      server.onMessage((message) => {
+        received.push(message);
+        if (message.method === "initialize") {
+          server.send({ jsonrpc: "2.0", id: message.id, result: {} });
+          return;
+        }
+        if (message.method !== "tools/call") {
+          return;
+        }
+
+        const meta = (message.params as { _meta?: { progressToken?: number } })
+          ._meta;
+        let step = 0;
+        const timer = setInterval(() => {
+          if (!server.isAlive()) {
+            clearInterval(timer);
+            return;
+          }
+          step++;
+          if (meta?.progressToken !== undefined) {
+            server.send({
+              jsonrpc: "2.0",
+              method: "notifications/progress",
+              params: {
+                progressToken: meta.progressToken,
+                progress: step,
+                total: steps,
+                message: `step ${step}`,
+              },
+            });
+          }
+          if (step >= steps) {
+            clearInterval(timer);
+            server.send({ jsonrpc: "2.0", id: message.id, result: { step } });
+          }
+        }, intervalMs);
+      });
+      await server.start();
+
+      const inMemory = new InMemoryClient(outputChannel, clientTransport);
+      await inMemory.start();
+      return { client: inMemory, received };
+    }
+
+    it("should attach a progress token and forward progress", async () => {
+      const { client: inMemory, received } = await connectToReportingServer(
+        5,
+        3
+      );
+      const onProgress = jest.fn();
+
+      const result = await inMemory["callTool"](
+        "index",
+        { path: "/" },
+        { onProgress }
+      );
+
+      const call = received.find((m) => m.method === "tools/call");
+      expect(call?.params).toEqual({
+        name: "index",
+        arguments: { path: "/" },
+        _meta: { progressToken: call?.id },
+      });
+      expect(result).toEqual({ step: 3 });
+      expect(onProgress.mock.calls.map(([p]) => p.progress)).toEqual([1, 2, 3]);
+      expect(onProgress).toHaveBeenLastCalledWith({
+        progressToken: call?.id,
+        progress: 3,
+        total: 3,
+        message: "step 3",
+      });
+      await inMemory.stop();
+    });
+
+    it("should show the last progress in pending request diagnostics", async () => {
+      const { client: inMemory } = await connectToReportingServer(5, 100);
+      const firstProgress = new Promise<void>((resolve) => {
+        inMemory["callTool"](
+          "index",
+          {},
+          { onProgress: () => resolve() }
+        ).catch(() => undefined);
+      });
+
+      await firstProgress;
+
+      const diagnostics = inMemory.getDiagnostics();
+      expect(diagnostics.pendingRequests[0].progress).toEqual({
+        progress: 1,
+        total: 100,
+        message: "step 1",
+      });
+      await inMemory.stop();
+    });
+
+    it("should keep the fixed timeout unless asked to reset it", async () => {
+      const { client: inMemory } = await connectToReportingServer(15, 6);
+
+      await expect(
+        inMemory["callTool"]("index", {}, { timeout: 40, onProgress: () => {} })
+      ).rejects.toThrow("Request timeout after 40ms: tools/call");
+      await inMemory.stop();
+    });
+
+    it("should restart the timeout when progress arrives", async () => {
+      const { client: inMemory } = await connectToReportingServer(15, 6);
+
+      await expect(
+        inMemory["callTool"](
+          "index",
+          {},
+          { timeout: 40, onProgress: () => {}, resetTimeoutOnProgress: true }
+        )
+      ).resolves.toEqual({ step: 6 });
+      await inMemory.stop();
+    });
+
+    it("should cap the total time even while progress arrives", async () => {
+      const { client: inMemory, received } = await connectToReportingServer(
+        10,
+        50
+      );
+
+      await expect(
+        inMemory["callTool"](
+          "index",
+          {},
+          {
+            timeout: 40,
+            onProgress: () => {},
+            resetTimeoutOnProgress: true,
+            maxTotalTimeout: 80,
+          }
+        )
+      ).rejects.toThrow(
+        "Request exceeded maximum total timeout of 80ms: tools/call"
+      );
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(
+        received.find((m) => m.method === "notifications/cancelled")?.params
+      ).toMatchObject({
+        reason: "Request exceeded maximum total timeout of 80ms",
+      });
+      await inMemory.stop();
+    });
+  });
+
+  describe("MCP API", () => {
+    /**
+     * Connect a client to a server end that answers list methods in pages
+     * of one item and echoes the params of every other request
+     */
+    async function connectToCatalogServer(): Promise<{
+      client: InMemoryClient;
+      received: JSONRPCMessage[];
+    }> {
+      const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+      const lists: Record<string, [string, unknown[]]> = {
+        "tools/list": [
+          "tools",
+          [
+            { name: "search", inputSchema: { type: "object" } },
+            { name: "index", inputSchema: { type: "object" } },
+          ],
+        ],
+        "resources/list": [
+          "resources",
+          [{ uri: "file:///a.txt", name: "a.txt" }],
+        ],
+        "resources/templates/list": [
+          "resourceTemplates",
+          [{ uriTemplate: "file:///{path}", name: "files" }],
+        ],
+        "prompts/list": ["prompts", [{ name: "review" }, { name: "explain" }]],
+      };
+      const received: JSONRPCMessage[] = [];
+      server.onMessage((message) => {
+        received.push(message);
+        if (message.id === undefined) {
+          return;
+        }
+
+        const list = lists[message.method ?? ""];
+        if (list) {
+          const [key, items] = list;
+          const cursor = (message.params as { cursor?: string }).cursor;
+          const index = cursor === undefined ? 0 : Number(cursor);
+          server.send({
+            jsonrpc: "2.0",
+            id: message.id,
+            result: {
+              [key]: items.slice(index, index + 1),
+              ...(index + 1 < items.length
+                ? { nextCursor: String(index + 1) }
+                : {}),
+            },
+          });
+          return;
+        }
+        server.send({
+          jsonrpc: "2.0",
+          id: message.id,
+          result:
+            message.method === "initialize" ? {} : { echo: message.params },
+        });
+      });
+      await server.start();
+
+      const inMemory = new InMemoryClient(outputChannel, clientTransport);
+      await inMemory.start();
+      return { client: inMemory, received };
+    }
+
+    it("should follow nextCursor across pages", async () => {
+      const { client: inMemory, received } = await connectToCatalogServer();
+
+      const tools = await inMemory.listTools();
+      const prompts = await inMemory.listPrompts();
+
+      expect(tools.map((tool) => tool.name)).toEqual(["search", "index"]);
+      expect(prompts.map((prompt) => prompt.name)).toEqual([
+        "review",
+        "explain",
+      ]);
+      expect(
+        received.filter((m) => m.method === "tools/list").map((m) => m.params)
+      ).toEqual([{}, { cursor: "1" }]);
+      await inMemory.stop();
+    });
+
+    it("should list resources and resource templates", async () => {
+      const { client: inMemory } = await connectToCatalogServer();
+
+      await expect(inMemory.listResources()).resolves.toEqual([
+        { uri: "file:///a.txt", name: "a.txt" },
+      ]);
+      await expect(inMemory.listResourceTemplates()).resolves.toEqual([
+        { uriTemplate: "file:///{path}", name: "files" },
+      ]);
+      await inMemory.stop();
+    });
+
+    it("should send the MCP params for single requests", async () => {
+      const { client: inMemory, received } = await connectToCatalogServer();
+
+      await inMemory.readResource("file:///a.txt");
+      await inMemory.getPrompt("review", { language: "ts" });
+      await inMemory.complete(
+        { type: "ref/prompt", name: "review" },
+        { name: "language", value: "t" }
+      );
+      await inMemory.setLoggingLevel("warning");
+      await inMemory.ping();
+
+      expect(
+        received
+          .filter((m) => m.method !== "initialize" && m.id !== undefined)
+          .map((m) => [m.method, m.params])
+      ).toEqual([
+        ["resources/read", { uri: "file:///a.txt" }],
+        ["prompts/get", { name: "review", arguments: { language: "ts" } }],
+        [
+          "completion/complete",
+          {
+            ref: { type: "ref/prompt", name: "review" },
+            argument: { name: "language", value: "t" },
+          },
+        ],
+        ["logging/setLevel", { level: "warning" }],
+        ["ping", undefined],
+      ]);
+      await inMemory.stop();
+    });
+
+    it("should stop paginating when the server repeats a cursor", async () => {
+      const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+      let pages = 0;
+      server.onMessage((message) => {
+        if (message.method === "tools/list") {
+          pages++;
+        }
+        server.send({
+          jsonrpc: "2.0",
+          id: message.id,
+          result:
+            message.method === "tools/list"
+              ? { tools: [{ name: `tool${pages}` }], nextCursor: "same" }
+              : {},
+        });
+      });
+      await server.start();
+      const inMemory = new InMemoryClient(outputChannel, clientTransport);
+      await inMemory.start();
+
+      const tools = await inMemory.listTools();
+
+      expect(pages).toBe(2);
+      expect(tools).toHaveLength(2);
+      expect(
+        outputChannel.logs.some(
+          (log) =>
+            log.level === "warn" &&
+            log.message.includes(
+              "Server repeated pagination cursor for tools/list"
+            )
+        )
+      ).toBe(true);
+      await inMemory.stop();
+    });
+
+    it("should take the timeout for each method from the TimeoutManager", async () => {
+      const { client: inMemory } = await connectToCatalogServer();
+      const selectTimeout = jest.spyOn(
+        inMemory["timeoutManager"],
+        "selectTimeout"
+      );
+
+      await inMemory.listTools();
+      await inMemory.ping();
+
+      expect(selectTimeout.mock.calls.map(([method]) => method)).toEqual([
+        "tools/list",
+        "tools/list",
+        "ping",
+      ]);
+      await inMemory.stop();
+    });
+  });
+
+  describe("Catalog", () => {
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+    /**
+     * Test client that connects to a fresh in-process server on every start
+     */
+    class CatalogClient extends BaseMCPClient {
+      server!: InMemoryTransport;
+
+      constructor(
+        private readonly serve: (server: InMemoryTransport) => void,
+        config?: Partial<MCPClientConfig>
+      ) {
+        super("TestExtension", outputChannel, config);
+      }
+
+      protected createTransport(): Transport {
+        const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+        this.serve(server);
+        void server.start();
+        this.server = server;
+        return clientTransport;
+      }
+
+      protected async onServerReady(): Promise<void> {}
+    }
+
+    /**
+     * Start a client against servers that offer the given capabilities
+     * and answer list requests from a mutable tool list
+     */
+    async function connectToCatalogServer(
+      capabilities: Record<string, unknown>,
+      config?: Partial<MCPClientConfig>
+    ): Promise<{
+      client: CatalogClient;
+      received: JSONRPCMessage[];
+      tools: Array<{ name: string }>;
+    }> {
+      const received: JSONRPCMessage[] = [];
+      const tools = [{ name: "search" }];
+      const client = new CatalogClient((server) => {
+        server.onMessage((message) => {
+          received.push(message);
+          if (message.id === undefined) {
+            return;
+          }
+          const results: Record<string, unknown> = {
+            initialize: { capabilities },
+            "tools/list": { tools: [...tools] },
+            "prompts/list": { prompts: [{ name: "review" }] },
+          };
+          server.send({
+            jsonrpc: "2.0",
+            id: message.id,
+            result: results[message.method ?? ""] ?? {},
+          });
+        });
+      }, config);
+
+      await client.start();
+      return { client, received, tools };
+    }
+
+    it("should fill the catalog for declared capabilities after start", async () => {
+      const { client: inMemory, received } = await connectToCatalogServer({
+        tools: {},
+        prompts: {},
+      });
+
+      const catalog = await inMemory.refreshCatalog();
+
+      expect(catalog).toEqual({
+        tools: [{ name: "search" }],
+        resources: [],
+        prompts: [{ name: "review" }],
+      });
+      expect(received.map((m) => m.method)).not.toContain("resources/list");
+      await inMemory.stop();
+    });
+
+    it("should refresh a list when the server reports a change", async () => {
+      const { client: inMemory, tools } = await connectToCatalogServer({
+        tools: { listChanged: true },
+      });
+      await inMemory.refreshCatalog();
+      const changed = new Promise<CatalogChange>((resolve) =>
+        inMemory.onCatalogChange(resolve)
+      );
+
+      tools.push({ name: "index" });
+      await inMemory.server.send({
+        jsonrpc: "2.0",
+        method: "notifications/tools/list_changed",
+      });
+
+      const change = await changed;
+      expect(change.kind).toBe("tools");
+      expect(change.catalog.tools.map((tool) => tool.name)).toEqual([
+        "search",
+        "index",
+      ]);
+      await inMemory.stop();
+    });
+
+    it("should ignore changes to lists the server does not offer", async () => {
+      const { client: inMemory, received } = await connectToCatalogServer({
+        tools: {},
+      });
+      await inMemory.refreshCatalog();
+
+      await inMemory.server.send({
+        jsonrpc: "2.0",
+        method: "notifications/prompts/list_changed",
+      });
+      await flush();
+
+      expect(received.map((m) => m.method)).not.toContain("prompts/list");
+      await inMemory.stop();
+    });
+
+    it("should keep the catalog across reconnect until refreshed", async () => {
+      const { client: inMemory, tools } = await connectToCatalogServer({
+        tools: {},
+      });
+      await inMemory.refreshCatalog();
+      const seen: string[][] = [];
+      inMemory.onCatalogChange(({ catalog }) =>
+        seen.push(catalog.tools.map((tool) => tool.name))
+      );
+
+      tools.splice(0, tools.length, { name: "index" });
+      await inMemory.stop();
+      expect(inMemory.getCatalog().tools).toEqual([{ name: "search" }]);
+
+      await expect(inMemory.reconnect()).resolves.toBe(true);
+      await inMemory.refreshCatalog();
+
+      expect(seen).toEqual([["index"]]);
+      await inMemory.stop();
+    });
+
+    it("should not fetch the catalog when disabled", async () => {
+      const { client: inMemory, received } = await connectToCatalogServer(
+        { tools: {} },
+        { catalog: { enabled: false } }
+      );
+      await flush();
+
+      expect(received.map((m) => m.method)).not.toContain("tools/list");
+      expect(inMemory.getCatalog().tools).toEqual([]);
+      await inMemory.stop();
+    });
+  });
+
+  describe("Tool Validation", () => {
+    const searchTool = {
+      name: "search",
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: { type: "string", minLength: 1 },
+          limit: { type: "integer", minimum: 1 },
+        },
+        required: ["query"],
+        additionalProperties: false,
+      },
+      outputSchema: {
+        type: "object",
+        properties: { hits: { type: "array", items: { type: "string" } } },
+        required: ["hits"],
+      },
+    };
+
+    /**
+     * Start a client whose catalog holds searchTool, against a server that
+     * answers tools/call with the given structured content
+     */
+    async function connect(
+      mode: "off" | "warn" | "enforce",
+      structuredContent: unknown = { hits: ["a"] }
+    ): Promise<{ client: InMemoryClient; calls: JSONRPCMessage[] }> {
+      const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+      const calls: JSONRPCMessage[] = [];
+      server.onMessage((message) => {
+        if (message.id === undefined) {
+          return;
+        }
+        if (message.method === "tools/call") {
+          calls.push(message);
+        }
+        const results: Record<string, unknown> = {
+          initialize: { capabilities: { tools: {} } },
+          "tools/list": { tools: [searchTool] },
+          "tools/call": { content: [], structuredContent },
+        };
+        server.send({
+          jsonrpc: "2.0",
+          id: message.id,
+          result: results[message.method ?? ""] ?? {},
+        });
+      });
+      await server.start();
+
+      const inMemory = new InMemoryClient(outputChannel, clientTransport, {
+        toolValidation: { mode },
+      });
+      await inMemory.start();
+      await inMemory.refreshCatalog();
+      return { client: inMemory, calls };
+    }
+
+    it("should reject invalid arguments before sending in enforce mode", async () => {
+      const { client: inMemory, calls } = await connect("enforce");
+
+      const error = await inMemory["callTool"]("search", {
+        query: "",
+        limit: 1.5,
+        extra: true,
+      }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ToolValidationError);
+      expect((error as ToolValidationError).target).toBe("arguments");
+      expect((error as ToolValidationError).violations).toEqual([
+        { path: "/query", message: "must be at least 1 characters long" },
+        { path: "/limit", message: "expected integer, got number" },
+        { path: "/extra", message: "is not allowed" },
+      ]);
+      expect(calls).toHaveLength(0);
+      await inMemory.stop();
+    });
+
+    it("should reject a structured result that breaks the outputSchema", async () => {
+      const { client: inMemory, calls } = await connect("enforce", {
+        hits: ["a", 2],
+      });
+
+      const error = await inMemory["callTool"]("search", {
+        query: "mcp",
+      }).catch((e: unknown) => e);
+
+      expect(calls).toHaveLength(1);
+      expect(error).toBeInstanceOf(ToolValidationError);
+      expect((error as ToolValidationError).target).toBe("result");
+      expect((error as ToolValidationError).violations).toEqual([
+        { path: "/hits/1", message: "expected string, got integer" },
+      ]);
+      await inMemory.stop();
+    });
+
+    it("should send the call and log a warning in warn mode", async () => {
+      const { client: inMemory, calls } = await connect("warn");
+
+      await expect(
+        inMemory["callTool"]("search", { limit: 5 })
+      ).resolves.toMatchObject({ structuredContent: { hits: ["a"] } });
+
+      expect(calls).toHaveLength(1);
+      expect(
+        outputChannel.logs.some(
+          (log) =>
+            log.level === "warn" &&
+            log.message.includes(
+              "Invalid arguments for tool search: /query is required"
+            )
+        )
+      ).toBe(true);
+      await inMemory.stop();
+    });
+
+    it("should not validate when off or when the tool is not cached", async () => {
+      const { client: inMemory, calls } = await connect("off");
+      await inMemory["callTool"]("search", { limit: "five" });
+
+      const { client: enforcing, calls: enforcedCalls } = await connect(
+        "enforce"
+      );
+      await enforcing["callTool"]("unknown", { anything: true });
+
+      expect(calls).toHaveLength(1);
+      expect(enforcedCalls).toHaveLength(1);
+      await inMemory.stop();
+      await enforcing.stop();
+    });
+  });
+
+  describe("Circuit Breaker", () => {
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+    const sleep = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+
+    /**
+     * Connect a client to a server end that answers initialize, and
+     * answers other requests only while healthy is set
+     */
+    async function connect(): Promise<{
+      client: InMemoryClient;
+      server: { healthy: boolean };
+      received: JSONRPCMessage[];
+      serverEnd: InMemoryTransport;
+    }> {
+      const [clientTransport, serverEnd] = InMemoryTransport.createLinkedPair();
+      const server = { healthy: false };
+      const received: JSONRPCMessage[] = [];
+      serverEnd.onMessage((message) => {
+        received.push(message);
+        if (
+          message.id !== undefined &&
+          (message.method === "initialize" || server.healthy)
+        ) {
+          serverEnd.send({ jsonrpc: "2.0", id: message.id, result: {} });
+        }
+      });
+      await serverEnd.start();
+
+      const inMemory = new InMemoryClient(outputChannel, clientTransport, {
+        circuitBreaker: {
+          enabled: true,
+          failureThreshold: 2,
+          windowMs: 10000,
+          coolDownMs: 100,
+        },
+      });
+      await inMemory.start();
+      await flush();
+      return { client: inMemory, server, received, serverEnd };
+    }
+
+    async function timeOut(inMemory: InMemoryClient, times: number) {
+      for (let i = 0; i < times; i++) {
+        await expect(
+          inMemory["sendRequest"]("tools/list", {}, { timeout: 20 })
+        ).rejects.toThrow("Request timeout");
+      }
+    }
+
+    it("should fail requests fast once enough requests time out", async () => {
+      const { client: inMemory, received } = await connect();
+      await timeOut(inMemory, 2);
+      await flush();
+      const sentBefore = received.length;
+
+      const error = await inMemory.ping().catch((e) => e);
+
+      expect(error).toBeInstanceOf(CircuitOpenError);
+      expect(error.message).toMatch(
+        /^Circuit breaker is open; not sending ping \(retry in \d+ms\)$/
+      );
+      await flush();
+      expect(received).toHaveLength(sentBefore);
+      expect(
+        outputChannel.logs.some(
+          (log) =>
+            log.level === "warn" &&
+            log.message.includes("Circuit breaker opened after 2 failures")
+        )
+      ).toBe(true);
+      await inMemory.stop();
+    });
+
+    it("should reject a whole batch while open", async () => {
+      const { client: inMemory } = await connect();
+      await timeOut(inMemory, 2);
+
+      const results = await inMemory["sendBatch"]([
+        { method: "tools/list", params: {} },
+        { method: "ping", params: {} },
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual([
+        "rejected",
+        "rejected",
+      ]);
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(
+        CircuitOpenError
+      );
+      await inMemory.stop();
+    });
+
+    it("should send only the first request of a batch as the probe", async () => {
+      const { client: inMemory, server } = await connect();
+      await timeOut(inMemory, 2);
+      await sleep(110);
+      server.healthy = true;
+
+      const results = await inMemory["sendBatch"]([
+        { method: "tools/list", params: {} },
+        { method: "ping", params: {} },
+      ]);
+
+      expect(results[0].status).toBe("fulfilled");
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(
+        CircuitOpenError
+      );
+      expect(inMemory.getConnectionStatus().circuitBreaker?.state).toBe(
+        CircuitState.CLOSED
+      );
+      await inMemory.stop();
+    });
+
+    it("should close after a successful probe once the cool-down ends", async () => {
+      const { client: inMemory, server } = await connect();
+      await timeOut(inMemory, 2);
+      await sleep(110);
+      server.healthy = true;
+
+      const probe = inMemory.ping();
+      await expect(inMemory.ping()).rejects.toBeInstanceOf(CircuitOpenError);
+      await expect(probe).resolves.toBeUndefined();
+
+      expect(inMemory.getConnectionStatus().circuitBreaker?.state).toBe(
+        CircuitState.CLOSED
+      );
+      await expect(inMemory.ping()).resolves.toBeUndefined();
+      await inMemory.stop();
+    });
+
+    it("should let another probe through when the probe is lost with the connection", async () => {
+      const { client: inMemory, serverEnd } = await connect();
+      await timeOut(inMemory, 2);
+      await sleep(110);
+
+      const probe = inMemory.ping();
+      await flush();
+      await serverEnd.close();
+
+      await expect(probe).rejects.toThrow("Connection closed");
+      expect(inMemory.getConnectionStatus().circuitBreaker?.state).toBe(
+        CircuitState.HALF_OPEN
+      );
+      expect(inMemory["circuitBreaker"]!.allowRequest(-1)).toBe(true);
+      await inMemory.stop();
+    });
+
+    it("should keep the probe in flight when another request is cancelled", async () => {
+      const { client: inMemory } = await connect();
+      const controller = new AbortController();
+      const earlier = inMemory["sendRequest"](
+        "tools/list",
+        {},
+        { timeout: 5000, signal: controller.signal }
+      );
+      await timeOut(inMemory, 2);
+      await sleep(110);
+
+      const probe = inMemory.ping().catch((error) => error);
+      controller.abort();
+
+      await expect(earlier).rejects.toThrow("Request cancelled: tools/list");
+      await expect(inMemory.ping()).rejects.toBeInstanceOf(CircuitOpenError);
+      await inMemory.stop();
+      expect(await probe).toBeInstanceOf(Error);
+    });
+
+    it("should report the breaker in status and diagnostics", async () => {
+      const { client: inMemory } = await connect();
+      await timeOut(inMemory, 2);
+
+      const status = inMemory.getConnectionStatus();
+      expect(status.circuitBreaker).toMatchObject({
+        state: CircuitState.OPEN,
+        failureCount: 2,
+      });
+      expect(status.circuitBreaker?.retryAt).toBe(
+        (status.circuitBreaker?.openedAt ?? 0) + 100
+      );
+      expect(inMemory.getDiagnostics().circuitBreaker).toMatchObject({
+        state: CircuitState.OPEN,
+      });
+      await inMemory.stop();
+    });
+
+    it("should be off by default", () => {
+      const [clientTransport] = InMemoryTransport.createLinkedPair();
+      const inMemory = new InMemoryClient(outputChannel, clientTransport);
+
+      expect(inMemory.getConnectionStatus().circuitBreaker).toBeUndefined();
+    });
+
+    it("should be left out when disabled", async () => {
+      const [clientTransport] = InMemoryTransport.createLinkedPair();
+      const inMemory = new InMemoryClient(outputChannel, clientTransport, {
+        circuitBreaker: {
+          enabled: false,
+          failureThreshold: 5,
+          windowMs: 60000,
+          coolDownMs: 30000,
+        },
+      });
+
+      expect(inMemory.getConnectionStatus().circuitBreaker).toBeUndefined();
+      expect(inMemory.getDiagnostics().circuitBreaker).toBeUndefined();
+    });
+  });
+
+  describe("Crash Recovery", () => {
+    const sleep = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+
+    /**
+     * Client that connects to a fresh in-memory server on every start,
+     * so each restart can be observed
+     */
+    class RestartingClient extends BaseMCPClient {
+      public transports: InMemoryTransport[] = [];
+
+      protected createTransport(): Transport {
+        const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+        server.onMessage((message) => {
+          if (message.method === "initialize") {
+            server.send({ jsonrpc: "2.0", id: message.id, result: {} });
+          }
+        });
+        void server.start();
+        this.transports.push(clientTransport);
+        return clientTransport;
+      }
+
+      protected async onServerReady(): Promise<void> {}
+
+      /** Report the current server as exited */
+      crash(code: number | null, signal: string | null = null): void {
+        this.transports[this.transports.length - 1]["emitClose"]({
+          code,
+          signal,
+        });
+      }
+    }
+
+    function createClient(
+      restart: Partial<MCPClientConfig["restart"]>
+    ): RestartingClient {
+      return new RestartingClient("TestExtension", outputChannel, {
+        reSync: { maxRetries: 3, retryDelayMs: 10, backoffMultiplier: 2 },
+        restart: {
+          policy: "on-failure",
+          maxCrashes: 5,
+          crashWindowMs: 60000,
+          ...restart,
+        },
+      });
+    }
+
+    it("should restart after a failure with the on-failure policy", async () => {
+      const restarting = createClient({ policy: "on-failure" });
+      await restarting.start();
+
+      restarting.crash(1);
+      expect(restarting.getConnectionStatus().state).toBe(
+        ConnectionState.DISCONNECTED
+      );
+      await sleep(50);
+
+      expect(restarting.transports).toHaveLength(2);
+      expect(restarting.getConnectionStatus().state).toBe(
+        ConnectionState.CONNECTED
+      );
+      expect(
+        outputChannel.logs.some((log) =>
+          log.message.includes("Restarting server in 10ms (crash 1/5")
+        )
+      ).toBe(true);
+      await restarting.stop();
+    });
+
+    it("should not restart after a clean exit unless the policy is always", async () => {
+      const onFailure = createClient({ policy: "on-failure" });
+      const always = createClient({ policy: "always" });
+      const never = createClient({ policy: "never" });
+      await Promise.all([onFailure.start(), always.start(), never.start()]);
+
+      onFailure.crash(0);
+      always.crash(0);
+      never.crash(null, "SIGKILL");
+      await sleep(50);
+
+      expect(onFailure.transports).toHaveLength(1);
+      expect(always.transports).toHaveLength(2);
+      expect(never.transports).toHaveLength(1);
+      await onFailure.stop();
+      await always.stop();
+      await never.stop();
+    });
+
+    it("should back off between restarts", async () => {
+      const restarting = createClient({});
+      await restarting.start();
+
+      restarting.crash(1);
+      await sleep(30);
+      restarting.crash(1);
+      await sleep(50);
+
+      expect(restarting.transports).toHaveLength(3);
+      expect(
+        outputChannel.logs.some((log) =>
+          log.message.includes("Restarting server in 20ms (crash 2/5")
+        )
+      ).toBe(true);
+      await restarting.stop();
+    });
+
+    it("should stop restarting and report a crash loop", async () => {
+      const restarting = createClient({ maxCrashes: 2 });
+      await restarting.start();
+
+      restarting.crash(1);
+      await sleep(30);
+      restarting.crash(1);
+      await sleep(50);
+      restarting["serverStderr"] = "Error: config file missing\n";
+      restarting.crash(3);
+      await sleep(50);
+
+      expect(restarting.transports).toHaveLength(3);
+      const status = restarting.getConnectionStatus();
+      expect(status.state).toBe(ConnectionState.CRASH_LOOP);
+      expect(status.message).toBe(
+        "Server crashed 3 times within 60000ms; not restarting"
+      );
+      const history = restarting.getDiagnostics().stateHistory;
+      expect(history[history.length - 1].lastError?.message).toBe(
+        "Server process exited with code: 3\nError: config file missing\n"
+      );
+      expect(restarting.getDiagnostics().crashLoop).toMatchObject({
+        crashCount: 3,
+        windowMs: 60000,
+        lastExit: "Server process exited with code: 3",
+        stderr: "Error: config file missing\n",
+      });
+
+      // Starting by hand gives the server a fresh start
+      await restarting.start();
+      expect(restarting.getDiagnostics().crashLoop).toBeUndefined();
+      expect(restarting.getConnectionStatus().state).toBe(
+        ConnectionState.CONNECTED
+      );
+      await restarting.stop();
+    });
+
+    it("should cancel a pending restart when stopped", async () => {
+      const restarting = new RestartingClient("TestExtension", outputChannel, {
+        reSync: { maxRetries: 3, retryDelayMs: 30, backoffMultiplier: 2 },
+        restart: { policy: "always", maxCrashes: 5, crashWindowMs: 60000 },
+      });
+      await restarting.start();
+
+      restarting.crash(1);
+      await restarting.stop();
+      await sleep(60);
+
+      expect(restarting.transports).toHaveLength(1);
+      expect(restarting.getConnectionStatus().state).toBe(
+        ConnectionState.DISCONNECTED
+      );
+    });
+
+    it("should reject an invalid restart configuration", () => {
+      expect(() => createClient({ policy: "sometimes" as never })).toThrow(
+        "Invalid restart configuration: policy must be one of never, on-failure, always"
+      );
+      expect(() => createClient({ maxCrashes: 0 })).toThrow(
+        "Invalid restart configuration: maxCrashes must be a positive integer"
+      );
+    });
+  });
+
+  describe("Lazy Start", () => {
+    const sleep = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+
+    /**
+     * Client that connects to a fresh in-memory server on every start and
+     * answers ping after pingDelayMs
+     */
+    class LazyClient extends BaseMCPClient {
+      public transports: InMemoryTransport[] = [];
+      public pingDelayMs = 0;
+
+      protected createTransport(): Transport {
+        const [clientTransport, server] = InMemoryTransport.createLinkedPair();
+        server.onMessage((message) => {
+          if (message.method === "initialize") {
+            server.send({ jsonrpc: "2.0", id: message.id, result: {} });
+          } else if (message.method === "ping") {
+            setTimeout(
+              () => server.send({ jsonrpc: "2.0", id: message.id, result: {} }),
+              this.pingDelayMs
+            );
+          }
+        });
+        void server.start();
+        this.transports.push(clientTransport);
+        return clientTransport;
+      }
+
+      protected async onServerReady(): Promise<void> {}
+    }
+
+    function createClient(idleTimeoutMs: number = 50): LazyClient {
+      return new LazyClient("TestExtension", outputChannel, {
+        catalog: { enabled: false },
+        lazyStart: { enabled: true, idleTimeoutMs },
+      });
+    }
+
+    it("should start the server on the first request", async () => {
+      const lazy = createClient(0);
+      await lazy.start();
+
+      expect(lazy.transports).toHaveLength(0);
+      expect(lazy.getConnectionStatus()).toMatchObject({
+        state: ConnectionState.DISCONNECTED,
+        message: "Waiting for the first request to start the server",
+      });
+
+      // Concurrent requests share one start
+      await Promise.all([lazy.ping(), lazy.ping()]);
+
+      expect(lazy.transports).toHaveLength(1);
+      expect(lazy.getConnectionStatus().state).toBe(ConnectionState.CONNECTED);
+      await lazy.stop();
+    });
+
+    it("should stop an idle server and start it again on the next request", async () => {
+      const lazy = createClient();
+      await lazy.start();
+      await lazy.ping();
+
+      await sleep(80);
+
+      expect(lazy.transports[0].isAlive()).toBe(false);
+      expect(lazy.isServerProcessAlive()).toBe(false);
+      expect(lazy.getConnectionStatus()).toMatchObject({
+        state: ConnectionState.IDLE_STOPPED,
+        message:
+          "Server stopped after 50ms idle; the next request starts it again",
+      });
+
+      await lazy.ping();
+      expect(lazy.transports).toHaveLength(2);
+      expect(lazy.getConnectionStatus().state).toBe(ConnectionState.CONNECTED);
+
+      // Stopping by hand is recorded differently and disarms lazy start
+      await lazy.stop();
+      const states = lazy
+        .getDiagnostics()
+        .stateHistory.map(({ state }) => state);
+      expect(states.slice(-4)).toEqual([
+        ConnectionState.IDLE_STOPPED,
+        ConnectionState.CONNECTING,
+        ConnectionState.CONNECTED,
+        ConnectionState.DISCONNECTED,
+      ]);
+      await expect(lazy.ping()).rejects.toThrow("Server process not available");
+    });
+
+    it("should not stop the server while a request is pending", async () => {
+      const lazy = createClient();
+      lazy.pingDelayMs = 100;
+      await lazy.start();
+
+      const pending = lazy.ping();
+      await sleep(80);
+      expect(lazy.getConnectionStatus().state).toBe(ConnectionState.CONNECTED);
+
+      // The idle countdown starts once the request settles
+      await pending;
+      await sleep(30);
+      expect(lazy.getConnectionStatus().state).toBe(ConnectionState.CONNECTED);
+      await sleep(50);
+      expect(lazy.getConnectionStatus().state).toBe(
+        ConnectionState.IDLE_STOPPED
+      );
+      await lazy.stop();
+    });
+
+    it("should reject an invalid lazy start configuration", () => {
+      expect(() => createClient(-1)).toThrow(
+        "Invalid lazy start configuration: idleTimeoutMs must be a non-negative integer"
+      );
+    });
+  });
+
+  (process.platform === "linux" ? describe : describe.skip)(
+    "Resource Monitoring",
+    () => {
+      const sleep = (ms: number) =>
+        new Promise((resolve) => setTimeout(resolve, ms));
+
+      /**
+       * Client for a real stdio server that answers initialize
+       */
+      class StdioServerClient extends BaseMCPClient {
+        protected getServerCommand(): { command: string; args: string[] } {
+          return {
+            command: process.execPath,
+            args: [
+              "-e",
+              `require("readline").createInterface({ input: process.stdin }).on("line", (line) => {
+                const message = JSON.parse(line);
+                if (message.method === "initialize") {
+                  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: message.id, result: {} }) + "\\n");
+                }
+              });`,
+            ],
+          };
+        }
+
+        protected async onServerReady(): Promise<void> {}
+      }
+
+      function createClient(
+        resourceMonitor: Partial<MCPClientConfig["resourceMonitor"]>
+      ): StdioServerClient {
+        return new StdioServerClient("TestExtension", outputChannel, {
+          catalog: { enabled: false },
+          reSync: { maxRetries: 3, retryDelayMs: 10, backoffMultiplier: 1 },
+          restart: { policy: "never", maxCrashes: 1, crashWindowMs: 60000 },
+          shutdown: { gracePeriodMs: 100, killTimeoutMs: 100 },
+          resourceMonitor: {
+            enabled: true,
+            intervalMs: 50,
+            warn: {},
+            restart: {},
+            ...resourceMonitor,
+          },
+        });
+      }
+
+      it("should be off by default", () => {
+        const unmonitored = new StdioServerClient(
+          "TestExtension",
+          outputChannel
+        );
+
+        expect(unmonitored["resourceMonitor"]).toBeUndefined();
+      });
+
+      it("should report uptime and resource use in diagnostics", async () => {
+        const monitored = createClient({});
+        await monitored.start();
+        await sleep(80);
+
+        const diagnostics = monitored.getDiagnostics();
+        expect(diagnostics.uptimeMs).toBeGreaterThanOrEqual(50);
+        expect(diagnostics.resources).toMatchObject({
+          rssBytes: expect.any(Number),
+          openFds: expect.any(Number),
+          processCount: 1,
+        });
+
+        await monitored.stop();
+        expect(monitored.getDiagnostics().uptimeMs).toBeUndefined();
+        expect(monitored.getDiagnostics().resources).toBeUndefined();
+      });
+
+      it("should log a warning when a warn threshold is exceeded", async () => {
+        const monitored = createClient({ warn: { openFds: 1 } });
+        await monitored.start();
+        await sleep(180);
+
+        const warnings = outputChannel.logs.filter((log) =>
+          log.message.includes("Server open file descriptors at")
+        );
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0].message).toContain("over the warn limit of 1");
+        expect(monitored.getConnectionStatus().state).toBe(
+          ConnectionState.CONNECTED
+        );
+        await monitored.stop();
+      });
+
+      it("should restart a server over a restart threshold until it loops", async () => {
+        const monitored = createClient({ restart: { rssMb: 1 } });
+        await monitored.start();
+
+        // One restart is allowed (maxCrashes: 1); the second is a crash loop
+        await sleep(1000);
+
+        expect(
+          outputChannel.logs.filter((log) =>
+            log.message.includes("Restarting MCP server: Server memory at")
+          )
+        ).toHaveLength(2);
+        expect(monitored.getConnectionStatus()).toMatchObject({
+          state: ConnectionState.CRASH_LOOP,
+          message: "Server crashed 2 times within 60000ms; not restarting",
+        });
+        expect(monitored.isServerProcessAlive()).toBe(false);
+        await monitored.stop();
+      });
+    }
+  );
 });
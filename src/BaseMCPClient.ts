@@ -5,18 +5,66 @@
  * connection state management across all MCP extensions.
  */
 
-import { ChildProcess, spawn } from "child_process";
+import { ChildProcess } from "child_process";
 import {
   MCPClientConfig,
   PendingRequest,
+  ProgressNotificationParams,
+  RequestOptions,
   ConnectionStatus,
   ServerDiagnostics,
   ConnectionState,
   CommunicationLogEntry,
+  CallToolResult,
+  Catalog,
+  CatalogChange,
+  CatalogKind,
+  CircuitState,
+  ClientCapabilities,
+  CompleteReference,
+  CompleteResult,
+  CrashLoopInfo,
+  RestartConfig,
+  LazyStartConfig,
+  ResourceThresholdBreach,
+  GetPromptResult,
+  Implementation,
+  InitializeResult,
+  JSONRPCMessage,
+  JSONRPCErrorCode,
+  JSONRPCId,
+  LatencyStore,
+  LoggingLevel,
+  Prompt,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+  ServerCapabilities,
+  ServerNotificationMap,
+  ServerRequestHandler,
+  ServerRequestMap,
+  TimeoutSelection,
+  Tool,
+  TransportCloseInfo,
 } from "./types";
 import { TimeoutManager } from "./TimeoutManager";
 import { ConnectionStateManager } from "./ConnectionStateManager";
 import { ReSyncManager } from "./ReSyncManager";
+import { CatalogCache } from "./CatalogCache";
+import { CircuitBreaker } from "./CircuitBreaker";
+import { CircuitOpenError } from "./CircuitOpenError";
+import { ResourceMonitor } from "./ResourceMonitor";
+import { Transport } from "./Transport";
+import { StdioTransport } from "./StdioTransport";
+import { MCPRequestError } from "./MCPRequestError";
+import { ToolValidationError } from "./ToolValidationError";
+import { validateJsonSchema } from "./jsonSchema";
+import {
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  isSupportedProtocolVersion,
+  supportsBatching,
+} from "./protocolVersions";
 
 /**
  * Log output channel interface (compatible with vscode.LogOutputChannel)
@@ -35,6 +83,91 @@ export interface LogOutputChannel {
   dispose(): void;
 }
 
+/**
+ * Characters of server stderr kept in a crash loop report
+ */
+const MAX_CRASH_STDERR_LENGTH = 4000;
+
+/**
+ * Longest stop() waits for the latency store to save
+ */
+const LATENCY_SAVE_TIMEOUT_MS = 1000;
+
+/**
+ * Restart policies accepted in RestartConfig.policy
+ */
+const RESTART_POLICIES = ["never", "on-failure", "always"];
+
+/**
+ * Check the restart settings
+ * @throws Error if the policy is unknown or a limit is not a positive integer
+ */
+function validateRestartConfig(config: RestartConfig): void {
+  const errors: string[] = [];
+  if (!RESTART_POLICIES.includes(config.policy)) {
+    errors.push(`policy must be one of ${RESTART_POLICIES.join(", ")}`);
+  }
+  for (const key of ["maxCrashes", "crashWindowMs"] as const) {
+    if (!Number.isInteger(config[key]) || config[key] < 1) {
+      errors.push(`${key} must be a positive integer`);
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid restart configuration: ${errors.join(", ")}`);
+  }
+}
+
+/**
+ * Check the lazy start settings
+ * @throws Error if the idle timeout is not a non-negative integer
+ */
+function validateLazyStartConfig(config: LazyStartConfig): void {
+  if (!Number.isInteger(config.idleTimeoutMs) || config.idleTimeoutMs < 0) {
+    throw new Error(
+      "Invalid lazy start configuration: idleTimeoutMs must be a non-negative integer"
+    );
+  }
+}
+
+/**
+ * Instance fields of BaseMCPClient, in declaration order. Fields are not on
+ * the prototype, so tools that must not shadow client members (the typings
+ * generator) read them from here. Update this list with the fields below.
+ */
+export const BASE_CLIENT_FIELDS: readonly string[] = [
+  "transport",
+  "requestId",
+  "pendingRequests",
+  "outputChannel",
+  "timeoutManager",
+  "stateManager",
+  "reSyncManager",
+  "config",
+  "recentCommunication",
+  "maxCommunicationLog",
+  "lastError",
+  "serverStderr",
+  "extensionName",
+  "initializeResult",
+  "isStopping",
+  "transportListeners",
+  "requestHandlers",
+  "notificationListeners",
+  "catalogCache",
+  "circuitBreaker",
+  "restartBackoff",
+  "restartTimer",
+  "crashTimes",
+  "crashLoop",
+  "startOnDemand",
+  "serverStart",
+  "idleTimer",
+  "idleShutdown",
+  "resourceMonitor",
+  "serverStartedAt",
+  "latencyLoaded",
+];
+
 /**
  * BaseMCPClient
  *
@@ -43,7 +176,7 @@ export interface LogOutputChannel {
  * to provide extension-specific behavior.
  */
 export abstract class BaseMCPClient {
-  protected serverProcess?: ChildProcess;
+  protected transport?: Transport;
   protected requestId: number = 0;
   protected pendingRequests: Map<number, PendingRequest>;
   protected outputChannel: LogOutputChannel;
@@ -56,7 +189,25 @@ export abstract class BaseMCPClient {
   protected lastError?: { message: string; timestamp: number };
   protected serverStderr: string = "";
   protected extensionName: string;
+  protected initializeResult?: InitializeResult;
   private isStopping: boolean = false;
+  private transportListeners: Array<{ dispose: () => void }> = [];
+  private requestHandlers: Map<string, ServerRequestHandler> = new Map();
+  private notificationListeners: Map<string, Set<(params: unknown) => void>> =
+    new Map();
+  private catalogCache: CatalogCache;
+  private circuitBreaker?: CircuitBreaker;
+  private restartBackoff: ReSyncManager;
+  private restartTimer?: NodeJS.Timeout;
+  private crashTimes: number[] = [];
+  private crashLoop?: CrashLoopInfo;
+  private startOnDemand: boolean = false;
+  private serverStart?: Promise<void>;
+  private idleTimer?: NodeJS.Timeout;
+  private idleShutdown?: Promise<void>;
+  private resourceMonitor?: ResourceMonitor;
+  private serverStartedAt?: number;
+  private latencyLoaded: boolean = false;
 
   constructor(
     extensionName: string,
@@ -84,6 +235,37 @@ export abstract class BaseMCPClient {
         logLevel: "info",
         logCommunication: true,
       },
+      catalog: {
+        enabled: true,
+      },
+      toolValidation: {
+        mode: "warn",
+      },
+      circuitBreaker: {
+        enabled: false,
+        failureThreshold: 5,
+        windowMs: 60000,
+        coolDownMs: 30000,
+      },
+      restart: {
+        policy: "never",
+        maxCrashes: 5,
+        crashWindowMs: 60000,
+      },
+      shutdown: {
+        gracePeriodMs: 2000,
+        killTimeoutMs: 2000,
+      },
+      lazyStart: {
+        enabled: false,
+        idleTimeoutMs: 300000,
+      },
+      resourceMonitor: {
+        enabled: false,
+        intervalMs: 10000,
+        warn: {},
+        restart: {},
+      },
       ...config,
     };
 
@@ -91,45 +273,226 @@ export abstract class BaseMCPClient {
     this.timeoutManager = new TimeoutManager(this.config.timeout);
     this.stateManager = new ConnectionStateManager();
     this.reSyncManager = new ReSyncManager(this.config.reSync);
+    // Restarts use the re-sync backoff but count their own attempts
+    this.restartBackoff = new ReSyncManager(this.config.reSync);
+    validateRestartConfig(this.config.restart);
+    validateLazyStartConfig(this.config.lazyStart);
+    this.catalogCache = new CatalogCache(
+      {
+        tools: () => this.listTools(),
+        resources: () => this.listResources(),
+        prompts: () => this.listPrompts(),
+      },
+      (kind, error) =>
+        this.log(
+          "warn",
+          `Failed to refresh ${kind} catalog: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+    );
+
+    if (this.config.circuitBreaker.enabled) {
+      this.circuitBreaker = new CircuitBreaker(this.config.circuitBreaker);
+      this.circuitBreaker.onStateChange(({ state, failureCount }) => {
+        if (state === CircuitState.OPEN) {
+          this.log(
+            "warn",
+            `Circuit breaker opened after ${failureCount} failures; failing requests for ${this.config.circuitBreaker.coolDownMs}ms`
+          );
+        } else if (state === CircuitState.HALF_OPEN) {
+          this.log(
+            "info",
+            "Circuit breaker half-open; sending a probe request"
+          );
+        } else {
+          this.log("info", "Circuit breaker closed");
+        }
+      });
+    }
+
+    if (this.config.resourceMonitor.enabled) {
+      this.resourceMonitor = new ResourceMonitor(this.config.resourceMonitor);
+      this.resourceMonitor.onThresholdExceeded((breach) =>
+        this.handleResourceBreach(breach)
+      );
+    }
+
+    if (this.config.lazyStart.enabled) {
+      // Start counting idle time whenever the server becomes usable
+      this.stateManager.onStateChange(({ state }) => {
+        if (state === ConnectionState.CONNECTED) {
+          this.scheduleIdleStop();
+        }
+      });
+    }
+
+    if (this.config.catalog.enabled) {
+      this.onNotification("notifications/tools/list_changed", () =>
+        this.invalidateCatalog("tools")
+      );
+      this.onNotification("notifications/resources/list_changed", () =>
+        this.invalidateCatalog("resources")
+      );
+      this.onNotification("notifications/prompts/list_changed", () =>
+        this.invalidateCatalog("prompts")
+      );
+    }
   }
 
   // ========== Abstract Methods (Extension-Specific) ==========
 
   /**
-   * Get the command and arguments to spawn the server process
+   * Called when the server is ready (after successful initialization)
+   * Extensions can perform additional setup here
+   */
+  protected abstract onServerReady(): Promise<void>;
+
+  // ========== Transport Selection ==========
+
+  /**
+   * Get the command and arguments to spawn the server process.
+   * Required when using the default stdio transport.
    * @returns Command and arguments for spawning the server
    */
-  protected abstract getServerCommand(): { command: string; args: string[] };
+  protected getServerCommand(): { command: string; args: string[] } {
+    throw new Error(
+      "getServerCommand() must be implemented when using the stdio transport"
+    );
+  }
 
   /**
    * Get environment variables for the server process
    * @returns Environment variables object
    */
-  protected abstract getServerEnv(): Record<string, string>;
+  protected getServerEnv(): Record<string, string> {
+    return { ...process.env } as Record<string, string>;
+  }
 
   /**
-   * Called when the server is ready (after successful initialization)
-   * Extensions can perform additional setup here
+   * Get the capabilities declared to the server during initialization.
+   * The default declares roots, sampling and elicitation for each of
+   * roots/list, sampling/createMessage and elicitation/create that has a
+   * registered request handler.
+   * @returns Client capabilities
    */
-  protected abstract onServerReady(): Promise<void>;
+  protected getClientCapabilities(): ClientCapabilities {
+    const capabilities: ClientCapabilities = {};
+    if (this.requestHandlers.has("roots/list")) {
+      capabilities.roots = { listChanged: false };
+    }
+    if (this.requestHandlers.has("sampling/createMessage")) {
+      capabilities.sampling = {};
+    }
+    if (this.requestHandlers.has("elicitation/create")) {
+      capabilities.elicitation = {};
+    }
+    return capabilities;
+  }
+
+  /**
+   * Get the client name and version sent to the server.
+   * Extensions should override this to report their own version.
+   * @returns Client implementation info
+   */
+  protected getClientInfo(): Implementation {
+    return { name: this.extensionName, version: "1.0.0" };
+  }
+
+  /**
+   * Get the store that keeps latency statistics between sessions.
+   * The statistics are loaded on the first start and saved on stop; the
+   * default keeps them in memory only.
+   * @returns Latency store, or undefined to skip persistence
+   */
+  protected getLatencyStore(): LatencyStore | undefined {
+    return undefined;
+  }
+
+  /**
+   * Create the transport used to reach the server.
+   * Called on every start; the default spawns the server process over stdio
+   * using getServerCommand() and getServerEnv().
+   * @returns A new, unstarted transport
+   */
+  protected createTransport(): Transport {
+    const { command, args } = this.getServerCommand();
+    return new StdioTransport({
+      command,
+      args,
+      env: this.getServerEnv(),
+      ...this.config.shutdown,
+    });
+  }
+
+  /**
+   * Server process spawned by the stdio transport, if any
+   */
+  protected get serverProcess(): ChildProcess | undefined {
+    return this.transport instanceof StdioTransport
+      ? this.transport.getProcess()
+      : undefined;
+  }
 
   // ========== Lifecycle Methods ==========
 
   /**
-   * Start the MCP server and initialize connection
+   * Start the MCP server and initialize connection. With lazyStart enabled
+   * the server is only spawned by the first request.
    */
   async start(): Promise<void> {
+    if (this.config.lazyStart.enabled) {
+      this.deferStart();
+      return;
+    }
+    await this.startServer();
+  }
+
+  /**
+   * Start the server now, sharing the attempt with concurrent callers
+   */
+  private startServer(): Promise<void> {
+    const starting = this.launchServer().finally(() => {
+      if (this.serverStart === starting) {
+        this.serverStart = undefined;
+      }
+    });
+    this.serverStart = starting;
+    return starting;
+  }
+
+  /**
+   * Spawn (or connect to) the server and perform the initialize handshake
+   */
+  private async launchServer(): Promise<void> {
     // Reset stopping flag
     this.isStopping = false;
+    this.startOnDemand = true;
+    this.initializeResult = undefined;
+
+    this.cancelRestart();
+    // Starting by hand after a crash loop gives the server a clean slate
+    if (this.stateManager.getStatus().state === ConnectionState.CRASH_LOOP) {
+      this.resetCrashHistory();
+    }
+
+    // A new server starts with a closed circuit
+    this.circuitBreaker?.reset();
 
     this.log("info", "Starting MCP server");
     this.stateManager.setState(ConnectionState.CONNECTING, {
       message: "Starting server process",
     });
 
+    // Restore latency history so adaptive timeouts apply from the start
+    if (!this.latencyLoaded) {
+      this.latencyLoaded = true;
+      await this.loadLatencyStats();
+    }
+
     try {
-      // Spawn server process
-      await this.spawnServerProcess();
+      // Open the transport (spawns the server process for stdio)
+      await this.connectTransport();
 
       // Send initialization request
       await this.sendInitialize();
@@ -142,6 +505,12 @@ export abstract class BaseMCPClient {
       });
 
       this.log("info", "MCP server started successfully");
+
+      // Fill the catalog without delaying start; the previous catalog
+      // stays visible until the refresh finishes
+      if (this.config.catalog.enabled) {
+        void this.refreshCatalog();
+      }
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -150,10 +519,13 @@ export abstract class BaseMCPClient {
         timestamp: Date.now(),
       };
 
-      this.stateManager.setState(ConnectionState.ERROR, {
-        message: `Failed to start server: ${errorMessage}`,
-        lastError: error instanceof Error ? error : new Error(String(error)),
-      });
+      // A crash during startup may already have ended in a crash loop
+      if (this.stateManager.getStatus().state !== ConnectionState.CRASH_LOOP) {
+        this.stateManager.setState(ConnectionState.ERROR, {
+          message: `Failed to start server: ${errorMessage}`,
+          lastError: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
 
       this.log("error", `Failed to start MCP server: ${errorMessage}`);
       throw error;
@@ -161,32 +533,61 @@ export abstract class BaseMCPClient {
   }
 
   /**
-   * Stop the MCP server and cleanup resources
+   * Arm lazy start: the next request spawns the server
+   */
+  private deferStart(): void {
+    this.startOnDemand = true;
+    this.cancelRestart();
+    if (this.stateManager.getStatus().state === ConnectionState.CRASH_LOOP) {
+      this.resetCrashHistory();
+    }
+    if (this.serverStart || this.isServerProcessAlive()) {
+      return;
+    }
+
+    this.isStopping = false;
+    this.log("info", "MCP server will start on the first request");
+    this.stateManager.setServerProcessRunning(false);
+    this.stateManager.setState(ConnectionState.DISCONNECTED, {
+      message: "Waiting for the first request to start the server",
+    });
+  }
+
+  /**
+   * Stop the MCP server and cleanup resources. For stdio servers, stdin is
+   * closed first, then SIGTERM and SIGKILL follow if the process keeps
+   * running (see ShutdownConfig).
+   * @returns Resolves once the server process has exited
    */
-  stop(): void {
+  async stop(): Promise<void> {
+    // Persist latency history for the next session while a failure can
+    // still be logged; the wait is bounded, so a hanging store cannot keep
+    // the server running
+    await this.saveLatencyStats();
+
     // Set flag to prevent any further logging
     this.isStopping = true;
 
     this.log("info", "Stopping MCP server");
 
+    // A stopped server is not restarted, and starts over when started again
+    this.cancelRestart();
+    this.resetCrashHistory();
+    this.cancelIdleStop();
+    this.startOnDemand = false;
+
     // Clear all pending requests
     this.clearPendingRequests();
 
-    // Kill server process if running
-    if (this.serverProcess) {
-      // Remove all event listeners to prevent race conditions
-      this.serverProcess.removeAllListeners();
-
-      // Also remove listeners from streams
-      this.serverProcess.stdout?.removeAllListeners();
-      this.serverProcess.stderr?.removeAllListeners();
-      this.serverProcess.stdin?.removeAllListeners();
+    this.initializeResult = undefined;
 
-      if (this.isServerProcessAlive()) {
-        this.serverProcess.kill();
-      }
+    // Close the transport (shuts the server process down for stdio)
+    await this.disconnectTransport();
+    await this.idleShutdown;
 
-      this.serverProcess = undefined;
+    // start() may have been called while the server was shutting down
+    if (!this.isStopping) {
+      return;
     }
 
     // Update state
@@ -206,14 +607,15 @@ export abstract class BaseMCPClient {
     this.log("info", "Attempting to reconnect to server");
 
     // Stop existing connection
-    this.stop();
+    await this.stop();
 
     // Reset re-sync manager
     this.reSyncManager.reset();
 
     try {
-      // Start new connection
-      await this.start();
+      // Start new connection, even if the server would otherwise wait for
+      // a request (lazyStart)
+      await this.startServer();
       return true;
     } catch (error) {
       this.log(
@@ -232,59 +634,108 @@ export abstract class BaseMCPClient {
    * Send a JSON-RPC request to the server
    * @param method Request method name
    * @param params Request parameters
-   * @param customTimeout Optional custom timeout (overrides default)
+   * @param options Custom timeout (overrides default), or request options
    * @returns Response from server
    */
   protected async sendRequest(
     method: string,
     params: unknown,
-    customTimeout?: number
+    options?: number | RequestOptions
   ): Promise<unknown> {
+    const requestOptions: RequestOptions =
+      typeof options === "number" ? { timeout: options } : options ?? {};
+
+    if (requestOptions.signal?.aborted) {
+      throw this.createCancellationError(method);
+    }
+    if (requestOptions.deadline?.expired) {
+      throw requestOptions.deadline.createError(method);
+    }
+    if (this.needsStartOnDemand(method)) {
+      await this.startForRequest();
+    }
     const id = ++this.requestId;
-    const timeout =
-      customTimeout ?? this.timeoutManager.getTimeoutForRequest(method);
+    if (this.circuitBreaker && !this.circuitBreaker.allowRequest(id)) {
+      throw this.createCircuitOpenError(method);
+    }
 
-    this.log(
-      "debug",
-      `[req-${id}] Sending request: ${method}`,
-      JSON.stringify(params)
+    const { request, response } = this.trackRequest(
+      id,
+      method,
+      params,
+      requestOptions
     );
 
-    return new Promise((resolve, reject) => {
-      // Create timeout handler
-      const timeoutHandle = setTimeout(async () => {
-        this.log(
-          "warn",
-          `[req-${id}] Request timeout after ${timeout}ms: ${method}`
-        );
-        await this.handleTimeout(id, method);
-        reject(new Error(`Request timeout after ${timeout}ms: ${method}`));
-      }, timeout);
+    this.sendToServer(request).catch((error) =>
+      this.failPendingRequest(request.id as number, error)
+    );
+    this.logCommunication("request", { id: request.id, method });
 
-      // Store pending request
-      const pendingRequest: PendingRequest = {
-        id,
-        method,
-        params,
-        resolve,
-        reject,
-        timeoutHandle,
-        startTime: Date.now(),
-      };
+    return response;
+  }
 
-      this.pendingRequests.set(id, pendingRequest);
+  /**
+   * Send several requests at once. They go out as a single JSON-RPC batch
+   * when the negotiated protocol version and the transport support it, and
+   * as individual requests otherwise.
+   * @param requests Methods and parameters of the requests
+   * @returns Outcome of each request, in order
+   */
+  protected async sendBatch(
+    requests: Array<{ method: string; params: unknown }>
+  ): Promise<PromiseSettledResult<unknown>[]> {
+    if (requests.some(({ method }) => this.needsStartOnDemand(method))) {
+      try {
+        await this.startForRequest();
+      } catch (error) {
+        return requests.map(() => ({ status: "rejected", reason: error }));
+      }
+    }
 
-      // Send request
-      const request = {
-        jsonrpc: "2.0",
-        id,
-        method,
-        params,
-      };
+    // Each request passes the circuit breaker on its own, so a half-open
+    // circuit lets only the first one through as the probe
+    const messages: JSONRPCMessage[] = [];
+    const responses: Promise<unknown>[] = [];
+    for (const { method, params } of requests) {
+      const id = ++this.requestId;
+      if (this.circuitBreaker && !this.circuitBreaker.allowRequest(id)) {
+        responses.push(Promise.reject(this.createCircuitOpenError(method)));
+        continue;
+      }
+      const { request, response } = this.trackRequest(id, method, params);
+      messages.push(request);
+      responses.push(response);
+    }
+    const version = this.getProtocolVersion();
+
+    if (
+      version &&
+      supportsBatching(version) &&
+      this.transport?.sendBatch &&
+      messages.length > 1
+    ) {
+      this.log("debug", `Sending batch of ${messages.length} requests`);
+      this.transport.sendBatch(messages).catch((error) => {
+        for (const message of messages) {
+          this.failPendingRequest(message.id as number, error);
+        }
+      });
+    } else {
+      for (const message of messages) {
+        this.sendToServer(message).catch((error) =>
+          this.failPendingRequest(message.id as number, error)
+        );
+      }
+    }
 
-      this.sendToServer(request);
-      this.logCommunication("request", { id, method });
-    });
+    for (const message of messages) {
+      this.logCommunication("request", {
+        id: message.id,
+        method: message.method,
+      });
+    }
+
+    return Promise.allSettled(responses);
   }
 
   /**
@@ -308,123 +759,445 @@ export abstract class BaseMCPClient {
       params,
     };
 
-    this.sendToServer(notification);
+    await this.sendToServer(notification);
     this.logCommunication("notification", { method });
   }
 
   /**
-   * Call an MCP tool
+   * Call an MCP tool. If the tool is in the catalog, the arguments are
+   * checked against its inputSchema before sending and any
+   * structuredContent against its outputSchema (see toolValidation config).
    * @param name Tool name
    * @param args Tool arguments
+   * @param options Request options (timeout, abort signal)
    * @returns Tool result
+   * @throws ToolValidationError if validation fails in "enforce" mode
    */
-  protected async callTool(name: string, args: unknown): Promise<unknown> {
-    return this.sendRequest("tools/call", { name, arguments: args });
+  protected async callTool(
+    name: string,
+    args: unknown,
+    options?: RequestOptions
+  ): Promise<CallToolResult> {
+    const tool = this.catalogCache
+      .getCatalog()
+      .tools.find((candidate) => candidate.name === name);
+
+    if (tool) {
+      this.validateTool(name, "arguments", tool.inputSchema, args ?? {});
+    }
+
+    const result = (await this.sendRequest(
+      "tools/call",
+      { name, arguments: args },
+      options
+    )) as CallToolResult;
+
+    if (tool?.outputSchema && result?.structuredContent !== undefined) {
+      this.validateTool(
+        name,
+        "result",
+        tool.outputSchema,
+        result.structuredContent
+      );
+    }
+    return result;
   }
 
-  // ========== Connection Management ==========
+  /**
+   * Register a handler for requests sent by the server to the client
+   * (e.g. roots/list, sampling/createMessage, elicitation/create).
+   * Replaces any handler already registered for the method.
+   * @param method Request method name
+   * @param handler Returns the result, or throws to reply with an error
+   */
+  protected setRequestHandler<M extends keyof ServerRequestMap>(
+    method: M,
+    handler: ServerRequestHandler<
+      ServerRequestMap[M]["params"],
+      ServerRequestMap[M]["result"]
+    >
+  ): void;
+  protected setRequestHandler(
+    method: string,
+    handler: ServerRequestHandler
+  ): void;
+  protected setRequestHandler(
+    method: string,
+    handler: ServerRequestHandler<never>
+  ): void {
+    this.requestHandlers.set(method, handler as ServerRequestHandler);
+  }
 
   /**
-   * Get current connection status
+   * Remove the handler for a server-initiated request method
+   * @param method Request method name
    */
-  getConnectionStatus(): ConnectionStatus {
-    return this.stateManager.getStatus();
+  protected removeRequestHandler(method: string): void {
+    this.requestHandlers.delete(method);
   }
 
+  // ========== MCP API ==========
+
   /**
-   * Subscribe to connection state changes
-   * @param listener Callback function to be called when state changes
-   * @returns Disposable to unregister the listener
+   * List the tools offered by the server, following pagination
+   * @param options Request options applied to every page
+   * @returns All tools
    */
-  onStateChange(listener: (status: ConnectionStatus) => void): {
-    dispose: () => void;
-  } {
-    return this.stateManager.onStateChange(listener);
+  async listTools(options?: RequestOptions): Promise<Tool[]> {
+    return this.listAll<Tool>("tools/list", "tools", options);
   }
 
   /**
-   * Get re-sync configuration
-   * @returns Current re-sync configuration
+   * List the resources offered by the server, following pagination
+   * @param options Request options applied to every page
+   * @returns All resources
    */
-  getReSyncConfig() {
-    return this.config.reSync;
+  async listResources(options?: RequestOptions): Promise<Resource[]> {
+    return this.listAll<Resource>("resources/list", "resources", options);
   }
 
   /**
-   * Get comprehensive diagnostics information
+   * List the resource templates offered by the server, following pagination
+   * @param options Request options applied to every page
+   * @returns All resource templates
    */
-  getDiagnostics(): ServerDiagnostics {
-    const now = Date.now();
-    const pendingRequestsArray = Array.from(this.pendingRequests.values()).map(
-      (req) => ({
-        id: req.id,
-        method: req.method,
-        elapsedMs: now - req.startTime,
-      })
+  async listResourceTemplates(
+    options?: RequestOptions
+  ): Promise<ResourceTemplate[]> {
+    return this.listAll<ResourceTemplate>(
+      "resources/templates/list",
+      "resourceTemplates",
+      options
     );
-
-    return {
-      extensionName: this.extensionName,
-      processId: this.serverProcess?.pid,
-      processRunning: this.isServerProcessAlive(),
-      connectionState: this.stateManager.getStatus().state,
-      pendingRequestCount: this.pendingRequests.size,
-      pendingRequests: pendingRequestsArray,
-      lastError: this.lastError,
-      recentCommunication: [...this.recentCommunication],
-      stateHistory: this.stateManager.getHistory(20),
-    };
   }
 
   /**
-   * Check if server process is alive
+   * Read a resource
+   * @param uri Resource URI
+   * @param options Request options
+   * @returns Resource contents
    */
-  isServerProcessAlive(): boolean {
-    if (!this.serverProcess) {
-      return false;
-    }
+  async readResource(
+    uri: string,
+    options?: RequestOptions
+  ): Promise<ReadResourceResult> {
+    return (await this.sendRequest(
+      "resources/read",
+      { uri },
+      options
+    )) as ReadResourceResult;
+  }
 
-    // Check if process has exited
-    if (this.serverProcess.exitCode !== null) {
-      return false;
-    }
+  /**
+   * List the prompts offered by the server, following pagination
+   * @param options Request options applied to every page
+   * @returns All prompts
+   */
+  async listPrompts(options?: RequestOptions): Promise<Prompt[]> {
+    return this.listAll<Prompt>("prompts/list", "prompts", options);
+  }
 
-    // Check if process was killed by signal
-    if (this.serverProcess.signalCode !== null) {
-      return false;
-    }
+  /**
+   * Get a prompt, filled in with arguments
+   * @param name Prompt name
+   * @param args Prompt arguments
+   * @param options Request options
+   * @returns Prompt messages
+   */
+  async getPrompt(
+    name: string,
+    args?: Record<string, string>,
+    options?: RequestOptions
+  ): Promise<GetPromptResult> {
+    return (await this.sendRequest(
+      "prompts/get",
+      { name, arguments: args },
+      options
+    )) as GetPromptResult;
+  }
 
-    // Try to send signal 0 (doesn't actually send a signal, just checks if process exists)
-    try {
-      process.kill(this.serverProcess.pid!, 0);
-      return true;
-    } catch {
-      return false;
-    }
+  /**
+   * Ask the server for completions of a prompt or resource template argument
+   * @param ref Prompt or resource template being completed
+   * @param argument Argument name and the value typed so far
+   * @param context Values of previously completed arguments
+   * @param options Request options
+   * @returns Completion values
+   */
+  async complete(
+    ref: CompleteReference,
+    argument: { name: string; value: string },
+    context?: { arguments?: Record<string, string> },
+    options?: RequestOptions
+  ): Promise<CompleteResult> {
+    return (await this.sendRequest(
+      "completion/complete",
+      { ref, argument, ...(context ? { context } : {}) },
+      options
+    )) as CompleteResult;
   }
 
-  // ========== Event Handlers ==========
+  /**
+   * Set the minimum level of log messages the server sends
+   * @param level Logging level
+   * @param options Request options
+   */
+  async setLoggingLevel(
+    level: LoggingLevel,
+    options?: RequestOptions
+  ): Promise<void> {
+    await this.sendRequest("logging/setLevel", { level }, options);
+  }
 
   /**
-   * Handle incoming message from server
+   * Check that the server is responsive
+   * @param options Request options
    */
-  protected handleMessage(message: {
-    id?: number;
-    error?: { message: string };
-    result?: unknown;
-  }): void {
-    // Handle response
-    if (message.id !== undefined && this.pendingRequests.has(message.id)) {
-      const pending = this.pendingRequests.get(message.id)!;
-      clearTimeout(pending.timeoutHandle);
-      this.pendingRequests.delete(message.id);
+  async ping(options?: RequestOptions): Promise<void> {
+    await this.sendRequest("ping", undefined, options);
+  }
 
-      const elapsed = Date.now() - pending.startTime;
+  // ========== Catalog ==========
 
-      if (message.error) {
-        this.log(
-          "error",
-          `[req-${message.id}] Request failed (${elapsed}ms): ${pending.method}`,
+  /**
+   * Get the cached tools, resources and prompts. The cache is filled after
+   * the server is ready and kept across stop() and reconnect(); lists are
+   * replaced once a refresh finishes.
+   * @returns Cached catalog
+   */
+  getCatalog(): Catalog {
+    return this.catalogCache.getCatalog();
+  }
+
+  /**
+   * Fetch the catalog lists the server offers and replace the cached ones.
+   * Lists for capabilities the server does not declare are emptied.
+   * Failed lists are logged and keep their previous contents; nothing is
+   * fetched while disconnected.
+   * @returns Catalog after the refresh
+   */
+  async refreshCatalog(): Promise<Catalog> {
+    const capabilities = this.getServerCapabilities();
+    if (!capabilities) {
+      // Not connected; keep what we have until the next start
+      return this.catalogCache.getCatalog();
+    }
+    const kinds: CatalogKind[] = ["tools", "resources", "prompts"];
+    const offered = kinds.filter((kind) => capabilities[kind] !== undefined);
+
+    this.catalogCache.clear(
+      kinds.filter((kind) => capabilities[kind] === undefined)
+    );
+    await this.catalogCache.refresh(offered);
+    return this.catalogCache.getCatalog();
+  }
+
+  /**
+   * Subscribe to catalog changes
+   * @param listener Called with the changed list and the whole catalog
+   * @returns Disposable to unsubscribe
+   */
+  onCatalogChange(listener: (change: CatalogChange) => void): {
+    dispose: () => void;
+  } {
+    return this.catalogCache.onChange(listener);
+  }
+
+  // ========== Connection Management ==========
+
+  /**
+   * Get current connection status
+   */
+  getConnectionStatus(): ConnectionStatus {
+    const status = this.stateManager.getStatus();
+    return this.circuitBreaker
+      ? { ...status, circuitBreaker: this.circuitBreaker.getStatus() }
+      : status;
+  }
+
+  /**
+   * Subscribe to connection state changes
+   * @param listener Callback function to be called when state changes
+   * @returns Disposable to unregister the listener
+   */
+  onStateChange(listener: (status: ConnectionStatus) => void): {
+    dispose: () => void;
+  } {
+    return this.stateManager.onStateChange(listener);
+  }
+
+  /**
+   * Subscribe to a notification sent by the server
+   * @param method Notification method (e.g. "notifications/tools/list_changed")
+   * @param listener Callback invoked with the notification params
+   * @returns Disposable to unregister the listener
+   */
+  onNotification<M extends keyof ServerNotificationMap>(
+    method: M,
+    listener: (params: ServerNotificationMap[M]) => void
+  ): { dispose: () => void };
+  onNotification(
+    method: string,
+    listener: (params: unknown) => void
+  ): { dispose: () => void };
+  onNotification(
+    method: string,
+    listener: (params: never) => void
+  ): { dispose: () => void } {
+    const callback = listener as (params: unknown) => void;
+    let listeners = this.notificationListeners.get(method);
+    if (!listeners) {
+      listeners = new Set();
+      this.notificationListeners.set(method, listeners);
+    }
+    listeners.add(callback);
+
+    return {
+      dispose: () => {
+        const current = this.notificationListeners.get(method);
+        current?.delete(callback);
+        if (current?.size === 0) {
+          this.notificationListeners.delete(method);
+        }
+      },
+    };
+  }
+
+  /**
+   * Get the capabilities the server declared during initialization
+   * @returns Server capabilities, or undefined before initialization
+   */
+  getServerCapabilities(): ServerCapabilities | undefined {
+    return this.initializeResult?.capabilities;
+  }
+
+  /**
+   * Get the server name and version reported during initialization
+   * @returns Server implementation info, or undefined before initialization
+   */
+  getServerInfo(): Implementation | undefined {
+    return this.initializeResult?.serverInfo;
+  }
+
+  /**
+   * Get the usage instructions the server sent during initialization
+   * @returns Instructions, or undefined if the server sent none
+   */
+  getServerInstructions(): string | undefined {
+    return this.initializeResult?.instructions;
+  }
+
+  /**
+   * Get the protocol version negotiated with the server
+   * @returns Protocol version, or undefined before initialization
+   */
+  getProtocolVersion(): string | undefined {
+    return this.initializeResult?.protocolVersion;
+  }
+
+  /**
+   * Get re-sync configuration
+   * @returns Current re-sync configuration
+   */
+  getReSyncConfig() {
+    return this.config.reSync;
+  }
+
+  /**
+   * Get comprehensive diagnostics information
+   */
+  getDiagnostics(): ServerDiagnostics {
+    const now = Date.now();
+    const pendingRequestsArray = Array.from(this.pendingRequests.values()).map(
+      (req) => ({
+        id: req.id,
+        method: req.method,
+        elapsedMs: now - req.startTime,
+        timeoutMs: req.timeoutMs,
+        timeoutSource: req.timeoutSource,
+        progress: req.lastProgress && {
+          progress: req.lastProgress.progress,
+          total: req.lastProgress.total,
+          message: req.lastProgress.message,
+        },
+      })
+    );
+
+    const transportInfo = this.transport?.getInfo();
+
+    return {
+      extensionName: this.extensionName,
+      processId: transportInfo?.processId,
+      processTree: transportInfo?.processTree,
+      endpoint: transportInfo?.endpoint,
+      sessionId: transportInfo?.sessionId,
+      transport: transportInfo,
+      protocolVersion: this.getProtocolVersion(),
+      processRunning: this.isServerProcessAlive(),
+      connectionState: this.stateManager.getStatus().state,
+      circuitBreaker: this.circuitBreaker?.getStatus(),
+      crashLoop: this.crashLoop,
+      uptimeMs:
+        this.serverStartedAt !== undefined && this.isServerProcessAlive()
+          ? Date.now() - this.serverStartedAt
+          : undefined,
+      resources: this.resourceMonitor?.getUsage(),
+      pendingRequestCount: this.pendingRequests.size,
+      latencyStats: this.timeoutManager.getLatencyStats(),
+      pendingRequests: pendingRequestsArray,
+      lastError: this.lastError,
+      recentCommunication: [...this.recentCommunication],
+      stateHistory: this.stateManager.getHistory(20),
+    };
+  }
+
+  /**
+   * Check if server process (or, for non-stdio transports, the connection) is alive
+   */
+  isServerProcessAlive(): boolean {
+    return this.transport?.isAlive() ?? false;
+  }
+
+  // ========== Event Handlers ==========
+
+  /**
+   * Handle incoming message from server
+   */
+  protected handleMessage(message: JSONRPCMessage): void {
+    // Handle request initiated by the server
+    if (message.method !== undefined && message.id !== undefined) {
+      void this.handleServerRequest(message.id, message.method, message.params);
+      return;
+    }
+
+    // Handle notification
+    if (message.method !== undefined) {
+      this.handleNotification(message.method, message.params);
+      return;
+    }
+
+    // Handle response
+    if (
+      typeof message.id === "number" &&
+      this.pendingRequests.has(message.id)
+    ) {
+      const pending = this.pendingRequests.get(message.id)!;
+      clearTimeout(pending.timeoutHandle);
+      this.pendingRequests.delete(message.id);
+
+      const elapsed = Date.now() - pending.startTime;
+      // Any response, even an error, shows the server is working
+      this.circuitBreaker?.recordSuccess(message.id);
+      this.timeoutManager.recordLatency(
+        pending.method,
+        elapsed,
+        this.getToolName(pending.params)
+      );
+
+      if (message.error) {
+        this.log(
+          "error",
+          `[req-${message.id}] Request failed (${elapsed}ms): ${pending.method}`,
           JSON.stringify(message.error)
         );
         this.logCommunication("response", {
@@ -432,7 +1205,13 @@ export abstract class BaseMCPClient {
           method: pending.method,
           error: message.error.message,
         });
-        pending.reject(new Error(message.error.message || "Request failed"));
+        pending.reject(
+          new MCPRequestError(
+            message.error.code ?? JSONRPCErrorCode.INTERNAL_ERROR,
+            message.error.message || "Request failed",
+            message.error.data
+          )
+        );
       } else {
         this.log(
           "debug",
@@ -447,6 +1226,132 @@ export abstract class BaseMCPClient {
     }
   }
 
+  /**
+   * Dispatch a notification sent by the server to its listeners
+   * @param method Notification method
+   * @param params Notification parameters
+   */
+  protected handleNotification(method: string, params: unknown): void {
+    this.log("debug", `Received notification: ${method}`);
+    this.logCommunication("notification", { method, inbound: true });
+
+    if (method === "notifications/progress") {
+      this.handleProgress(params as ProgressNotificationParams);
+    }
+
+    const listeners = this.notificationListeners.get(method);
+    if (!listeners) {
+      return;
+    }
+
+    for (const listener of [...listeners]) {
+      try {
+        listener(params);
+      } catch (error) {
+        // One failing listener must not prevent the others from running
+        this.log(
+          "warn",
+          `Notification listener failed for ${method}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+  }
+
+  /**
+   * Route a progress notification to the request that asked for it
+   * @param params Progress notification payload
+   */
+  private handleProgress(params: ProgressNotificationParams): void {
+    const token = params?.progressToken;
+    const pending =
+      typeof token === "number" ? this.pendingRequests.get(token) : undefined;
+    if (!pending?.onProgress) {
+      return;
+    }
+
+    pending.lastProgress = params;
+    pending.resetTimeout?.();
+
+    try {
+      pending.onProgress(params);
+    } catch (error) {
+      this.log(
+        "warn",
+        `[req-${pending.id}] Progress callback failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Answer a request sent by the server using the registered handler
+   * @param id Request ID chosen by the server
+   * @param method Requested method
+   * @param params Request parameters
+   */
+  private async handleServerRequest(
+    id: JSONRPCId,
+    method: string,
+    params: unknown
+  ): Promise<void> {
+    this.log("debug", `[server-req-${id}] Received request: ${method}`);
+    this.logCommunication("request", { id, method, inbound: true });
+
+    const handler = this.requestHandlers.get(method);
+    let response: JSONRPCMessage;
+    if (!handler) {
+      response = {
+        jsonrpc: "2.0",
+        id,
+        error: {
+          code: JSONRPCErrorCode.METHOD_NOT_FOUND,
+          message: `Method not found: ${method}`,
+        },
+      };
+    } else {
+      try {
+        const result = await handler(params, { id, method });
+        response = { jsonrpc: "2.0", id, result: result ?? {} };
+      } catch (error) {
+        const requestError =
+          error instanceof MCPRequestError
+            ? error
+            : new MCPRequestError(
+                JSONRPCErrorCode.INTERNAL_ERROR,
+                error instanceof Error ? error.message : String(error)
+              );
+        response = { jsonrpc: "2.0", id, error: requestError.toJSON() };
+      }
+    }
+
+    if (response.error) {
+      this.log(
+        "warn",
+        `[server-req-${id}] Replying with error: ${method}`,
+        JSON.stringify(response.error)
+      );
+    }
+
+    try {
+      await this.sendToServer(response);
+      this.logCommunication("response", {
+        id,
+        method,
+        error: response.error?.message,
+      });
+    } catch (error) {
+      this.log(
+        "warn",
+        `[server-req-${id}] Failed to send response: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
   /**
    * Handle request timeout
    */
@@ -463,6 +1368,19 @@ export abstract class BaseMCPClient {
 
     // For initialization timeout, attempt re-synchronization
     if (method === "initialize") {
+      // An open circuit means the server keeps failing; retrying would
+      // only start another cycle of timeouts
+      if (this.circuitBreaker?.getState() === CircuitState.OPEN) {
+        this.log(
+          "warn",
+          "Initialization timeout, circuit breaker is open; skipping re-synchronization"
+        );
+        this.stateManager.setState(ConnectionState.ERROR, {
+          message: "Initialization timed out while the circuit breaker is open",
+        });
+        return;
+      }
+
       this.log("warn", "Initialization timeout, attempting re-synchronization");
 
       // Check if server process is still alive
@@ -502,40 +1420,317 @@ export abstract class BaseMCPClient {
   }
 
   /**
-   * Handle server process exit
+   * Handle the transport closing without being asked to
+   */
+  protected handleTransportClose(info: TransportCloseInfo): void {
+    this.resourceMonitor?.stop();
+    this.serverStartedAt = undefined;
+
+    // Connection-oriented transports report a reason instead of an exit status
+    if (info.reason && info.code === null && info.signal === null) {
+      this.handleConnectionLost(info.reason);
+      return;
+    }
+
+    this.handleServerExit(info.code, info.signal);
+  }
+
+  /**
+   * Handle loss of a connection to a server the client does not own
+   * (socket closed, session expired, ...)
+   */
+  protected handleConnectionLost(reason: string): void {
+    this.stateManager.setServerProcessRunning(false);
+
+    const message = `Connection to server lost: ${reason}`;
+    this.log("error", message);
+
+    this.lastError = {
+      message,
+      timestamp: Date.now(),
+    };
+
+    // Clear pending requests
+    this.clearPendingRequests();
+
+    // Update state
+    this.stateManager.setState(ConnectionState.DISCONNECTED, {
+      message,
+    });
+  }
+
+  /**
+   * Handle server process exit
+   */
+  protected handleServerExit(code: number | null, signal: string | null): void {
+    this.stateManager.setServerProcessRunning(false);
+
+    let message: string;
+    if (signal) {
+      message = `Server process killed by signal: ${signal}`;
+      this.log("error", message);
+    } else if (code !== null) {
+      message = `Server process exited with code: ${code}`;
+      this.log("error", message);
+    } else {
+      message = "Server process exited unexpectedly";
+      this.log("error", message);
+    }
+
+    // Log stderr if available
+    if (this.serverStderr) {
+      this.log("error", `Server stderr: ${this.serverStderr}`);
+    }
+
+    this.lastError = {
+      message,
+      timestamp: Date.now(),
+    };
+
+    // Clear pending requests
+    this.clearPendingRequests();
+
+    // Update state
+    this.stateManager.setState(ConnectionState.DISCONNECTED, {
+      message,
+    });
+
+    if (!this.isStopping && this.shouldRestart(code, signal)) {
+      this.handleCrash(message);
+    }
+  }
+
+  /**
+   * Whether the restart policy calls for a restart after this exit
+   */
+  private shouldRestart(code: number | null, signal: string | null): boolean {
+    switch (this.config.restart.policy) {
+      case "always":
+        return true;
+      case "on-failure":
+        return signal !== null || code !== 0;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Record a crash and schedule a restart, or give up when the server
+   * has crashed more than maxCrashes times within crashWindowMs
+   * @param exitMessage How the server exited
+   */
+  private handleCrash(exitMessage: string): void {
+    const { maxCrashes, crashWindowMs } = this.config.restart;
+    const now = Date.now();
+    this.crashTimes = this.crashTimes.filter(
+      (time) => time > now - crashWindowMs
+    );
+    this.crashTimes.push(now);
+
+    if (this.crashTimes.length > maxCrashes) {
+      this.crashLoop = {
+        crashCount: this.crashTimes.length,
+        windowMs: crashWindowMs,
+        detectedAt: now,
+        lastExit: exitMessage,
+        stderr: this.serverStderr.slice(-MAX_CRASH_STDERR_LENGTH),
+      };
+      const message = `Server crashed ${this.crashTimes.length} times within ${crashWindowMs}ms; not restarting`;
+      this.log("error", message);
+      this.lastError = { message, timestamp: now };
+      this.stateManager.setState(ConnectionState.CRASH_LOOP, {
+        message,
+        lastError: new Error(
+          this.crashLoop.stderr
+            ? `${exitMessage}\n${this.crashLoop.stderr}`
+            : exitMessage
+        ),
+      });
+      return;
+    }
+
+    // The first crash in a while starts the backoff over
+    if (this.crashTimes.length === 1) {
+      this.restartBackoff.reset();
+    }
+    const delay = this.restartBackoff.nextAttemptDelay();
+    this.log(
+      "warn",
+      `Restarting server in ${delay}ms (crash ${this.crashTimes.length}/${maxCrashes} within ${crashWindowMs}ms)`
+    );
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = undefined;
+      // Drop the dead connection, then respawn the way start() always does
+      this.disconnectTransport()
+        .then(() => this.startServer())
+        .catch((error) => {
+          this.log(
+            "error",
+            `Automatic restart failed: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        });
+    }, delay);
+  }
+
+  private cancelRestart(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = undefined;
+    }
+  }
+
+  private resetCrashHistory(): void {
+    this.crashTimes = [];
+    this.crashLoop = undefined;
+    this.restartBackoff.reset();
+  }
+
+  /**
+   * Whether a request has to start the server first (lazyStart)
+   * @param method Method of the request about to be sent
+   */
+  private needsStartOnDemand(method: string): boolean {
+    if (
+      !this.config.lazyStart.enabled ||
+      !this.startOnDemand ||
+      // Sent by the start itself
+      method === "initialize" ||
+      this.stateManager.getStatus().state === ConnectionState.CRASH_LOOP
+    ) {
+      return false;
+    }
+    if (this.serverStart) {
+      // Requests from onServerReady go out once the handshake is done
+      return !this.initializeResult;
+    }
+    return this.idleShutdown !== undefined || !this.isServerProcessAlive();
+  }
+
+  /**
+   * Start the server for a request, or wait for a start in progress
+   */
+  private async startForRequest(): Promise<void> {
+    // Let an idle server finish exiting before spawning its successor
+    await this.idleShutdown;
+    if (this.serverStart) {
+      await this.serverStart;
+      return;
+    }
+    if (!this.isServerProcessAlive()) {
+      this.log("info", "Starting MCP server for a request");
+      await this.startServer();
+    }
+  }
+
+  /**
+   * Restart the idle countdown once nothing is pending (lazyStart)
+   */
+  private scheduleIdleStop(): void {
+    this.cancelIdleStop();
+    const { enabled, idleTimeoutMs } = this.config.lazyStart;
+    if (!enabled || idleTimeoutMs === 0 || !this.isIdle()) {
+      return;
+    }
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = undefined;
+      if (this.isIdle()) {
+        void this.stopIdleServer();
+      }
+    }, idleTimeoutMs);
+  }
+
+  private cancelIdleStop(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = undefined;
+    }
+  }
+
+  private isIdle(): boolean {
+    return (
+      this.pendingRequests.size === 0 &&
+      this.stateManager.getStatus().state === ConnectionState.CONNECTED
+    );
+  }
+
+  /**
+   * Stop a server that has been idle for idleTimeoutMs. Unlike stop(), the
+   * next request starts it again.
    */
-  protected handleServerExit(code: number | null, signal: string | null): void {
-    this.stateManager.setServerProcessRunning(false);
+  private async stopIdleServer(): Promise<void> {
+    const { idleTimeoutMs } = this.config.lazyStart;
+    this.log(
+      "info",
+      `Stopping MCP server after ${idleTimeoutMs}ms without requests`
+    );
 
-    let message: string;
-    if (signal) {
-      message = `Server process killed by signal: ${signal}`;
-      this.log("error", message);
-    } else if (code !== null) {
-      message = `Server process exited with code: ${code}`;
-      this.log("error", message);
-    } else {
-      message = "Server process exited unexpectedly";
-      this.log("error", message);
-    }
+    void this.saveLatencyStats();
+    this.initializeResult = undefined;
+    this.stateManager.setServerProcessRunning(false);
+    this.stateManager.setState(ConnectionState.IDLE_STOPPED, {
+      message: `Server stopped after ${idleTimeoutMs}ms idle; the next request starts it again`,
+    });
 
-    // Log stderr if available
-    if (this.serverStderr) {
-      this.log("error", `Server stderr: ${this.serverStderr}`);
-    }
+    const shutdown = this.disconnectTransport().finally(() => {
+      if (this.idleShutdown === shutdown) {
+        this.idleShutdown = undefined;
+      }
+    });
+    this.idleShutdown = shutdown;
+    await shutdown;
+  }
 
-    this.lastError = {
-      message,
-      timestamp: Date.now(),
+  /**
+   * Log a resource warning, or restart a server that exceeded a restart
+   * threshold
+   */
+  private handleResourceBreach(breach: ResourceThresholdBreach): void {
+    const { level, resource, value, limit } = breach;
+    const names = {
+      rssMb: "memory",
+      cpuPercent: "CPU",
+      openFds: "open file descriptors",
     };
+    const unit = { rssMb: "MB", cpuPercent: "%", openFds: "" }[resource];
+    const description = `${names[resource]} at ${value}${unit}, over the ${level} limit of ${limit}${unit}`;
 
-    // Clear pending requests
+    if (level === "warn") {
+      this.log("warn", `Server ${description}`);
+      return;
+    }
+    // Let a start in progress finish rather than cut its handshake short
+    const restart = () => this.restartForResources(`Server ${description}`);
+    if (this.serverStart) {
+      this.serverStart.then(restart, () => {});
+    } else {
+      void restart();
+    }
+  }
+
+  /**
+   * Shut a server down that exceeded a restart threshold and restart it.
+   * The restart counts as a crash, so a server that exceeds its limits
+   * right after every start ends up in CRASH_LOOP.
+   * @param reason What exceeded which limit
+   */
+  private async restartForResources(reason: string): Promise<void> {
+    this.log("warn", `Restarting MCP server: ${reason}`);
+    this.lastError = { message: reason, timestamp: Date.now() };
     this.clearPendingRequests();
+    this.initializeResult = undefined;
 
-    // Update state
+    await this.disconnectTransport();
+    if (this.isStopping) {
+      return;
+    }
+
+    this.stateManager.setServerProcessRunning(false);
     this.stateManager.setState(ConnectionState.DISCONNECTED, {
-      message,
+      message: reason,
     });
+    this.handleCrash(reason);
   }
 
   /**
@@ -558,12 +1753,393 @@ export abstract class BaseMCPClient {
 
   // ========== Utility Methods ==========
 
+  /**
+   * Register a pending request with its timeout and abort handling
+   * @returns The request message and a promise for its response
+   */
+  private trackRequest(
+    id: number,
+    method: string,
+    params: unknown,
+    options: RequestOptions = {}
+  ): { request: JSONRPCMessage; response: Promise<unknown> } {
+    const selection: TimeoutSelection =
+      options.timeout !== undefined
+        ? { timeoutMs: options.timeout, source: "request option" }
+        : this.timeoutManager.selectTimeout(
+            method,
+            method === "tools/call" ? this.getToolName(params) : undefined
+          );
+    const timeout = selection.timeoutMs;
+    const maxTotalTimeout = options.maxTotalTimeout;
+    const signal = options.signal;
+    const deadline = options.deadline;
+    const startTime = Date.now();
+
+    // The deadline is enforced through its signal, so only report it here
+    const remaining = deadline?.remainingMs();
+    const effective: TimeoutSelection =
+      remaining !== undefined && remaining < timeout
+        ? { timeoutMs: remaining, source: "deadline" }
+        : selection;
+
+    // Ask the server to report progress using the request ID as token, and
+    // tell it how long it has when there is a deadline
+    const meta: Record<string, unknown> = {};
+    if (options.onProgress) {
+      meta.progressToken = id;
+    }
+    if (remaining !== undefined) {
+      meta.deadlineMs = remaining;
+    }
+    const requestParams =
+      Object.keys(meta).length > 0 ? this.withMeta(params, meta) : params;
+
+    this.log(
+      "debug",
+      `[req-${id}] Sending request: ${method}`,
+      JSON.stringify(requestParams)
+    );
+
+    const response = new Promise<unknown>((resolve, reject) => {
+      const onAbort = () => {
+        const pending = this.pendingRequests.get(id);
+        if (!pending) {
+          return;
+        }
+        this.log("info", `[req-${id}] Request cancelled: ${method}`);
+        this.circuitBreaker?.releaseProbe(id);
+        clearTimeout(pending.timeoutHandle);
+        this.pendingRequests.delete(id);
+        this.sendCancellation(id, method, "Request cancelled by client");
+        pending.reject(this.createCancellationError(method));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const onDeadline = () => {
+        const pending = this.pendingRequests.get(id);
+        if (!pending || !deadline) {
+          return;
+        }
+        this.log("warn", `[req-${id}] Deadline exceeded: ${method}`);
+        this.circuitBreaker?.releaseProbe(id);
+        clearTimeout(pending.timeoutHandle);
+        this.pendingRequests.delete(id);
+        this.sendCancellation(id, method, "Deadline exceeded");
+        pending.reject(deadline.createError(method));
+      };
+      deadline?.signal.addEventListener("abort", onDeadline, { once: true });
+
+      const detach = () => {
+        signal?.removeEventListener("abort", onAbort);
+        deadline?.signal.removeEventListener("abort", onDeadline);
+      };
+
+      // Timeout handler; capped is true when the absolute maximum expired
+      const expire = async (capped: boolean) => {
+        const message = capped
+          ? `Request exceeded maximum total timeout of ${maxTotalTimeout}ms`
+          : `Request timeout after ${timeout}ms`;
+        this.log("warn", `[req-${id}] ${message}: ${method}`);
+        this.circuitBreaker?.recordFailure(id);
+        this.sendCancellation(
+          id,
+          method,
+          capped ? message : `Request timed out after ${timeout}ms`
+        );
+        await this.handleTimeout(id, method);
+        detach();
+        reject(new Error(`${message}: ${method}`));
+      };
+
+      // Start the timer, never running past the absolute maximum
+      const armTimeout = (): NodeJS.Timeout => {
+        const remaining =
+          maxTotalTimeout !== undefined
+            ? maxTotalTimeout - (Date.now() - startTime)
+            : Infinity;
+        const capped = remaining <= timeout;
+        return setTimeout(
+          () => expire(capped),
+          Math.max(0, capped ? remaining : timeout)
+        );
+      };
+
+      // Store pending request
+      const pendingRequest: PendingRequest = {
+        id,
+        method,
+        params: requestParams,
+        resolve: (value) => {
+          detach();
+          resolve(value);
+        },
+        reject: (error) => {
+          detach();
+          reject(error);
+        },
+        timeoutHandle: armTimeout(),
+        startTime,
+        onProgress: options.onProgress,
+        timeoutMs: effective.timeoutMs,
+        timeoutSource: effective.source,
+      };
+
+      if (options.resetTimeoutOnProgress) {
+        pendingRequest.resetTimeout = () => {
+          clearTimeout(pendingRequest.timeoutHandle);
+          pendingRequest.timeoutHandle = armTimeout();
+        };
+      }
+
+      this.pendingRequests.set(id, pendingRequest);
+    });
+
+    // The server is busy until the last pending request settles
+    this.cancelIdleStop();
+    const settled = () => this.scheduleIdleStop();
+    response.then(settled, settled);
+
+    return {
+      request: { jsonrpc: "2.0", id, method, params: requestParams },
+      response,
+    };
+  }
+
+  /**
+   * Tool name of a tools/call request, if present
+   */
+  private getToolName(params: unknown): string | undefined {
+    const name =
+      params !== null && typeof params === "object"
+        ? (params as { name?: unknown }).name
+        : undefined;
+    return typeof name === "string" ? name : undefined;
+  }
+
+  /**
+   * Add entries to the request's _meta
+   */
+  private withMeta(params: unknown, entries: Record<string, unknown>): unknown {
+    const base =
+      params !== null && typeof params === "object"
+        ? (params as Record<string, unknown>)
+        : {};
+    const meta =
+      base._meta !== null && typeof base._meta === "object"
+        ? (base._meta as Record<string, unknown>)
+        : {};
+    return { ...base, _meta: { ...meta, ...entries } };
+  }
+
+  /**
+   * Check tool arguments or a structured result against a tool schema,
+   * logging or throwing according to the toolValidation mode
+   */
+  private validateTool(
+    name: string,
+    target: "arguments" | "result",
+    schema: unknown,
+    value: unknown
+  ): void {
+    const mode = this.config.toolValidation.mode;
+    if (mode === "off") {
+      return;
+    }
+
+    const violations = validateJsonSchema(schema, value);
+    if (violations.length === 0) {
+      return;
+    }
+
+    const error = new ToolValidationError(name, target, violations);
+    if (mode === "enforce") {
+      this.log("error", error.message);
+      throw error;
+    }
+    this.log("warn", error.message);
+  }
+
+  /**
+   * Refresh a catalog list in the background after the server reported
+   * a change, if the server offers that capability
+   */
+  private invalidateCatalog(kind: CatalogKind): void {
+    if (this.getServerCapabilities()?.[kind] !== undefined) {
+      this.log("debug", `Server changed its ${kind} list; refreshing catalog`);
+      this.catalogCache.invalidate(kind);
+    }
+  }
+
+  /**
+   * Request every page of a paginated list method
+   * @param method List method (e.g. "tools/list")
+   * @param key Result property holding the items
+   * @param options Request options applied to every page
+   * @returns Items from all pages
+   */
+  private async listAll<T>(
+    method: string,
+    key: string,
+    options?: RequestOptions
+  ): Promise<T[]> {
+    const items: T[] = [];
+    const seenCursors = new Set<string>();
+    let cursor: string | undefined;
+
+    do {
+      const result = (await this.sendRequest(
+        method,
+        cursor !== undefined ? { cursor } : {},
+        options
+      )) as Record<string, unknown> | undefined;
+
+      const page = result?.[key];
+      if (Array.isArray(page)) {
+        items.push(...(page as T[]));
+      }
+
+      cursor =
+        typeof result?.nextCursor === "string" ? result.nextCursor : undefined;
+      if (cursor !== undefined && seenCursors.has(cursor)) {
+        this.log(
+          "warn",
+          `Server repeated pagination cursor for ${method}; stopping`
+        );
+        break;
+      }
+      if (cursor !== undefined) {
+        seenCursors.add(cursor);
+      }
+    } while (cursor !== undefined);
+
+    return items;
+  }
+
+  /**
+   * Import latency statistics from the store, if any
+   */
+  private async loadLatencyStats(): Promise<void> {
+    const store = this.getLatencyStore();
+    if (!store) {
+      return;
+    }
+    try {
+      const snapshot = await store.load();
+      if (snapshot) {
+        this.timeoutManager.importLatencyStats(snapshot);
+      }
+    } catch (error) {
+      this.log(
+        "warn",
+        `Failed to load latency statistics: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Save latency statistics to the store, waiting at most
+   * LATENCY_SAVE_TIMEOUT_MS so a slow store cannot hold up stopping.
+   * Failures are logged, never thrown.
+   */
+  private async saveLatencyStats(): Promise<void> {
+    const store = this.getLatencyStore();
+    if (!store) {
+      return;
+    }
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<"timeout">((resolve) => {
+      timer = setTimeout(() => resolve("timeout"), LATENCY_SAVE_TIMEOUT_MS);
+    });
+    try {
+      const outcome = await Promise.race([
+        Promise.resolve(store.save(this.timeoutManager.exportLatencyStats())),
+        timedOut,
+      ]);
+      if (outcome === "timeout") {
+        this.log(
+          "warn",
+          `Latency statistics not saved within ${LATENCY_SAVE_TIMEOUT_MS}ms; continuing without waiting`
+        );
+      }
+    } catch (error) {
+      this.log(
+        "warn",
+        `Failed to save latency statistics: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Tell the server to stop working on a request we no longer wait for.
+   * The initialize request is never cancelled.
+   */
+  private sendCancellation(id: number, method: string, reason: string): void {
+    if (method === "initialize" || !this.transport) {
+      return;
+    }
+    this.sendNotification("notifications/cancelled", {
+      requestId: id,
+      reason,
+    }).catch((error) => {
+      this.log(
+        "debug",
+        `[req-${id}] Failed to send cancellation: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    });
+  }
+
+  /**
+   * Create the error a request refused by the open circuit is rejected with
+   */
+  private createCircuitOpenError(method: string): CircuitOpenError {
+    const retryAfterMs = this.circuitBreaker?.getRetryAfterMs() ?? 0;
+    this.log(
+      "debug",
+      `Circuit breaker is open; refusing ${method} (retry in ${retryAfterMs}ms)`
+    );
+    return new CircuitOpenError(method, retryAfterMs);
+  }
+
+  /**
+   * Create the error a cancelled request is rejected with
+   */
+  private createCancellationError(method: string): Error {
+    const error = new Error(`Request cancelled: ${method}`);
+    error.name = "AbortError";
+    return error;
+  }
+
+  /**
+   * Reject a pending request whose message could not be sent
+   */
+  private failPendingRequest(id: number, error: unknown): void {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.timeoutHandle);
+    this.pendingRequests.delete(id);
+    this.circuitBreaker?.recordFailure(id);
+    pending.reject(error instanceof Error ? error : new Error(String(error)));
+  }
+
   /**
    * Clear all pending requests with error
    */
   protected clearPendingRequests(): void {
-    for (const pending of this.pendingRequests.values()) {
+    for (const [id, pending] of this.pendingRequests) {
       clearTimeout(pending.timeoutHandle);
+      // No outcome from the server; a half-open circuit may probe again
+      this.circuitBreaker?.releaseProbe(id);
       pending.reject(new Error("Connection closed"));
     }
     this.pendingRequests.clear();
@@ -574,7 +2150,13 @@ export abstract class BaseMCPClient {
    */
   protected logCommunication(
     type: "request" | "response" | "notification",
-    data: { method?: string; id?: number; error?: unknown; result?: unknown }
+    data: {
+      method?: string;
+      id?: JSONRPCId;
+      error?: unknown;
+      result?: unknown;
+      inbound?: boolean;
+    }
   ): void {
     if (!this.config.logging.logCommunication) {
       return;
@@ -592,6 +2174,7 @@ export abstract class BaseMCPClient {
           : data.error instanceof Error
           ? data.error.message
           : undefined,
+      ...(data.inbound ? { inbound: true } : {}),
     };
 
     this.recentCommunication.push(entry);
@@ -648,117 +2231,172 @@ export abstract class BaseMCPClient {
   // ========== Private Methods ==========
 
   /**
-   * Spawn the server process
+   * Create and start the transport, wiring its events to the client
    */
-  private async spawnServerProcess(): Promise<void> {
-    const { command, args } = this.getServerCommand();
-    const env = this.getServerEnv();
+  private async connectTransport(): Promise<void> {
+    const transport = this.createTransport();
+    this.transport = transport;
 
-    this.log("info", `Spawning server: ${command} ${args.join(" ")}`);
+    this.transportListeners.push(
+      transport.onMessage((message) => {
+        if (this.isStopping) return;
+        this.handleMessage(message);
+      }),
+      transport.onClose((info) => {
+        this.handleTransportClose(info);
+      }),
+      transport.onError((error) => {
+        this.handleServerError(error);
+      })
+    );
 
-    try {
-      this.serverProcess = spawn(command, args, {
-        env,
-        stdio: ["pipe", "pipe", "pipe"],
-      });
+    if (transport.onParseError) {
+      this.transportListeners.push(
+        transport.onParseError((raw) => {
+          if (this.isStopping) return;
+          this.log("error", `Failed to parse message: ${raw}`);
+        })
+      );
+    }
 
-      this.stateManager.setServerProcessRunning(true);
+    if (transport instanceof StdioTransport) {
+      // Keep only the output of this run, for crash reports
+      this.serverStderr = "";
+      this.transportListeners.push(
+        transport.onStderr((text) => {
+          if (this.isStopping) return;
+          this.serverStderr += text;
+
+          // Detect npx download activity
+          if (
+            text.includes("npm notice") ||
+            text.includes("downloading") ||
+            text.includes("installed")
+          ) {
+            this.log("info", `Server setup: ${text.trim()}`);
+          } else {
+            this.log("warn", `Server stderr: ${text}`);
+          }
+        })
+      );
 
-      // Setup event handlers
-      this.serverProcess.on("exit", (code, signal) => {
-        this.handleServerExit(code, signal);
-      });
+      const { command, args } = transport.getCommand();
+      this.log("info", `Spawning server: ${command} ${args.join(" ")}`);
+    } else {
+      this.log("info", `Connecting via ${transport.getInfo().type} transport`);
+    }
 
-      this.serverProcess.on("error", (error) => {
-        this.handleServerError(error);
-      });
+    try {
+      await transport.start();
+    } catch (error) {
+      this.disposeTransportListeners();
+      this.transport = undefined;
 
-      // Capture stderr
-      this.serverProcess.stderr?.on("data", (data) => {
-        if (this.isStopping) return;
-        const text = data.toString();
-        this.serverStderr += text;
-        
-        // Detect npx download activity
-        if (text.includes("npm notice") || text.includes("downloading") || text.includes("installed")) {
-          this.log("info", `Server setup: ${text.trim()}`);
-        } else {
-          this.log("warn", `Server stderr: ${text}`);
-        }
-      });
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      if (transport instanceof StdioTransport) {
+        this.log("error", `Failed to spawn server process: ${errorMessage}`);
+        throw new Error(`Failed to spawn server: ${errorMessage}`);
+      }
+      this.log("error", `Failed to connect to server: ${errorMessage}`);
+      throw new Error(`Failed to connect to server: ${errorMessage}`);
+    }
 
-      // Handle stdout (JSON-RPC messages)
-      let buffer = "";
-      this.serverProcess.stdout?.on("data", (data) => {
-        if (this.isStopping) return;
-        buffer += data.toString();
-
-        // Process complete JSON messages
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (line.trim()) {
-            try {
-              const message = JSON.parse(line);
-              this.handleMessage(message);
-            } catch {
-              this.log("error", `Failed to parse message: ${line}`);
-            }
-          }
-        }
-      });
+    this.stateManager.setServerProcessRunning(true);
+    this.serverStartedAt = Date.now();
+
+    if (transport instanceof StdioTransport) {
+      const pid = transport.getInfo().processId;
+      this.log("info", `Server process spawned with PID: ${pid}`);
+      if (pid !== undefined) {
+        this.resourceMonitor?.start(pid);
+      }
 
-      this.log(
-        "info",
-        `Server process spawned with PID: ${this.serverProcess.pid}`
-      );
-      
       // Helpful message for npx-based servers
-      if (command === "npx") {
+      if (transport.getCommand().command === "npx") {
         this.log(
           "info",
           `Note: First-time setup may take longer as npx downloads the package. Please wait...`
         );
       }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      this.log("error", `Failed to spawn server process: ${errorMessage}`);
-      throw new Error(`Failed to spawn server: ${errorMessage}`);
     }
   }
 
   /**
-   * Send initialization request
+   * Dispose the listeners registered on the current transport
    */
-  private async sendInitialize(): Promise<void> {
-    await this.sendRequest("initialize", {
-      protocolVersion: "2024-11-05",
-      capabilities: {},
-      clientInfo: {
-        name: this.extensionName,
-        version: "1.0.0",
-      },
+  private disposeTransportListeners(): void {
+    for (const listener of this.transportListeners) {
+      listener.dispose();
+    }
+    this.transportListeners = [];
+  }
+
+  /**
+   * Close the transport without reporting the close as a server exit
+   */
+  private async disconnectTransport(): Promise<void> {
+    if (!this.transport) {
+      return;
+    }
+    const transport = this.transport;
+    this.disposeTransportListeners();
+    this.transport = undefined;
+    this.resourceMonitor?.stop();
+    this.serverStartedAt = undefined;
+    await transport.close().catch(() => {
+      // Ignore close errors; the connection is being discarded
     });
   }
 
   /**
-   * Send data to server process
+   * Perform the initialize handshake: negotiate the protocol version,
+   * declare client capabilities, store the server's InitializeResult and
+   * send notifications/initialized
+   */
+  private async sendInitialize(): Promise<void> {
+    const result = (await this.sendRequest("initialize", {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: this.getClientCapabilities(),
+      clientInfo: this.getClientInfo(),
+    })) as Partial<InitializeResult> | undefined;
+
+    // The server answers with the requested version or one it prefers
+    const protocolVersion = result?.protocolVersion ?? LATEST_PROTOCOL_VERSION;
+    if (!isSupportedProtocolVersion(protocolVersion)) {
+      void this.disconnectTransport();
+      this.stateManager.setServerProcessRunning(false);
+      throw new Error(
+        `Server requires unsupported MCP protocol version ${protocolVersion} (supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(
+          ", "
+        )})`
+      );
+    }
+
+    this.initializeResult = {
+      protocolVersion,
+      capabilities: result?.capabilities ?? {},
+      serverInfo: result?.serverInfo ?? { name: "unknown", version: "unknown" },
+      instructions: result?.instructions,
+    };
+    this.transport?.setProtocolVersion?.(protocolVersion);
+
+    this.log(
+      "info",
+      `Connected to ${this.initializeResult.serverInfo.name} ${this.initializeResult.serverInfo.version} (protocol ${protocolVersion})`
+    );
+
+    await this.sendNotification("notifications/initialized", undefined);
+  }
+
+  /**
+   * Send data to the server through the transport
    */
-  private sendToServer(data: {
-    jsonrpc: string;
-    id?: number;
-    method?: string;
-    params?: unknown;
-    result?: unknown;
-    error?: unknown;
-  }): void {
-    if (!this.serverProcess || !this.serverProcess.stdin) {
+  private async sendToServer(data: JSONRPCMessage): Promise<void> {
+    if (!this.transport) {
       throw new Error("Server process not available");
     }
 
-    const message = JSON.stringify(data) + "\n";
-    this.serverProcess.stdin.write(message);
+    await this.transport.send(data);
   }
 }
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for CatalogCache
+ */
+
+import { CatalogCache, CatalogFetchers } from "./CatalogCache";
+import { CatalogChange } from "./types";
+
+/**
+ * Promise that the test resolves by hand
+ */
+function deferred<T>(): {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+} {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+function createFetchers(): CatalogFetchers & {
+  tools: jest.Mock<Promise<unknown[]>, []>;
+} {
+  return {
+    tools: jest.fn(async () => [{ name: "search" }]),
+    resources: jest.fn(async () => []),
+    prompts: jest.fn(async () => [{ name: "review" }]),
+  };
+}
+
+describe("CatalogCache", () => {
+  it("should start empty", () => {
+    const cache = new CatalogCache(createFetchers());
+
+    expect(cache.getCatalog()).toEqual({
+      tools: [],
+      resources: [],
+      prompts: [],
+    });
+  });
+
+  it("should fill the requested lists and notify listeners", async () => {
+    const fetchers = createFetchers();
+    const cache = new CatalogCache(fetchers);
+    const changes: CatalogChange[] = [];
+    cache.onChange((change) => changes.push(change));
+
+    await cache.refresh(["tools", "prompts"]);
+
+    expect(cache.getCatalog().tools).toEqual([{ name: "search" }]);
+    expect(cache.getCatalog().prompts).toEqual([{ name: "review" }]);
+    expect(fetchers.resources).not.toHaveBeenCalled();
+    expect(changes.map((change) => change.kind).sort()).toEqual([
+      "prompts",
+      "tools",
+    ]);
+  });
+
+  it("should not notify when a refresh returns the same list", async () => {
+    const cache = new CatalogCache(createFetchers());
+    await cache.refresh(["tools"]);
+    const listener = jest.fn();
+    cache.onChange(listener);
+
+    await cache.refresh(["tools"]);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should keep the previous list when a refresh fails", async () => {
+    const fetchers = createFetchers();
+    const onError = jest.fn();
+    const cache = new CatalogCache(fetchers, onError);
+    await cache.refresh(["tools"]);
+
+    const error = new Error("Request timeout");
+    fetchers.tools.mockRejectedValueOnce(error);
+    await cache.refresh(["tools"]);
+
+    expect(onError).toHaveBeenCalledWith("tools", error);
+    expect(cache.getCatalog().tools).toEqual([{ name: "search" }]);
+  });
+
+  it("should join a refresh that is already running", async () => {
+    const fetchers = createFetchers();
+    const pending = deferred<unknown[]>();
+    fetchers.tools.mockReturnValueOnce(pending.promise);
+    const cache = new CatalogCache(fetchers);
+
+    const first = cache.refresh(["tools"]);
+    expect(cache.isRefreshing("tools")).toBe(true);
+    const second = cache.refresh(["tools"]);
+    pending.resolve([{ name: "stale" }]);
+    await Promise.all([first, second]);
+
+    // The second call arrived mid-fetch, so the list is fetched again
+    expect(fetchers.tools).toHaveBeenCalledTimes(2);
+    expect(cache.getCatalog().tools).toEqual([{ name: "search" }]);
+    expect(cache.isRefreshing()).toBe(false);
+  });
+
+  it("should refresh in the background when invalidated", async () => {
+    const fetchers = createFetchers();
+    const cache = new CatalogCache(fetchers);
+    const changed = new Promise<CatalogChange>((resolve) =>
+      cache.onChange(resolve)
+    );
+
+    cache.invalidate("prompts");
+
+    expect((await changed).catalog.prompts).toEqual([{ name: "review" }]);
+  });
+
+  it("should empty cleared lists", async () => {
+    const cache = new CatalogCache(createFetchers());
+    await cache.refresh(["tools"]);
+    const listener = jest.fn();
+    cache.onChange(listener);
+
+    cache.clear(["tools", "resources"]);
+
+    expect(cache.getCatalog().tools).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "tools" })
+    );
+  });
+
+  it("should stop notifying disposed listeners", async () => {
+    const cache = new CatalogCache(createFetchers());
+    const listener = jest.fn();
+    cache.onChange(listener).dispose();
+
+    await cache.refresh(["tools"]);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
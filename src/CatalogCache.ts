@@ -0,0 +1,145 @@
+/**
+ * CatalogCache - Caches the tools, resources and prompts offered by a server
+ *
+ * Keeps the last fetched lists so extensions do not each call tools/list,
+ * refreshes a list in the background when it is invalidated, and notifies
+ * subscribers when a list changes. A failed refresh keeps the previous list.
+ */
+
+import { Catalog, CatalogChange, CatalogKind } from "./types";
+
+/**
+ * Disposable interface for cleanup
+ */
+interface Disposable {
+  dispose(): void;
+}
+
+/**
+ * Functions that fetch each list from the server
+ */
+export type CatalogFetchers = Record<CatalogKind, () => Promise<unknown[]>>;
+
+/**
+ * CatalogCache
+ */
+export class CatalogCache {
+  private catalog: Catalog = { tools: [], resources: [], prompts: [] };
+  private listeners: Set<(change: CatalogChange) => void> = new Set();
+  private refreshing: Map<CatalogKind, Promise<void>> = new Map();
+  private invalidated: Set<CatalogKind> = new Set();
+
+  /**
+   * @param fetchers Fetch each list from the server
+   * @param onError Called when a refresh fails; the previous list is kept
+   */
+  constructor(
+    private readonly fetchers: CatalogFetchers,
+    private readonly onError?: (kind: CatalogKind, error: unknown) => void
+  ) {}
+
+  /**
+   * Get the cached catalog
+   */
+  getCatalog(): Catalog {
+    return { ...this.catalog };
+  }
+
+  /**
+   * Check whether a refresh is in progress
+   * @param kind List to check; any list when omitted
+   */
+  isRefreshing(kind?: CatalogKind): boolean {
+    return kind ? this.refreshing.has(kind) : this.refreshing.size > 0;
+  }
+
+  /**
+   * Fetch lists from the server and replace the cached ones.
+   * A list that is invalidated while it is being fetched is fetched again.
+   * @param kinds Lists to refresh
+   */
+  async refresh(kinds: CatalogKind[]): Promise<void> {
+    await Promise.all(kinds.map((kind) => this.refreshKind(kind)));
+  }
+
+  /**
+   * Mark a list as out of date and refresh it in the background
+   * @param kind List to invalidate
+   */
+  invalidate(kind: CatalogKind): void {
+    void this.refreshKind(kind);
+  }
+
+  /**
+   * Empty lists, e.g. for capabilities the server no longer offers
+   * @param kinds Lists to empty
+   */
+  clear(kinds: CatalogKind[]): void {
+    for (const kind of kinds) {
+      this.update(kind, []);
+    }
+  }
+
+  /**
+   * Subscribe to catalog changes
+   * @param listener Called with the changed list and the whole catalog
+   * @returns Disposable to unsubscribe
+   */
+  onChange(listener: (change: CatalogChange) => void): Disposable {
+    this.listeners.add(listener);
+    return {
+      dispose: () => {
+        this.listeners.delete(listener);
+      },
+    };
+  }
+
+  /**
+   * Refresh one list, joining a refresh already in progress
+   */
+  private refreshKind(kind: CatalogKind): Promise<void> {
+    const running = this.refreshing.get(kind);
+    if (running) {
+      this.invalidated.add(kind);
+      return running;
+    }
+
+    const refresh = (async () => {
+      do {
+        this.invalidated.delete(kind);
+        try {
+          const items = await this.fetchers[kind]();
+          if (!this.invalidated.has(kind)) {
+            this.update(kind, items);
+          }
+        } catch (error) {
+          this.onError?.(kind, error);
+        }
+      } while (this.invalidated.has(kind));
+    })().finally(() => {
+      this.refreshing.delete(kind);
+    });
+
+    this.refreshing.set(kind, refresh);
+    return refresh;
+  }
+
+  /**
+   * Replace a list and notify listeners if it changed
+   */
+  private update(kind: CatalogKind, items: unknown[]): void {
+    if (JSON.stringify(this.catalog[kind]) === JSON.stringify(items)) {
+      return;
+    }
+
+    this.catalog = { ...this.catalog, [kind]: items };
+    const change: CatalogChange = { kind, catalog: this.getCatalog() };
+    this.listeners.forEach((listener) => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error("Error in catalog listener:", error);
+      }
+    });
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Unit tests for CircuitBreaker
+ */
+
+import { CircuitBreaker } from "./CircuitBreaker";
+import { CircuitState } from "./types";
+
+const CONFIG = {
+  enabled: true,
+  failureThreshold: 3,
+  windowMs: 10000,
+  coolDownMs: 5000,
+};
+
+const PROBE_ID = 10;
+
+describe("CircuitBreaker", () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    breaker = new CircuitBreaker(CONFIG);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function fail(times: number): void {
+    for (let i = 0; i < times; i++) {
+      breaker.recordFailure(i + 1);
+    }
+  }
+
+  it("should start closed and allow requests", () => {
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+    expect(breaker.allowRequest(PROBE_ID)).toBe(true);
+    expect(breaker.getStatus()).toEqual({
+      state: CircuitState.CLOSED,
+      failureCount: 0,
+    });
+  });
+
+  it("should open after the failure threshold is reached", () => {
+    fail(2);
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+
+    fail(1);
+    expect(breaker.getState()).toBe(CircuitState.OPEN);
+    expect(breaker.allowRequest(PROBE_ID)).toBe(false);
+    expect(breaker.getRetryAfterMs()).toBe(5000);
+    expect(breaker.getStatus()).toEqual({
+      state: CircuitState.OPEN,
+      failureCount: 3,
+      openedAt: Date.now(),
+      retryAt: Date.now() + 5000,
+    });
+  });
+
+  it("should only count failures inside the window", () => {
+    fail(2);
+    jest.advanceTimersByTime(10000);
+    fail(1);
+
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+    expect(breaker.getStatus().failureCount).toBe(1);
+  });
+
+  it("should allow a single probe after the cool-down", () => {
+    fail(3);
+    jest.advanceTimersByTime(4999);
+    expect(breaker.allowRequest(PROBE_ID)).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(breaker.allowRequest(PROBE_ID)).toBe(true);
+    expect(breaker.getState()).toBe(CircuitState.HALF_OPEN);
+    expect(breaker.allowRequest(PROBE_ID)).toBe(false);
+  });
+
+  it("should close when the probe succeeds", () => {
+    fail(3);
+    jest.advanceTimersByTime(5000);
+    breaker.allowRequest(PROBE_ID);
+
+    breaker.recordSuccess(PROBE_ID);
+
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+    expect(breaker.getStatus().failureCount).toBe(0);
+    expect(breaker.allowRequest(PROBE_ID)).toBe(true);
+  });
+
+  it("should open again when the probe fails", () => {
+    fail(3);
+    jest.advanceTimersByTime(5000);
+    breaker.allowRequest(PROBE_ID);
+
+    breaker.recordFailure(PROBE_ID);
+
+    expect(breaker.getState()).toBe(CircuitState.OPEN);
+    expect(breaker.getRetryAfterMs()).toBe(5000);
+  });
+
+  it("should let another probe through when one is released", () => {
+    fail(3);
+    jest.advanceTimersByTime(5000);
+    breaker.allowRequest(PROBE_ID);
+
+    breaker.releaseProbe(PROBE_ID);
+
+    expect(breaker.getState()).toBe(CircuitState.HALF_OPEN);
+    expect(breaker.allowRequest(PROBE_ID)).toBe(true);
+  });
+
+  it("should ignore the outcome of requests other than the probe", () => {
+    fail(3);
+    jest.advanceTimersByTime(5000);
+    breaker.allowRequest(PROBE_ID);
+
+    breaker.recordSuccess(1);
+    breaker.recordFailure(2);
+    breaker.releaseProbe(3);
+
+    expect(breaker.getState()).toBe(CircuitState.HALF_OPEN);
+    expect(breaker.allowRequest(PROBE_ID + 1)).toBe(false);
+  });
+
+  it("should notify listeners of state changes until disposed", () => {
+    const listener = jest.fn();
+    const subscription = breaker.onStateChange(listener);
+
+    fail(3);
+    jest.advanceTimersByTime(5000);
+    breaker.allowRequest(PROBE_ID);
+    subscription.dispose();
+    breaker.recordSuccess(PROBE_ID);
+
+    expect(listener.mock.calls.map(([status]) => status.state)).toEqual([
+      CircuitState.OPEN,
+      CircuitState.HALF_OPEN,
+    ]);
+  });
+
+  it("should keep working when a listener throws", () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation();
+    breaker.onStateChange(() => {
+      throw new Error("listener failed");
+    });
+
+    fail(3);
+
+    expect(breaker.getState()).toBe(CircuitState.OPEN);
+    expect(consoleError).toHaveBeenCalledWith(
+      "Error in circuit breaker listener:",
+      expect.any(Error)
+    );
+    consoleError.mockRestore();
+  });
+
+  it("should close and forget failures on reset", () => {
+    fail(3);
+
+    breaker.reset();
+
+    expect(breaker.getStatus()).toEqual({
+      state: CircuitState.CLOSED,
+      failureCount: 0,
+    });
+  });
+
+  it("should reject settings that are not positive integers", () => {
+    expect(
+      () =>
+        new CircuitBreaker({ ...CONFIG, failureThreshold: 0, windowMs: 1.5 })
+    ).toThrow(
+      "Invalid circuit breaker configuration: failureThreshold must be a positive integer, windowMs must be a positive integer"
+    );
+  });
+});
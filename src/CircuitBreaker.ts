@@ -0,0 +1,215 @@
+/**
+ * CircuitBreaker - Fails requests fast while a server keeps failing
+ *
+ * Counts failures (timeouts and send errors) in a sliding window. Once
+ * failureThreshold is reached the circuit opens and requests are refused
+ * without being sent. After coolDownMs one probe request is let through
+ * (half-open): if it succeeds the circuit closes, otherwise it opens again.
+ * Requests are identified by their JSON-RPC ID, so only the outcome of the
+ * probe itself moves a half-open circuit.
+ */
+
+import {
+  CircuitBreakerConfig,
+  CircuitBreakerStatus,
+  CircuitState,
+} from "./types";
+
+/**
+ * Disposable interface for cleanup
+ */
+interface Disposable {
+  dispose(): void;
+}
+
+/**
+ * CircuitBreaker
+ */
+export class CircuitBreaker {
+  private state: CircuitState = CircuitState.CLOSED;
+  private failures: number[] = [];
+  private openedAt?: number;
+  /** Request ID of the probe sent while half-open */
+  private probeId?: number;
+  private listeners: Set<(status: CircuitBreakerStatus) => void> = new Set();
+
+  /**
+   * @param config Threshold, window and cool-down
+   * @throws Error if a setting is not a positive integer
+   */
+  constructor(private readonly config: CircuitBreakerConfig) {
+    const errors = (["failureThreshold", "windowMs", "coolDownMs"] as const)
+      .filter((key) => {
+        const value = config[key];
+        return (
+          typeof value !== "number" || !Number.isInteger(value) || value < 1
+        );
+      })
+      .map((key) => `${key} must be a positive integer`);
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid circuit breaker configuration: ${errors.join(", ")}`
+      );
+    }
+  }
+
+  /**
+   * Get the current state
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Get the state with failure count and timing, for status and diagnostics
+   */
+  getStatus(): CircuitBreakerStatus {
+    this.pruneFailures(Date.now());
+    return {
+      state: this.state,
+      failureCount: this.failures.length,
+      ...(this.openedAt !== undefined ? { openedAt: this.openedAt } : {}),
+      ...(this.state === CircuitState.OPEN
+        ? { retryAt: this.getRetryAt() }
+        : {}),
+    };
+  }
+
+  /**
+   * Check whether a request may be sent. When the cool-down has ended this
+   * moves the circuit to half-open and lets the caller's request through as
+   * the probe; further requests are refused until the probe completes.
+   * @param requestId ID of the request about to be sent
+   * @returns true if the request may be sent
+   */
+  allowRequest(requestId: number): boolean {
+    switch (this.state) {
+      case CircuitState.CLOSED:
+        return true;
+      case CircuitState.OPEN:
+        if (Date.now() < this.getRetryAt()) {
+          return false;
+        }
+        this.probeId = requestId;
+        this.setState(CircuitState.HALF_OPEN);
+        return true;
+      case CircuitState.HALF_OPEN:
+        if (this.probeId !== undefined) {
+          return false;
+        }
+        this.probeId = requestId;
+        return true;
+    }
+  }
+
+  /**
+   * Time until a probe request will be allowed
+   * @returns Milliseconds, 0 unless the circuit is open
+   */
+  getRetryAfterMs(): number {
+    return this.state === CircuitState.OPEN
+      ? Math.max(0, this.getRetryAt() - Date.now())
+      : 0;
+  }
+
+  /**
+   * Record that the server answered a request. Closes a half-open circuit
+   * when the request was the probe.
+   * @param requestId ID of the answered request
+   */
+  recordSuccess(requestId: number): void {
+    if (this.state === CircuitState.HALF_OPEN && requestId === this.probeId) {
+      this.probeId = undefined;
+      this.failures = [];
+      this.setState(CircuitState.CLOSED);
+    }
+  }
+
+  /**
+   * Record a failed or timed out request. Opens the circuit when the
+   * threshold is reached, or again if the probe failed.
+   * @param requestId ID of the failed request
+   */
+  recordFailure(requestId: number): void {
+    const now = Date.now();
+
+    if (this.state === CircuitState.HALF_OPEN) {
+      if (requestId === this.probeId) {
+        this.probeId = undefined;
+        this.open(now);
+      }
+    } else if (this.state === CircuitState.CLOSED) {
+      this.failures.push(now);
+      this.pruneFailures(now);
+      if (this.failures.length >= this.config.failureThreshold) {
+        this.open(now);
+      }
+    }
+  }
+
+  /**
+   * Record that a request ended without an outcome (e.g. it was cancelled or
+   * the connection closed). If it was the probe, a half-open circuit can
+   * send another one.
+   * @param requestId ID of the request
+   */
+  releaseProbe(requestId: number): void {
+    if (requestId === this.probeId) {
+      this.probeId = undefined;
+    }
+  }
+
+  /**
+   * Close the circuit and forget all failures
+   */
+  reset(): void {
+    this.failures = [];
+    this.probeId = undefined;
+    this.openedAt = undefined;
+    this.setState(CircuitState.CLOSED);
+  }
+
+  /**
+   * Subscribe to state changes
+   * @param listener Called with the new status on each change
+   * @returns Disposable to unregister the listener
+   */
+  onStateChange(listener: (status: CircuitBreakerStatus) => void): Disposable {
+    this.listeners.add(listener);
+    return {
+      dispose: () => {
+        this.listeners.delete(listener);
+      },
+    };
+  }
+
+  private open(now: number): void {
+    this.openedAt = now;
+    this.setState(CircuitState.OPEN);
+  }
+
+  private getRetryAt(): number {
+    return (this.openedAt ?? 0) + this.config.coolDownMs;
+  }
+
+  private pruneFailures(now: number): void {
+    const windowStart = now - this.config.windowMs;
+    this.failures = this.failures.filter((time) => time > windowStart);
+  }
+
+  private setState(state: CircuitState): void {
+    if (this.state === state) {
+      return;
+    }
+    this.state = state;
+
+    const status = this.getStatus();
+    for (const listener of this.listeners) {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error("Error in circuit breaker listener:", error);
+      }
+    }
+  }
+}
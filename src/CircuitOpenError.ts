@@ -0,0 +1,24 @@
+/**
+ * CircuitOpenError - A request refused because the circuit breaker is open
+ */
+
+/**
+ * Error raised instead of sending a request while the circuit breaker is
+ * open, i.e. the server recently failed or timed out too often. Requests
+ * are allowed again after the cool-down.
+ */
+export class CircuitOpenError extends Error {
+  /** Method of the refused request */
+  readonly method: string;
+  /** Time until a probe request is allowed, in milliseconds */
+  readonly retryAfterMs: number;
+
+  constructor(method: string, retryAfterMs: number) {
+    super(
+      `Circuit breaker is open; not sending ${method} (retry in ${retryAfterMs}ms)`
+    );
+    this.name = "CircuitOpenError";
+    this.method = method;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
@@ -17,7 +17,9 @@ const connectionStateArbitrary = fc.constantFrom(
   ConnectionState.CONNECTING,
   ConnectionState.CONNECTED,
   ConnectionState.TIMEOUT_RETRYING,
-  ConnectionState.ERROR
+  ConnectionState.ERROR,
+  ConnectionState.CRASH_LOOP,
+  ConnectionState.IDLE_STOPPED
 );
 
 /**
@@ -27,6 +29,7 @@ const VALID_TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
   [ConnectionState.DISCONNECTED]: [
     ConnectionState.CONNECTING,
     ConnectionState.ERROR,
+    ConnectionState.CRASH_LOOP,
   ],
   [ConnectionState.CONNECTING]: [
     ConnectionState.CONNECTED,
@@ -37,6 +40,7 @@ const VALID_TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
     ConnectionState.TIMEOUT_RETRYING,
     ConnectionState.DISCONNECTED,
     ConnectionState.ERROR,
+    ConnectionState.IDLE_STOPPED,
   ],
   [ConnectionState.TIMEOUT_RETRYING]: [
     ConnectionState.CONNECTED,
@@ -47,6 +51,14 @@ const VALID_TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
     ConnectionState.CONNECTING,
     ConnectionState.DISCONNECTED,
   ],
+  [ConnectionState.CRASH_LOOP]: [
+    ConnectionState.CONNECTING,
+    ConnectionState.DISCONNECTED,
+  ],
+  [ConnectionState.IDLE_STOPPED]: [
+    ConnectionState.CONNECTING,
+    ConnectionState.DISCONNECTED,
+  ],
 };
 
 /**
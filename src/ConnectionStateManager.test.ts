@@ -126,6 +126,34 @@ describe("ConnectionStateManager", () => {
       expect(manager.getStatus().state).toBe(ConnectionState.DISCONNECTED);
     });
 
+    it("should only leave CRASH_LOOP by starting or stopping", () => {
+      const manager = new ConnectionStateManager();
+      manager.setState(ConnectionState.CRASH_LOOP);
+
+      expect(manager.getStatus().message).toBe("Server is crashing repeatedly");
+      expect(() => {
+        manager.setState(ConnectionState.CONNECTED);
+      }).toThrow(/Invalid state transition/);
+      expect(() => {
+        manager.setState(ConnectionState.CONNECTING);
+      }).not.toThrow();
+    });
+
+    it("should only leave IDLE_STOPPED by starting or stopping", () => {
+      const manager = new ConnectionStateManager();
+      manager.setState(ConnectionState.CONNECTING);
+      manager.setState(ConnectionState.CONNECTED);
+      manager.setState(ConnectionState.IDLE_STOPPED);
+
+      expect(manager.getStatus().message).toBe("Server stopped while idle");
+      expect(() => {
+        manager.setState(ConnectionState.CONNECTED);
+      }).toThrow(/Invalid state transition/);
+      expect(() => {
+        manager.setState(ConnectionState.CONNECTING);
+      }).not.toThrow();
+    });
+
     it("should allow staying in the same state", () => {
       const manager = new ConnectionStateManager();
 
@@ -22,6 +22,7 @@ const VALID_TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
   [ConnectionState.DISCONNECTED]: [
     ConnectionState.CONNECTING,
     ConnectionState.ERROR,
+    ConnectionState.CRASH_LOOP,
   ],
   [ConnectionState.CONNECTING]: [
     ConnectionState.CONNECTED,
@@ -32,6 +33,7 @@ const VALID_TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
     ConnectionState.TIMEOUT_RETRYING,
     ConnectionState.DISCONNECTED,
     ConnectionState.ERROR,
+    ConnectionState.IDLE_STOPPED,
   ],
   [ConnectionState.TIMEOUT_RETRYING]: [
     ConnectionState.CONNECTED,
@@ -42,6 +44,14 @@ const VALID_TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
     ConnectionState.CONNECTING,
     ConnectionState.DISCONNECTED,
   ],
+  [ConnectionState.CRASH_LOOP]: [
+    ConnectionState.CONNECTING,
+    ConnectionState.DISCONNECTED,
+  ],
+  [ConnectionState.IDLE_STOPPED]: [
+    ConnectionState.CONNECTING,
+    ConnectionState.DISCONNECTED,
+  ],
 };
 
 /**
@@ -201,6 +211,10 @@ export class ConnectionStateManager {
         return "Connection timeout, retrying";
       case ConnectionState.ERROR:
         return "Connection error";
+      case ConnectionState.CRASH_LOOP:
+        return "Server is crashing repeatedly";
+      case ConnectionState.IDLE_STOPPED:
+        return "Server stopped while idle";
       default:
         return "Unknown state";
     }
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for Deadline
+ */
+
+import { Deadline, withDeadline } from "./Deadline";
+import { DeadlineExceededError } from "./DeadlineExceededError";
+
+describe("Deadline", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should count down the remaining budget", () => {
+    const deadline = new Deadline(1000);
+
+    expect(deadline.remainingMs()).toBe(1000);
+    expect(deadline.expired).toBe(false);
+
+    jest.advanceTimersByTime(400);
+    expect(deadline.remainingMs()).toBe(600);
+
+    jest.advanceTimersByTime(600);
+    expect(deadline.remainingMs()).toBe(0);
+    expect(deadline.expired).toBe(true);
+  });
+
+  it("should abort its signal when the budget runs out", () => {
+    const deadline = new Deadline(500);
+    const onAbort = jest.fn();
+    deadline.signal.addEventListener("abort", onAbort);
+
+    jest.advanceTimersByTime(499);
+    expect(onAbort).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(onAbort).toHaveBeenCalledTimes(1);
+    expect(deadline.signal.aborted).toBe(true);
+  });
+
+  it("should not abort after being disposed", () => {
+    const deadline = new Deadline(500);
+    deadline.dispose();
+
+    jest.advanceTimersByTime(1000);
+
+    expect(deadline.signal.aborted).toBe(false);
+  });
+
+  it("should reject invalid budgets", () => {
+    expect(() => new Deadline(-1)).toThrow(
+      "Deadline budget must be a non-negative number"
+    );
+    expect(() => new Deadline(NaN)).toThrow(
+      "Deadline budget must be a non-negative number"
+    );
+  });
+
+  it("should create errors naming the budget and method", () => {
+    const error = new Deadline(2000).createError("tools/call");
+
+    expect(error).toBeInstanceOf(DeadlineExceededError);
+    expect(error.message).toBe("Deadline of 2000ms exceeded: tools/call");
+    expect(error).toMatchObject({ budgetMs: 2000, method: "tools/call" });
+  });
+
+  describe("withDeadline", () => {
+    it("should pass a deadline and dispose it when the operation ends", async () => {
+      let seen: Deadline | undefined;
+
+      const result = await withDeadline(1000, async (deadline) => {
+        seen = deadline;
+        return "done";
+      });
+      jest.advanceTimersByTime(2000);
+
+      expect(result).toBe("done");
+      expect(seen?.budgetMs).toBe(1000);
+      expect(seen?.signal.aborted).toBe(false);
+    });
+
+    it("should dispose the deadline when the operation fails", async () => {
+      let seen: Deadline | undefined;
+
+      await expect(
+        withDeadline(1000, async (deadline) => {
+          seen = deadline;
+          throw new Error("boom");
+        })
+      ).rejects.toThrow("boom");
+      jest.advanceTimersByTime(2000);
+
+      expect(seen?.signal.aborted).toBe(false);
+    });
+  });
+});
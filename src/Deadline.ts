@@ -0,0 +1,100 @@
+/**
+ * Deadline - Overall time budget shared by several requests
+ *
+ * A user action often chains several calls (list, read, call). Passing the
+ * same Deadline to each of them in RequestOptions caps the action as a
+ * whole: every request gets the smaller of its own timeout and the budget
+ * left, requests still outstanding when the budget runs out are cancelled,
+ * and the server is told how much time remains via _meta.deadlineMs.
+ */
+
+import { DeadlineExceededError } from "./DeadlineExceededError";
+
+/**
+ * Deadline
+ */
+export class Deadline {
+  /** Total budget, in milliseconds */
+  readonly budgetMs: number;
+  /** Time at which the budget runs out (ms since the epoch) */
+  readonly expiresAt: number;
+  private readonly controller = new AbortController();
+  private readonly timer: NodeJS.Timeout;
+
+  /**
+   * @param budgetMs Time allowed from now, in milliseconds
+   * @throws Error if the budget is not a non-negative number
+   */
+  constructor(budgetMs: number) {
+    if (typeof budgetMs !== "number" || !(budgetMs >= 0)) {
+      throw new Error("Deadline budget must be a non-negative number");
+    }
+    this.budgetMs = budgetMs;
+    this.expiresAt = Date.now() + budgetMs;
+
+    // Do not keep the process alive just for the deadline
+    this.timer = setTimeout(() => this.controller.abort(), budgetMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Aborted when the budget runs out; pass it to work other than requests
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Whether the budget has run out
+   */
+  get expired(): boolean {
+    return this.controller.signal.aborted || this.remainingMs() === 0;
+  }
+
+  /**
+   * Time left before the budget runs out, in milliseconds
+   */
+  remainingMs(): number {
+    return Math.max(0, this.expiresAt - Date.now());
+  }
+
+  /**
+   * Create the error for a request cut off by this deadline
+   * @param method Request method
+   */
+  createError(method?: string): DeadlineExceededError {
+    return new DeadlineExceededError(this.budgetMs, method);
+  }
+
+  /**
+   * Stop the deadline timer without aborting. Called by withDeadline once
+   * the operation finishes.
+   */
+  dispose(): void {
+    clearTimeout(this.timer);
+  }
+}
+
+/**
+ * Run an operation under an overall time budget
+ * @param budgetMs Time allowed for the whole operation, in milliseconds
+ * @param fn Operation; pass the deadline to each request it sends
+ * @returns Result of the operation
+ *
+ * @example
+ * const result = await withDeadline(10000, async (deadline) => {
+ *   const tools = await client.listTools({ deadline });
+ *   return client.readResource(uri, { deadline });
+ * });
+ */
+export async function withDeadline<T>(
+  budgetMs: number,
+  fn: (deadline: Deadline) => Promise<T>
+): Promise<T> {
+  const deadline = new Deadline(budgetMs);
+  try {
+    return await fn(deadline);
+  } finally {
+    deadline.dispose();
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * DeadlineExceededError - An operation ran out of its overall time budget
+ */
+
+/**
+ * Error raised when a request cannot finish within the Deadline it was
+ * sent with, either because the budget was already used up before sending
+ * or because it ran out while the request was outstanding.
+ */
+export class DeadlineExceededError extends Error {
+  /** Total budget of the deadline, in milliseconds */
+  readonly budgetMs: number;
+  /** Method of the request that was cut off, if any */
+  readonly method?: string;
+
+  constructor(budgetMs: number, method?: string) {
+    super(`Deadline of ${budgetMs}ms exceeded${method ? `: ${method}` : ""}`);
+    this.name = "DeadlineExceededError";
+    this.budgetMs = budgetMs;
+    this.method = method;
+  }
+}
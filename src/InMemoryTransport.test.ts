@@ -0,0 +1,219 @@
+/**
+ * Unit tests for InMemoryTransport
+ */
+
+import { InMemoryTransport } from "./InMemoryTransport";
+import { BaseMCPClient } from "./BaseMCPClient";
+import { Transport } from "./Transport";
+import { ConnectionState, JSONRPCMessage, TransportCloseInfo } from "./types";
+
+/**
+ * Minimal server living on the other end of a linked pair
+ */
+class InProcessServer {
+  received: JSONRPCMessage[] = [];
+  closeInfo?: TransportCloseInfo;
+
+  constructor(readonly transport: InMemoryTransport) {
+    transport.onMessage((message) => this.handle(message));
+    transport.onClose((info) => {
+      this.closeInfo = info;
+    });
+  }
+
+  private handle(message: JSONRPCMessage): void {
+    this.received.push(message);
+    if (message.id === undefined) {
+      return;
+    }
+
+    switch (message.method) {
+      case "initialize":
+        this.reply(message, {
+          protocolVersion: "2024-11-05",
+          capabilities: { tools: {} },
+          serverInfo: { name: "in-process", version: "1.0.0" },
+        });
+        break;
+      case "tools/list":
+        this.reply(message, {
+          tools: [{ name: "echo", inputSchema: { type: "object" } }],
+        });
+        break;
+      case "tools/call": {
+        const params = message.params as {
+          name: string;
+          arguments: { text: string };
+        };
+        this.reply(message, {
+          content: [{ type: "text", text: params.arguments.text }],
+        });
+        break;
+      }
+      default:
+        this.transport.send({
+          jsonrpc: "2.0",
+          id: message.id,
+          error: { code: -32601, message: "Method not found" },
+        });
+    }
+  }
+
+  private reply(message: JSONRPCMessage, result: unknown): void {
+    this.transport.send({ jsonrpc: "2.0", id: message.id, result });
+  }
+}
+
+const mockOutputChannel = {
+  trace: jest.fn(),
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  append: jest.fn(),
+  appendLine: jest.fn(),
+  clear: jest.fn(),
+  show: jest.fn(),
+  hide: jest.fn(),
+  dispose: jest.fn(),
+};
+
+describe("InMemoryTransport", () => {
+  it("should deliver messages between the two ends", async () => {
+    const [client, server] = InMemoryTransport.createLinkedPair();
+    await client.start();
+    await server.start();
+
+    const received = new Promise<JSONRPCMessage>((resolve) =>
+      server.onMessage(resolve)
+    );
+    await client.send({ jsonrpc: "2.0", id: 1, method: "ping" });
+
+    expect(await received).toEqual({ jsonrpc: "2.0", id: 1, method: "ping" });
+    expect(client.getInfo()).toEqual({ type: "in-memory" });
+  });
+
+  it("should queue messages until the receiving end starts", async () => {
+    const [client, server] = InMemoryTransport.createLinkedPair();
+    await client.start();
+    const onMessage = jest.fn();
+    server.onMessage(onMessage);
+
+    await client.send({ jsonrpc: "2.0", method: "notifications/initialized" });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(onMessage).not.toHaveBeenCalled();
+
+    await server.start();
+    expect(onMessage).toHaveBeenCalledWith({
+      jsonrpc: "2.0",
+      method: "notifications/initialized",
+    });
+  });
+
+  it("should not share message objects between the two ends", async () => {
+    const [client, server] = InMemoryTransport.createLinkedPair();
+    await client.start();
+    await server.start();
+
+    const params = { value: 1 };
+    const received = new Promise<JSONRPCMessage>((resolve) =>
+      server.onMessage(resolve)
+    );
+    await client.send({ jsonrpc: "2.0", method: "update", params });
+    params.value = 2;
+
+    expect((await received).params).toEqual({ value: 1 });
+  });
+
+  it("should report a close to the peer only", async () => {
+    const [client, server] = InMemoryTransport.createLinkedPair();
+    await client.start();
+    await server.start();
+    const onClientClose = jest.fn();
+    const onServerClose = jest.fn();
+    client.onClose(onClientClose);
+    server.onClose(onServerClose);
+
+    await server.close();
+
+    expect(onServerClose).not.toHaveBeenCalled();
+    expect(onClientClose).toHaveBeenCalledWith({
+      code: null,
+      signal: null,
+      reason: "Peer closed",
+    });
+    expect(client.isAlive()).toBe(false);
+    await expect(
+      client.send({ jsonrpc: "2.0", id: 1, method: "ping" })
+    ).rejects.toThrow("Transport not connected");
+  });
+
+  describe("with BaseMCPClient", () => {
+    class EmbeddedClient extends BaseMCPClient {
+      constructor(private readonly clientTransport: Transport) {
+        super("EmbeddedExtension", mockOutputChannel);
+      }
+
+      protected createTransport(): Transport {
+        return this.clientTransport;
+      }
+
+      protected async onServerReady(): Promise<void> {}
+
+      async echo(text: string): Promise<unknown> {
+        return this.callTool("echo", { text });
+      }
+    }
+
+    it("should run the full lifecycle without spawning a process", async () => {
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      const server = new InProcessServer(serverTransport);
+      await serverTransport.start();
+      const client = new EmbeddedClient(clientTransport);
+
+      await client.start();
+      expect(client.getConnectionStatus().state).toBe(
+        ConnectionState.CONNECTED
+      );
+      expect(client.getDiagnostics().transport).toEqual({ type: "in-memory" });
+
+      await expect(client.echo("hello")).resolves.toEqual({
+        content: [{ type: "text", text: "hello" }],
+      });
+      expect(server.received.map((m) => m.method)).toEqual([
+        "initialize",
+        "notifications/initialized",
+        "tools/list",
+        "tools/call",
+      ]);
+      expect(client.getCatalog().tools.map((tool) => tool.name)).toEqual([
+        "echo",
+      ]);
+
+      await client.stop();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(client.getConnectionStatus().state).toBe(
+        ConnectionState.DISCONNECTED
+      );
+      expect(server.closeInfo?.reason).toBe("Peer closed");
+    });
+
+    it("should record a server shutdown as a lost connection", async () => {
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      new InProcessServer(serverTransport);
+      await serverTransport.start();
+      const client = new EmbeddedClient(clientTransport);
+      await client.start();
+
+      await serverTransport.close();
+
+      const status = client.getConnectionStatus();
+      expect(status.state).toBe(ConnectionState.DISCONNECTED);
+      expect(status.message).toBe("Connection to server lost: Peer closed");
+      await client.stop();
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * InMemoryTransport - Connects a client and a server in the same process
+ *
+ * Created in linked pairs: a message sent on one end is delivered to the
+ * other. Useful for embedding a server in the extension host and for tests
+ * that exercise the full client lifecycle without spawning a process.
+ */
+
+import { JSONRPCMessage, TransportInfo } from "./types";
+import { BaseTransport } from "./Transport";
+
+/**
+ * InMemoryTransport
+ */
+export class InMemoryTransport extends BaseTransport {
+  private peer?: InMemoryTransport;
+  private started: boolean = false;
+  private closed: boolean = false;
+  private queue: JSONRPCMessage[] = [];
+
+  /**
+   * Create two transports linked to each other
+   * @returns [clientTransport, serverTransport]
+   */
+  static createLinkedPair(): [InMemoryTransport, InMemoryTransport] {
+    const client = new InMemoryTransport();
+    const server = new InMemoryTransport();
+    client.peer = server;
+    server.peer = client;
+    return [client, server];
+  }
+
+  /**
+   * Start receiving; messages sent before start are delivered now
+   */
+  async start(): Promise<void> {
+    if (this.closed) {
+      throw new Error("Transport is closed");
+    }
+    this.started = true;
+
+    const queued = this.queue;
+    this.queue = [];
+    for (const message of queued) {
+      this.emitMessage(message);
+    }
+  }
+
+  /**
+   * Deliver a message to the other end of the pair
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    const peer = this.peer;
+    if (this.closed || !peer || peer.closed) {
+      throw new Error("Transport not connected");
+    }
+
+    // Copy and deliver asynchronously, like a real channel would
+    const copy: JSONRPCMessage = JSON.parse(JSON.stringify(message));
+    setImmediate(() => peer.receive(copy));
+  }
+
+  /**
+   * Close this end and notify the other end that its peer went away
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.queue = [];
+
+    const peer = this.peer;
+    this.peer = undefined;
+    if (peer && !peer.closed) {
+      peer.peer = undefined;
+      peer.closed = true;
+      peer.emitClose({ code: null, signal: null, reason: "Peer closed" });
+    }
+  }
+
+  isAlive(): boolean {
+    return this.started && !this.closed;
+  }
+
+  getInfo(): TransportInfo {
+    return { type: "in-memory" };
+  }
+
+  /**
+   * Accept a message from the peer
+   */
+  private receive(message: JSONRPCMessage): void {
+    if (this.closed) {
+      return;
+    }
+    if (!this.started) {
+      this.queue.push(message);
+      return;
+    }
+    this.emitMessage(message);
+  }
+}
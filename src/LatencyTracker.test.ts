@@ -0,0 +1,91 @@
+/**
+ * Unit tests for LatencyTracker
+ */
+
+import { LatencyTracker } from "./LatencyTracker";
+import { LatencySnapshot } from "./types";
+
+describe("LatencyTracker", () => {
+  it("should compute EWMA and nearest-rank percentiles", () => {
+    const tracker = new LatencyTracker(100, 0.5);
+    for (let i = 1; i <= 100; i++) {
+      tracker.record("tools/call", i * 10, "fs_search");
+    }
+
+    const stats = tracker.getStats("tools/call", "fs_search");
+
+    expect(stats).toMatchObject({
+      method: "tools/call",
+      tool: "fs_search",
+      count: 100,
+      p95Ms: 950,
+      p99Ms: 990,
+      windowSamples: 100,
+    });
+    expect(stats!.ewmaMs).toBe(990);
+    expect(tracker.getStats("tools/call")).toBeUndefined();
+  });
+
+  it("should only keep the most recent samples in the window", () => {
+    const tracker = new LatencyTracker(3);
+    for (const duration of [5000, 10, 20, 30]) {
+      tracker.record("ping", duration);
+    }
+
+    expect(tracker.getStats("ping")).toMatchObject({
+      count: 4,
+      p99Ms: 30,
+      windowSamples: 3,
+    });
+
+    tracker.configure(2, 0.2);
+    expect(tracker.getStats("ping")?.windowSamples).toBe(2);
+  });
+
+  it("should ignore invalid durations", () => {
+    const tracker = new LatencyTracker();
+    tracker.record("ping", -1);
+    tracker.record("ping", NaN);
+
+    expect(tracker.getAllStats()).toEqual([]);
+  });
+
+  it("should list statistics sorted by method and tool", () => {
+    const tracker = new LatencyTracker();
+    tracker.record("tools/list", 5);
+    tracker.record("tools/call", 7, "b");
+    tracker.record("tools/call", 9, "a");
+
+    expect(
+      tracker.getAllStats().map((stats) => [stats.method, stats.tool])
+    ).toEqual([
+      ["tools/call", "a"],
+      ["tools/call", "b"],
+      ["tools/list", undefined],
+    ]);
+  });
+
+  it("should import exported snapshots and skip malformed entries", () => {
+    const tracker = new LatencyTracker();
+    tracker.record("ping", 12);
+    tracker.record("tools/call", 40, "fs_search");
+
+    const snapshot = JSON.parse(JSON.stringify(tracker.export()));
+    snapshot.entries.push({ method: 3 }, null);
+
+    const restored = new LatencyTracker();
+    restored.record("resources/read", 1);
+    restored.import(snapshot as LatencySnapshot);
+
+    expect(restored.getAllStats()).toEqual(tracker.getAllStats());
+  });
+
+  it("should ignore snapshots of an unknown version", () => {
+    const tracker = new LatencyTracker();
+    tracker.record("ping", 12);
+
+    tracker.import({ version: 2, entries: [] } as unknown as LatencySnapshot);
+
+    expect(tracker.getStats("ping")?.count).toBe(1);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * LatencyTracker - Records request latency per method and per tool
+ *
+ * Keeps an exponentially weighted moving average and a sliding window of
+ * recent samples for each method (and for each tool called via tools/call),
+ * from which p95/p99 are computed. The history can be exported and imported
+ * so it survives restarts.
+ */
+
+import { LatencySnapshot, LatencyStats } from "./types";
+
+/**
+ * Latency history for one method or tool
+ */
+interface LatencyEntry {
+  method: string;
+  tool?: string;
+  count: number;
+  ewmaMs: number;
+  samples: number[];
+}
+
+/**
+ * LatencyTracker
+ */
+export class LatencyTracker {
+  private entries: Map<string, LatencyEntry> = new Map();
+
+  /**
+   * @param windowSize Number of recent samples kept per method or tool
+   * @param ewmaAlpha Weight of the newest sample in the moving average
+   */
+  constructor(
+    private windowSize: number = 100,
+    private ewmaAlpha: number = 0.2
+  ) {}
+
+  /**
+   * Record the latency of a completed request
+   * @param method Request method
+   * @param durationMs Time from sending to the response
+   * @param tool Tool name, for tools/call requests
+   */
+  record(method: string, durationMs: number, tool?: string): void {
+    if (!Number.isFinite(durationMs) || durationMs < 0) {
+      return;
+    }
+
+    const key = this.keyFor(method, tool);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.entries.set(key, {
+        method,
+        tool,
+        count: 1,
+        ewmaMs: durationMs,
+        samples: [durationMs],
+      });
+      return;
+    }
+
+    entry.count++;
+    entry.ewmaMs =
+      this.ewmaAlpha * durationMs + (1 - this.ewmaAlpha) * entry.ewmaMs;
+    entry.samples.push(durationMs);
+    if (entry.samples.length > this.windowSize) {
+      entry.samples.splice(0, entry.samples.length - this.windowSize);
+    }
+  }
+
+  /**
+   * Get statistics for one method or tool
+   * @param method Request method
+   * @param tool Tool name, for tools/call requests
+   * @returns Statistics, or undefined if nothing was recorded
+   */
+  getStats(method: string, tool?: string): LatencyStats | undefined {
+    const entry = this.entries.get(this.keyFor(method, tool));
+    return entry && this.toStats(entry);
+  }
+
+  /**
+   * Get statistics for everything recorded, sorted by method and tool
+   */
+  getAllStats(): LatencyStats[] {
+    return Array.from(this.entries.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, entry]) => this.toStats(entry));
+  }
+
+  /**
+   * Change the window size and smoothing; existing windows are trimmed
+   */
+  configure(windowSize: number, ewmaAlpha: number): void {
+    this.windowSize = windowSize;
+    this.ewmaAlpha = ewmaAlpha;
+    for (const entry of this.entries.values()) {
+      if (entry.samples.length > windowSize) {
+        entry.samples.splice(0, entry.samples.length - windowSize);
+      }
+    }
+  }
+
+  /**
+   * Export the recorded history for persistence
+   */
+  export(): LatencySnapshot {
+    return {
+      version: 1,
+      entries: Array.from(this.entries.values()).map((entry) => ({
+        ...entry,
+        samples: [...entry.samples],
+      })),
+    };
+  }
+
+  /**
+   * Replace the recorded history with a saved snapshot.
+   * Malformed entries are skipped.
+   * @param snapshot Snapshot from export()
+   */
+  import(snapshot: LatencySnapshot): void {
+    if (snapshot?.version !== 1 || !Array.isArray(snapshot.entries)) {
+      return;
+    }
+
+    this.entries.clear();
+    for (const entry of snapshot.entries) {
+      if (
+        typeof entry?.method !== "string" ||
+        typeof entry.ewmaMs !== "number" ||
+        !Array.isArray(entry.samples)
+      ) {
+        continue;
+      }
+      const samples = entry.samples
+        .filter((sample) => typeof sample === "number" && sample >= 0)
+        .slice(-this.windowSize);
+      this.entries.set(this.keyFor(entry.method, entry.tool), {
+        method: entry.method,
+        tool: typeof entry.tool === "string" ? entry.tool : undefined,
+        count: typeof entry.count === "number" ? entry.count : samples.length,
+        ewmaMs: entry.ewmaMs,
+        samples,
+      });
+    }
+  }
+
+  /**
+   * Forget all recorded latency
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private keyFor(method: string, tool?: string): string {
+    return tool !== undefined ? `${method} ${tool}` : method;
+  }
+
+  private toStats(entry: LatencyEntry): LatencyStats {
+    const sorted = [...entry.samples].sort((a, b) => a - b);
+    return {
+      method: entry.method,
+      ...(entry.tool !== undefined ? { tool: entry.tool } : {}),
+      count: entry.count,
+      ewmaMs: Math.round(entry.ewmaMs),
+      p95Ms: percentile(sorted, 95),
+      p99Ms: percentile(sorted, 99),
+      windowSamples: sorted.length,
+    };
+  }
+}
+
+/**
+ * Nearest-rank percentile of sorted samples
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
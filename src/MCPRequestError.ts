@@ -0,0 +1,36 @@
+/**
+ * MCPRequestError - JSON-RPC error carried across the client/server boundary
+ */
+
+import { JSONRPCError } from "./types";
+
+/**
+ * Error with a JSON-RPC error code.
+ *
+ * Raised when the server answers a request with an error, and thrown by
+ * request handlers to reply to the server with a specific error.
+ */
+export class MCPRequestError extends Error {
+  /** JSON-RPC error code */
+  readonly code: number;
+  /** Additional error data, if any */
+  readonly data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = "MCPRequestError";
+    this.code = code;
+    this.data = data;
+  }
+
+  /**
+   * Convert to a JSON-RPC error object
+   */
+  toJSON(): JSONRPCError {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.data !== undefined ? { data: this.data } : {}),
+    };
+  }
+}
@@ -154,4 +154,78 @@ describe("ReSyncManager Property Tests", () => {
       { numRuns: 50 }
     );
   }, 30000); // 30 second timeout for this test
+
+  /**
+   * For any configuration and sequence of random values, jittered delays
+   * stay within the strategy's bounds and never exceed maxDelayMs
+   */
+  test("Jittered delays stay within bounds", () => {
+    fc.assert(
+      fc.property(
+        fc.record({
+          retryDelayMs: fc.integer({ min: 0, max: 10000 }),
+          backoffMultiplier: fc.float({ min: 1.0, max: 3.0, noNaN: true }),
+          maxDelayMs: fc.integer({ min: 10000, max: 300000 }),
+        }),
+        fc.constantFrom("full-jitter" as const, "decorrelated-jitter" as const),
+        fc.array(fc.double({ min: 0, max: 1, maxExcluded: true }), {
+          minLength: 1,
+          maxLength: 10,
+        }),
+        (config, backoffStrategy, randomValues) => {
+          let next = 0;
+          const random = () => randomValues[next++ % randomValues.length];
+          const manager = new ReSyncManager(
+            { ...config, maxRetries: 10, backoffStrategy },
+            random
+          );
+
+          let previous = config.retryDelayMs;
+          for (let attempt = 1; attempt <= 10; attempt++) {
+            manager["currentAttempt"] = attempt;
+            const delay = manager.getNextRetryDelay();
+
+            expect(delay).toBeLessThanOrEqual(config.maxDelayMs);
+            if (backoffStrategy === "full-jitter") {
+              expect(delay).toBeGreaterThanOrEqual(0);
+            } else {
+              expect(delay).toBeGreaterThanOrEqual(config.retryDelayMs);
+              expect(delay).toBeLessThanOrEqual(
+                Math.max(config.retryDelayMs, previous * 3)
+              );
+            }
+            previous = delay;
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * The same random source yields the same delays, so runs are reproducible
+   */
+  test("Jittered delays are deterministic for a given random source", () => {
+    fc.assert(
+      fc.property(fc.integer(), (seed) => {
+        const delays = () => {
+          const random = fc.sample(
+            fc.double({ min: 0, max: 1, maxExcluded: true }),
+            { seed, numRuns: 5 }
+          );
+          const manager = new ReSyncManager(
+            { backoffStrategy: "decorrelated-jitter", maxRetries: 5 },
+            () => random.shift() ?? 0
+          );
+          return [1, 2, 3, 4, 5].map((attempt) => {
+            manager["currentAttempt"] = attempt;
+            return manager.getNextRetryDelay();
+          });
+        };
+
+        expect(delays()).toEqual(delays());
+      }),
+      { numRuns: 50 }
+    );
+  });
 });
@@ -102,6 +102,20 @@ describe("ReSyncManager", () => {
       expect(manager.getNextRetryDelay()).toBe(6750); // 2000 * 1.5^3 = 6750
     });
 
+    test("should count attempts made outside attemptReSync", () => {
+      const manager = new ReSyncManager({
+        retryDelayMs: 1000,
+        backoffMultiplier: 2,
+      });
+
+      expect(manager.nextAttemptDelay()).toBe(1000);
+      expect(manager.nextAttemptDelay()).toBe(2000);
+      expect(manager.getCurrentAttempt()).toBe(2);
+
+      manager.reset();
+      expect(manager.nextAttemptDelay()).toBe(1000);
+    });
+
     test("should handle backoff multiplier of 1.0 (no backoff)", () => {
       const manager = new ReSyncManager({
         retryDelayMs: 2000,
@@ -138,6 +152,171 @@ describe("ReSyncManager", () => {
     });
   });
 
+  describe("backoff strategies", () => {
+    test("should use exponential backoff by default", () => {
+      const manager = new ReSyncManager();
+
+      expect(manager.getBackoffStrategy().name).toBe("exponential");
+    });
+
+    test("should cap every delay at maxDelayMs", () => {
+      const manager = new ReSyncManager({
+        retryDelayMs: 1000,
+        backoffMultiplier: 2,
+        maxDelayMs: 5000,
+      });
+
+      manager["currentAttempt"] = 3;
+      expect(manager.getNextRetryDelay()).toBe(4000);
+
+      manager["currentAttempt"] = 4;
+      expect(manager.getNextRetryDelay()).toBe(5000);
+    });
+
+    test("should use the injected random source for jitter", () => {
+      const manager = new ReSyncManager(
+        {
+          retryDelayMs: 1000,
+          backoffMultiplier: 2,
+          backoffStrategy: "full-jitter",
+        },
+        () => 0.5
+      );
+
+      manager["currentAttempt"] = 3;
+      expect(manager.getNextRetryDelay()).toBe(2000);
+    });
+
+    test("should base decorrelated jitter on the previous delay until reset", () => {
+      const manager = new ReSyncManager(
+        { retryDelayMs: 1000, backoffStrategy: "decorrelated-jitter" },
+        () => 1
+      );
+
+      manager["currentAttempt"] = 2;
+      expect(manager.getNextRetryDelay()).toBe(3000);
+      manager["currentAttempt"] = 3;
+      expect(manager.getNextRetryDelay()).toBe(9000);
+
+      manager.reset();
+      manager["currentAttempt"] = 2;
+      expect(manager.getNextRetryDelay()).toBe(3000);
+    });
+
+    test("should accept a custom strategy and keep its delays in bounds", () => {
+      const manager = new ReSyncManager({
+        retryDelayMs: 1000,
+        maxDelayMs: 8000,
+        backoffStrategy: {
+          name: "custom",
+          getDelay: ({ attempt }) => (attempt === 2 ? -50 : attempt * 5000),
+        },
+      });
+
+      manager["currentAttempt"] = 2;
+      expect(manager.getNextRetryDelay()).toBe(0);
+      manager["currentAttempt"] = 3;
+      expect(manager.getNextRetryDelay()).toBe(8000);
+    });
+  });
+
+  describe("validateConfig", () => {
+    test("should accept valid configuration", () => {
+      const manager = new ReSyncManager();
+      const result = manager.validateConfig({
+        maxRetries: 5,
+        retryDelayMs: 500,
+        backoffMultiplier: 2,
+        maxDelayMs: 30000,
+        backoffStrategy: "decorrelated-jitter",
+      });
+
+      expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+    });
+
+    test("should reject out-of-range and non-integer values", () => {
+      const manager = new ReSyncManager();
+      const result = manager.validateConfig({
+        maxRetries: 1.5,
+        retryDelayMs: -1,
+        backoffMultiplier: 0.5,
+        maxDelayMs: 400000,
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        "maxRetries must be an integer",
+        "retryDelayMs must not be negative",
+        "maxDelayMs must not exceed 300000ms",
+        "backoffMultiplier must be at least 1",
+      ]);
+    });
+
+    test("should reject non-number values and NaN", () => {
+      const manager = new ReSyncManager();
+      const result = manager.validateConfig({
+        maxRetries: "3" as unknown as number,
+        retryDelayMs: NaN,
+        backoffMultiplier: NaN,
+      });
+
+      expect(result.errors).toEqual([
+        "maxRetries must be a number",
+        "retryDelayMs must be a number",
+        "backoffMultiplier must be a number",
+      ]);
+    });
+
+    test("should reject a maximum delay below the base delay", () => {
+      const manager = new ReSyncManager();
+
+      expect(
+        manager.validateConfig({ retryDelayMs: 5000, maxDelayMs: 1000 }).errors
+      ).toEqual(["maxDelayMs must not be less than retryDelayMs"]);
+    });
+
+    test("should reject unknown strategies", () => {
+      const manager = new ReSyncManager();
+
+      expect(
+        manager.validateConfig({
+          backoffStrategy: "random" as unknown as "constant",
+        }).errors
+      ).toEqual([
+        "backoffStrategy must be one of constant, linear, exponential, full-jitter, decorrelated-jitter",
+      ]);
+      expect(
+        manager.validateConfig({
+          backoffStrategy: { name: "broken" } as unknown as "constant",
+        }).errors
+      ).toEqual([
+        "backoffStrategy must be a strategy name or an object with a getDelay function",
+      ]);
+    });
+
+    test("should warn when retries are disabled", () => {
+      const manager = new ReSyncManager();
+      const result = manager.validateConfig({ maxRetries: 0 });
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toEqual([
+        "maxRetries is 0, so re-synchronization is disabled",
+      ]);
+    });
+
+    test("should throw from the constructor and updateConfig", () => {
+      expect(() => new ReSyncManager({ maxRetries: -1 })).toThrow(
+        "Invalid re-sync configuration: maxRetries must not be negative"
+      );
+
+      const manager = new ReSyncManager({ retryDelayMs: 2000 });
+      expect(() => manager.updateConfig({ maxDelayMs: 1000 })).toThrow(
+        "Invalid re-sync configuration: maxDelayMs must not be less than retryDelayMs"
+      );
+      expect(manager.getConfig().maxDelayMs).toBeUndefined();
+    });
+  });
+
   describe("reset", () => {
     test("should reset current attempt to zero", () => {
       const manager = new ReSyncManager();
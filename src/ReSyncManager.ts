@@ -1,12 +1,23 @@
 /**
- * ReSyncManager - Manages re-synchronization logic with exponential backoff
+ * ReSyncManager - Manages re-synchronization logic with configurable backoff
  *
  * Provides consistent re-synchronization behavior across all MCP extensions,
- * including retry counting, exponential backoff, and max retry enforcement.
+ * including retry counting, backoff between retries, and max retry enforcement.
  */
 
-import { ReSyncConfig, ReSyncResult, ConnectionState } from "./types";
+import {
+  BackoffStrategy,
+  ReSyncConfig,
+  ReSyncResult,
+  ConnectionState,
+  ValidationResult,
+} from "./types";
 import { ConnectionStateManager } from "./ConnectionStateManager";
+import {
+  BACKOFF_STRATEGY_NAMES,
+  RandomSource,
+  createBackoffStrategy,
+} from "./backoffStrategies";
 
 /**
  * Default re-synchronization configuration
@@ -17,19 +28,37 @@ const DEFAULT_RESYNC_CONFIG: ReSyncConfig = {
   backoffMultiplier: 1.5,
 };
 
+/**
+ * Limits for re-synchronization settings
+ */
+const MAX_RETRIES = 100;
+const MAX_DELAY_MS = 300000; // 5 minutes
+const MAX_BACKOFF_MULTIPLIER = 10;
+
 /**
  * ReSyncManager
  *
- * Manages automatic re-synchronization with exponential backoff.
+ * Manages automatic re-synchronization with backoff between retries.
  * Ensures consistent retry behavior across all MCP extensions.
  */
 export class ReSyncManager {
   private config: ReSyncConfig;
   private currentAttempt: number;
+  private strategy!: BackoffStrategy;
+  private previousDelayMs?: number;
 
-  constructor(config?: Partial<ReSyncConfig>) {
-    this.config = { ...DEFAULT_RESYNC_CONFIG, ...config };
+  /**
+   * @param config Re-sync settings, merged with the defaults
+   * @param random Random number generator for the jitter strategies
+   * @throws Error if the configuration is invalid
+   */
+  constructor(
+    config?: Partial<ReSyncConfig>,
+    private readonly random: RandomSource = Math.random
+  ) {
+    this.config = { ...DEFAULT_RESYNC_CONFIG };
     this.currentAttempt = 0;
+    this.updateConfig(config ?? {});
   }
 
   /**
@@ -111,6 +140,7 @@ export class ReSyncManager {
    */
   reset(): void {
     this.currentAttempt = 0;
+    this.previousDelayMs = undefined;
   }
 
   /**
@@ -122,17 +152,45 @@ export class ReSyncManager {
   }
 
   /**
-   * Calculate next retry delay using exponential backoff
+   * Calculate next retry delay using the configured backoff strategy.
+   * The result is remembered as the previous delay, which the
+   * decorrelated-jitter strategy builds on.
    * @returns Delay in milliseconds for next retry
    */
   getNextRetryDelay(): number {
-    // For attempt N, delay = retryDelayMs * (backoffMultiplier ^ (N-1))
-    // We use N-1 because the first retry (attempt 1) should use the base delay
-    const exponent = this.currentAttempt - 1;
-    return (
-      this.config.retryDelayMs *
-      Math.pow(this.config.backoffMultiplier, exponent)
+    const maxDelayMs = this.config.maxDelayMs ?? Infinity;
+    const delay = this.strategy.getDelay({
+      attempt: this.currentAttempt,
+      previousDelayMs: this.previousDelayMs,
+      baseDelayMs: this.config.retryDelayMs,
+      multiplier: this.config.backoffMultiplier,
+      maxDelayMs,
+    });
+
+    // Keep custom strategies within bounds
+    const bounded = Math.min(
+      maxDelayMs,
+      Math.max(0, Number.isFinite(delay) ? delay : this.config.retryDelayMs)
     );
+    this.previousDelayMs = bounded;
+    return bounded;
+  }
+
+  /**
+   * Count an attempt made outside attemptReSync, such as a server restart,
+   * and get the backoff delay to wait before making it
+   * @returns Delay in milliseconds
+   */
+  nextAttemptDelay(): number {
+    this.currentAttempt++;
+    return this.getNextRetryDelay();
+  }
+
+  /**
+   * Get the backoff strategy in use
+   */
+  getBackoffStrategy(): BackoffStrategy {
+    return this.strategy;
   }
 
   /**
@@ -149,12 +207,144 @@ export class ReSyncManager {
     return { ...this.config };
   }
 
+  /**
+   * Validate re-sync configuration
+   * @param config Configuration to validate
+   * @returns Validation result with errors and warnings
+   */
+  validateConfig(config: Partial<ReSyncConfig>): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Validate maxRetries
+    const { maxRetries } = config;
+    if (maxRetries !== undefined) {
+      if (typeof maxRetries !== "number" || Number.isNaN(maxRetries)) {
+        errors.push("maxRetries must be a number");
+      } else if (!Number.isInteger(maxRetries)) {
+        errors.push("maxRetries must be an integer");
+      } else if (maxRetries < 0) {
+        errors.push("maxRetries must not be negative");
+      } else if (maxRetries > MAX_RETRIES) {
+        errors.push(`maxRetries must not exceed ${MAX_RETRIES}`);
+      } else if (maxRetries === 0) {
+        warnings.push("maxRetries is 0, so re-synchronization is disabled");
+      }
+    }
+
+    // Validate delays
+    const retryDelayValid = this.checkDelayValue(
+      "retryDelayMs",
+      config.retryDelayMs,
+      errors
+    );
+    const maxDelayValid = this.checkDelayValue(
+      "maxDelayMs",
+      config.maxDelayMs,
+      errors
+    );
+    if (
+      retryDelayValid &&
+      maxDelayValid &&
+      (config.maxDelayMs as number) < (config.retryDelayMs as number)
+    ) {
+      errors.push("maxDelayMs must not be less than retryDelayMs");
+    }
+
+    // Validate backoffMultiplier
+    const { backoffMultiplier } = config;
+    if (backoffMultiplier !== undefined) {
+      if (
+        typeof backoffMultiplier !== "number" ||
+        Number.isNaN(backoffMultiplier)
+      ) {
+        errors.push("backoffMultiplier must be a number");
+      } else if (backoffMultiplier < 1) {
+        errors.push("backoffMultiplier must be at least 1");
+      } else if (backoffMultiplier > MAX_BACKOFF_MULTIPLIER) {
+        errors.push(
+          `backoffMultiplier must not exceed ${MAX_BACKOFF_MULTIPLIER}`
+        );
+      }
+    }
+
+    // Validate backoffStrategy
+    const { backoffStrategy } = config;
+    if (backoffStrategy !== undefined) {
+      if (typeof backoffStrategy === "string") {
+        if (!BACKOFF_STRATEGY_NAMES.includes(backoffStrategy)) {
+          errors.push(
+            `backoffStrategy must be one of ${BACKOFF_STRATEGY_NAMES.join(
+              ", "
+            )}`
+          );
+        }
+      } else if (
+        backoffStrategy === null ||
+        typeof backoffStrategy !== "object" ||
+        typeof backoffStrategy.getDelay !== "function"
+      ) {
+        errors.push(
+          "backoffStrategy must be a strategy name or an object with a getDelay function"
+        );
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+    };
+  }
+
   /**
    * Update configuration
    * @param config Partial configuration to update
+   * @throws Error if the resulting configuration is invalid
    */
   updateConfig(config: Partial<ReSyncConfig>): void {
-    this.config = { ...this.config, ...config };
+    // Validate the merged result so limits are checked against each other
+    const merged = { ...this.config, ...config };
+    const validation = this.validateConfig(merged);
+
+    if (!validation.valid) {
+      throw new Error(
+        `Invalid re-sync configuration: ${validation.errors.join(", ")}`
+      );
+    }
+
+    this.config = merged;
+    const strategy = merged.backoffStrategy ?? "exponential";
+    this.strategy =
+      typeof strategy === "string"
+        ? createBackoffStrategy(strategy, this.random)
+        : strategy;
+    this.previousDelayMs = undefined;
+  }
+
+  /**
+   * Check one delay setting; returns true if present and valid
+   */
+  private checkDelayValue(
+    name: string,
+    value: unknown,
+    errors: string[]
+  ): boolean {
+    if (value === undefined) {
+      return false;
+    }
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      errors.push(`${name} must be a number`);
+    } else if (value < 0) {
+      errors.push(`${name} must not be negative`);
+    } else if (value > MAX_DELAY_MS) {
+      errors.push(`${name} must not exceed ${MAX_DELAY_MS}ms`);
+    } else if (!Number.isInteger(value)) {
+      errors.push(`${name} must be an integer`);
+    } else {
+      return true;
+    }
+    return false;
   }
 
   /**
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for ResourceMonitor
+ */
+
+import { ResourceMonitor } from "./ResourceMonitor";
+import { ResourceMonitorConfig } from "./types";
+
+const CONFIG: ResourceMonitorConfig = {
+  enabled: true,
+  intervalMs: 1000,
+  warn: {},
+  restart: {},
+};
+
+// Usage is read from /proc
+const describeOnLinux = process.platform === "linux" ? describe : describe.skip;
+
+describeOnLinux("ResourceMonitor", () => {
+  let monitor: ResourceMonitor;
+
+  afterEach(() => {
+    monitor.stop();
+  });
+
+  it("should sample memory, CPU time and open descriptors", async () => {
+    monitor = new ResourceMonitor(CONFIG);
+    monitor.start(process.pid);
+
+    const first = (await monitor.sample())!;
+    expect(first.rssBytes).toBeGreaterThan(0);
+    expect(first.cpuTimeMs).toBeGreaterThan(0);
+    expect(first.openFds).toBeGreaterThan(0);
+    expect(first.processCount).toBeGreaterThanOrEqual(1);
+    expect(first.cpuPercent).toBeUndefined();
+
+    // Burn some CPU so the next sample has something to measure
+    const busyUntil = Date.now() + 50;
+    while (Date.now() < busyUntil) {
+      // spin
+    }
+
+    const second = (await monitor.sample())!;
+    expect(second.cpuPercent).toBeGreaterThanOrEqual(0);
+    expect(monitor.getUsage()).toBe(second);
+  });
+
+  it("should sample on the configured interval until stopped", async () => {
+    jest.useFakeTimers({ doNotFake: ["nextTick", "setImmediate"] });
+    try {
+      monitor = new ResourceMonitor(CONFIG);
+      monitor.start(process.pid);
+      expect(monitor.getUsage()).toBeUndefined();
+
+      jest.advanceTimersByTime(1000);
+      // The sample is read asynchronously
+      while (!monitor.getUsage()) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      monitor.stop();
+      expect(monitor.getUsage()).toBeUndefined();
+      jest.advanceTimersByTime(1000);
+      expect(await monitor.sample()).toBeUndefined();
+      expect(monitor.getUsage()).toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should discard a sample that was in flight when stopped", async () => {
+    monitor = new ResourceMonitor({ ...CONFIG, warn: { openFds: 1 } });
+    const listener = jest.fn();
+    monitor.onThresholdExceeded(listener);
+    monitor.start(process.pid);
+
+    const sample = monitor.sample();
+    monitor.stop();
+
+    expect(await sample).toBeUndefined();
+    expect(monitor.getUsage()).toBeUndefined();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should report each threshold once per crossing", async () => {
+    monitor = new ResourceMonitor({
+      ...CONFIG,
+      warn: { rssMb: 1 },
+      restart: { openFds: 1 },
+    });
+    const listener = jest.fn();
+    monitor.onThresholdExceeded(listener);
+    monitor.start(process.pid);
+
+    await monitor.sample();
+    await monitor.sample();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledWith({
+      level: "warn",
+      resource: "rssMb",
+      value: expect.any(Number),
+      limit: 1,
+    });
+    expect(listener).toHaveBeenCalledWith({
+      level: "restart",
+      resource: "openFds",
+      value: expect.any(Number),
+      limit: 1,
+    });
+  });
+
+  it("should report a threshold again after a restart of sampling", async () => {
+    monitor = new ResourceMonitor({ ...CONFIG, warn: { openFds: 1 } });
+    const listener = jest.fn();
+    monitor.onThresholdExceeded(listener);
+
+    monitor.start(process.pid);
+    await monitor.sample();
+    monitor.start(process.pid);
+    await monitor.sample();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep sampling when a listener throws", async () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation();
+    monitor = new ResourceMonitor({ ...CONFIG, warn: { openFds: 1 } });
+    monitor.onThresholdExceeded(() => {
+      throw new Error("listener failed");
+    });
+    monitor.start(process.pid);
+
+    expect(await monitor.sample()).toBeDefined();
+    expect(consoleError).toHaveBeenCalledWith(
+      "Error in resource monitor listener:",
+      expect.any(Error)
+    );
+    consoleError.mockRestore();
+  });
+
+  it("should return no sample for a process that is not running", async () => {
+    monitor = new ResourceMonitor(CONFIG);
+
+    expect(await monitor.sample()).toBeUndefined();
+
+    monitor.start(2 ** 22 + 1);
+    expect(await monitor.sample()).toBeUndefined();
+  });
+
+  it("should reject an invalid interval or threshold", async () => {
+    monitor = new ResourceMonitor(CONFIG);
+
+    expect(
+      () =>
+        new ResourceMonitor({
+          ...CONFIG,
+          intervalMs: 0,
+          restart: { rssMb: -5 },
+        })
+    ).toThrow(
+      "Invalid resource monitor configuration: intervalMs must be a positive integer, restart.rssMb must be a positive number"
+    );
+  });
+});
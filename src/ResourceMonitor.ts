@@ -0,0 +1,289 @@
+/**
+ * ResourceMonitor - Samples the resource use of a server process
+ *
+ * Reads resident memory, CPU time and open file descriptors of a process
+ * and everything it spawned from /proc on an interval, without blocking the
+ * event loop. Samples that cross a warn or restart threshold are reported to
+ * listeners, once per crossing. Where /proc is not available no samples are
+ * taken.
+ */
+
+import * as fs from "fs";
+import { listProcessSubtree } from "./processTree";
+import {
+  ResourceMonitorConfig,
+  ResourceThresholdBreach,
+  ResourceThresholds,
+  ResourceUsage,
+} from "./types";
+
+/**
+ * Disposable interface for cleanup
+ */
+interface Disposable {
+  dispose(): void;
+}
+
+/**
+ * Units of the CPU times in /proc/<pid>/stat (USER_HZ, 100 on Linux)
+ */
+const CLOCK_TICKS_PER_SECOND = 100;
+
+const THRESHOLD_KEYS: Array<keyof ResourceThresholds> = [
+  "rssMb",
+  "cpuPercent",
+  "openFds",
+];
+
+/**
+ * ResourceMonitor
+ */
+export class ResourceMonitor {
+  private timer?: NodeJS.Timeout;
+  private pid?: number;
+  private usage?: ResourceUsage;
+  private breaches: Set<string> = new Set();
+  private sampling?: Promise<ResourceUsage | undefined>;
+  /** Bumped on every stop, so a sample in flight can tell it is stale */
+  private generation = 0;
+  private listeners: Set<(breach: ResourceThresholdBreach) => void> = new Set();
+
+  /**
+   * @param config Sampling interval and thresholds
+   * @throws Error if the interval is not a positive integer or a threshold
+   * is not a positive number
+   */
+  constructor(private readonly config: ResourceMonitorConfig) {
+    const errors: string[] = [];
+    if (!Number.isInteger(config.intervalMs) || config.intervalMs < 1) {
+      errors.push("intervalMs must be a positive integer");
+    }
+    for (const level of ["warn", "restart"] as const) {
+      for (const key of THRESHOLD_KEYS) {
+        const limit = config[level]?.[key];
+        if (limit !== undefined && !(typeof limit === "number" && limit > 0)) {
+          errors.push(`${level}.${key} must be a positive number`);
+        }
+      }
+    }
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid resource monitor configuration: ${errors.join(", ")}`
+      );
+    }
+  }
+
+  /**
+   * Start sampling a process and its descendants, replacing any process
+   * sampled before. The first sample is taken after one interval.
+   * @param pid Server process ID
+   */
+  start(pid: number): void {
+    this.stop();
+    this.pid = pid;
+    this.timer = setInterval(() => {
+      // A slow read skips ticks rather than piling them up
+      if (!this.sampling) {
+        void this.sample();
+      }
+    }, this.config.intervalMs);
+    // Sampling alone must not keep the host process running
+    this.timer.unref();
+  }
+
+  /**
+   * Stop sampling and forget the last sample
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.generation++;
+    this.pid = undefined;
+    this.usage = undefined;
+    this.sampling = undefined;
+    this.breaches.clear();
+  }
+
+  /**
+   * Get the latest sample
+   * @returns Usage, or undefined before the first sample or without /proc
+   */
+  getUsage(): ResourceUsage | undefined {
+    return this.usage;
+  }
+
+  /**
+   * Take a sample now and check it against the thresholds. While a sample is
+   * being read, further calls share its result.
+   * @returns The sample, or undefined if the process could not be read or
+   * sampling was stopped meanwhile
+   */
+  sample(): Promise<ResourceUsage | undefined> {
+    if (this.pid === undefined) {
+      return Promise.resolve(undefined);
+    }
+    if (!this.sampling) {
+      const sampling = this.readSample(this.pid, this.generation);
+      this.sampling = sampling;
+      void sampling.finally(() => {
+        if (this.sampling === sampling) {
+          this.sampling = undefined;
+        }
+      });
+    }
+    return this.sampling;
+  }
+
+  /**
+   * Subscribe to threshold crossings. A listener is called when a value
+   * first exceeds a limit, and again only after it has dropped below it.
+   * @param listener Called with the threshold and the measured value
+   * @returns Disposable to unregister the listener
+   */
+  onThresholdExceeded(
+    listener: (breach: ResourceThresholdBreach) => void
+  ): Disposable {
+    this.listeners.add(listener);
+    return {
+      dispose: () => {
+        this.listeners.delete(listener);
+      },
+    };
+  }
+
+  private async readSample(
+    pid: number,
+    generation: number
+  ): Promise<ResourceUsage | undefined> {
+    const usage = await readTreeUsage(pid, this.usage);
+    if (generation !== this.generation) {
+      return undefined;
+    }
+    this.usage = usage;
+    if (usage) {
+      this.checkThresholds(usage);
+    }
+    return usage;
+  }
+
+  private checkThresholds(usage: ResourceUsage): void {
+    const values: Record<keyof ResourceThresholds, number | undefined> = {
+      rssMb: Math.round((usage.rssBytes / (1024 * 1024)) * 10) / 10,
+      cpuPercent: usage.cpuPercent,
+      openFds: usage.openFds,
+    };
+
+    for (const level of ["warn", "restart"] as const) {
+      for (const resource of THRESHOLD_KEYS) {
+        const limit = this.config[level]?.[resource];
+        const value = values[resource];
+        const key = `${level}:${resource}`;
+        if (limit === undefined || value === undefined || value <= limit) {
+          this.breaches.delete(key);
+          continue;
+        }
+        if (!this.breaches.has(key)) {
+          this.breaches.add(key);
+          this.notify({ level, resource, value, limit });
+        }
+      }
+    }
+  }
+
+  private notify(breach: ResourceThresholdBreach): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(breach);
+      } catch (error) {
+        console.error("Error in resource monitor listener:", error);
+      }
+    }
+  }
+}
+
+/**
+ * Sum the resource use of a process and its descendants
+ * @param rootPid Server process ID
+ * @param previous Previous sample, to compute CPU use since then
+ * @returns Usage, or undefined if no process could be read
+ */
+async function readTreeUsage(
+  rootPid: number,
+  previous?: ResourceUsage
+): Promise<ResourceUsage | undefined> {
+  let rssBytes = 0;
+  let cpuTicks = 0;
+  let openFds = 0;
+  let processCount = 0;
+
+  for (const pid of await listProcessSubtree(rootPid)) {
+    const usage = await readProcessUsage(pid);
+    if (!usage) {
+      continue;
+    }
+    rssBytes += usage.rssBytes;
+    cpuTicks += usage.cpuTicks;
+    openFds += usage.openFds;
+    processCount++;
+  }
+  if (processCount === 0) {
+    return undefined;
+  }
+
+  const sampledAt = Date.now();
+  const cpuTimeMs = (cpuTicks * 1000) / CLOCK_TICKS_PER_SECOND;
+  const elapsedMs = previous ? sampledAt - previous.sampledAt : 0;
+  return {
+    rssBytes,
+    cpuTimeMs,
+    // Descendants that exit take their CPU time with them, hence the floor
+    cpuPercent:
+      previous && elapsedMs > 0
+        ? Math.round(
+            Math.max(0, (cpuTimeMs - previous.cpuTimeMs) / elapsedMs) * 1000
+          ) / 10
+        : undefined,
+    openFds,
+    processCount,
+    sampledAt,
+  };
+}
+
+/**
+ * Read memory, CPU ticks and open descriptors of one process from /proc
+ */
+async function readProcessUsage(
+  pid: number
+): Promise<
+  { rssBytes: number; cpuTicks: number; openFds: number } | undefined
+> {
+  let stat: string;
+  let status: string;
+  try {
+    stat = await fs.promises.readFile(`/proc/${pid}/stat`, "utf8");
+    status = await fs.promises.readFile(`/proc/${pid}/status`, "utf8");
+  } catch {
+    return undefined;
+  }
+
+  // utime and stime are fields 14 and 15; counting starts after the
+  // command name, which may contain spaces
+  const fields = stat.slice(stat.lastIndexOf(")") + 2).split(" ");
+  const cpuTicks = Number(fields[11]) + Number(fields[12]);
+  const rssKb = /^VmRSS:\s+(\d+) kB/m.exec(status)?.[1];
+
+  let openFds = 0;
+  try {
+    openFds = (await fs.promises.readdir(`/proc/${pid}/fd`)).length;
+  } catch {
+    // Not readable (e.g. the process just exited)
+  }
+
+  return {
+    rssBytes: rssKb !== undefined ? Number(rssKb) * 1024 : 0,
+    cpuTicks: Number.isFinite(cpuTicks) ? cpuTicks : 0,
+    openFds,
+  };
+}
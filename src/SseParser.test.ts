@@ -0,0 +1,54 @@
+/**
+ * Unit tests for SseParser
+ */
+
+import { SseParser, SseEvent } from "./SseParser";
+
+function parse(...chunks: string[]): SseEvent[] {
+  const events: SseEvent[] = [];
+  const parser = new SseParser((event) => events.push(event));
+  for (const chunk of chunks) {
+    parser.push(chunk);
+  }
+  return events;
+}
+
+describe("SseParser", () => {
+  it("should parse a single message event", () => {
+    expect(parse('data: {"a":1}\n\n')).toEqual([
+      { event: "message", data: '{"a":1}', id: undefined, retry: undefined },
+    ]);
+  });
+
+  it("should parse event type, id and retry fields", () => {
+    expect(
+      parse("event: endpoint\nid: 7\nretry: 2500\ndata: /messages\n\n")
+    ).toEqual([{ event: "endpoint", data: "/messages", id: "7", retry: 2500 }]);
+  });
+
+  it("should join multiple data lines with newlines", () => {
+    expect(parse("data: first\ndata: second\n\n")[0].data).toBe(
+      "first\nsecond"
+    );
+  });
+
+  it("should handle events split across chunks", () => {
+    const events = parse("da", "ta: hel", "lo\n", "\n");
+    expect(events).toHaveLength(1);
+    expect(events[0].data).toBe("hello");
+  });
+
+  it("should handle CRLF line endings split across chunks", () => {
+    const events = parse("data: one\r", "\n\r\n", "data: two\r\n\r\n");
+    expect(events.map((e) => e.data)).toEqual(["one", "two"]);
+  });
+
+  it("should ignore comments and events without data", () => {
+    expect(parse(": keep-alive\n\nevent: ping\n\n")).toEqual([]);
+  });
+
+  it("should keep the last event id for subsequent events", () => {
+    const events = parse("id: 3\ndata: a\n\ndata: b\n\n");
+    expect(events.map((e) => e.id)).toEqual(["3", "3"]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * SseParser - Incremental parser for text/event-stream bodies
+ *
+ * Used by the HTTP-based transports to turn a server-sent event stream into
+ * discrete events as chunks arrive.
+ */
+
+/**
+ * A single server-sent event
+ */
+export interface SseEvent {
+  /** Event type (defaults to "message") */
+  event: string;
+  /** Event data, with multiple data lines joined by newlines */
+  data: string;
+  /** Event ID, if the server sent one */
+  id?: string;
+  /** Reconnection delay requested by the server, in milliseconds */
+  retry?: number;
+}
+
+/**
+ * SseParser
+ *
+ * Feed raw chunks with push(); complete events are delivered to the
+ * callback passed to the constructor.
+ */
+export class SseParser {
+  private buffer: string = "";
+  private pendingCR: boolean = false;
+  private eventType: string = "";
+  private dataLines: string[] = [];
+  private eventId?: string;
+  private retry?: number;
+  private readonly onEvent: (event: SseEvent) => void;
+
+  constructor(onEvent: (event: SseEvent) => void) {
+    this.onEvent = onEvent;
+  }
+
+  /**
+   * Process a chunk of the stream
+   * @param chunk Text received from the stream
+   */
+  push(chunk: string): void {
+    // A CRLF split across chunks must not produce an extra blank line
+    if (this.pendingCR && chunk.startsWith("\n")) {
+      chunk = chunk.slice(1);
+    }
+    this.pendingCR = chunk.endsWith("\r");
+    this.buffer += chunk;
+
+    // Events are made of lines terminated by CRLF, LF or CR
+    const lines = this.buffer.split(/\r\n|\n|\r/);
+    this.buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      this.processLine(line);
+    }
+  }
+
+  /**
+   * Process a single line of the stream
+   */
+  private processLine(line: string): void {
+    // Blank line dispatches the pending event
+    if (line === "") {
+      this.dispatch();
+      return;
+    }
+
+    // Comment line
+    if (line.startsWith(":")) {
+      return;
+    }
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case "event":
+        this.eventType = value;
+        break;
+      case "data":
+        this.dataLines.push(value);
+        break;
+      case "id":
+        if (!value.includes("\0")) {
+          this.eventId = value;
+        }
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Deliver the pending event and reset per-event fields
+   */
+  private dispatch(): void {
+    if (this.dataLines.length > 0) {
+      this.onEvent({
+        event: this.eventType || "message",
+        data: this.dataLines.join("\n"),
+        id: this.eventId,
+        retry: this.retry,
+      });
+    }
+
+    this.eventType = "";
+    this.dataLines = [];
+    this.retry = undefined;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Unit tests for SseTransport
+ *
+ * Runs the transport against a local Node HTTP server standing in for a
+ * 2024-11-05 HTTP+SSE MCP server.
+ */
+
+import * as http from "http";
+import { AddressInfo, Socket } from "net";
+import { SseTransport } from "./SseTransport";
+import { BaseMCPClient } from "./BaseMCPClient";
+import { Transport } from "./Transport";
+import { ConnectionState, JSONRPCMessage, TransportCloseInfo } from "./types";
+
+/**
+ * Local stand-in for a legacy HTTP+SSE MCP server
+ */
+class LegacyServer {
+  posts: JSONRPCMessage[] = [];
+  stream?: http.ServerResponse;
+  sendEndpoint = true;
+  answerRequests = true;
+  private server: http.Server;
+  private sockets = new Set<Socket>();
+
+  constructor() {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    this.server.on("connection", (socket) => {
+      this.sockets.add(socket);
+      socket.on("close", () => this.sockets.delete(socket));
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async close(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.method === "GET" && req.url === "/sse") {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      if (this.sendEndpoint) {
+        res.write("event: endpoint\ndata: /messages?sessionId=abc\n\n");
+      } else {
+        res.flushHeaders();
+      }
+      this.stream = res;
+      return;
+    }
+
+    if (req.method === "POST" && req.url === "/messages?sessionId=abc") {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const message = JSON.parse(raw) as JSONRPCMessage;
+        this.posts.push(message);
+        res.writeHead(202).end("Accepted");
+
+        if (message.id !== undefined && this.answerRequests) {
+          this.stream?.write(
+            `event: message\ndata: ${JSON.stringify({
+              jsonrpc: "2.0",
+              id: message.id,
+              result: { method: message.method },
+            })}\n\n`
+          );
+        }
+      });
+      return;
+    }
+
+    res.writeHead(404).end("Not Found");
+  }
+}
+
+const mockOutputChannel = {
+  trace: jest.fn(),
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  append: jest.fn(),
+  appendLine: jest.fn(),
+  clear: jest.fn(),
+  show: jest.fn(),
+  hide: jest.fn(),
+  dispose: jest.fn(),
+};
+
+describe("SseTransport", () => {
+  let server: LegacyServer;
+  let baseUrl: string;
+  let transport: SseTransport;
+
+  beforeEach(async () => {
+    server = new LegacyServer();
+    baseUrl = await server.listen();
+    transport = new SseTransport({ url: `${baseUrl}/sse` });
+  });
+
+  afterEach(async () => {
+    await transport.close();
+    await server.close();
+  });
+
+  it("should connect once the endpoint event arrives", async () => {
+    await transport.start();
+
+    expect(transport.isAlive()).toBe(true);
+    expect(transport.getMessageEndpoint()).toBe(
+      `${baseUrl}/messages?sessionId=abc`
+    );
+    expect(transport.getInfo()).toEqual({
+      type: "sse",
+      endpoint: `${baseUrl}/sse`,
+      sessionId: "abc",
+    });
+  });
+
+  it("should POST messages and receive responses on the stream", async () => {
+    await transport.start();
+
+    const response = new Promise<JSONRPCMessage>((resolve) =>
+      transport.onMessage(resolve)
+    );
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+
+    expect(server.posts).toEqual([
+      { jsonrpc: "2.0", id: 1, method: "tools/list" },
+    ]);
+    expect((await response).result).toEqual({ method: "tools/list" });
+  });
+
+  it("should fail to start when the endpoint event never arrives", async () => {
+    server.sendEndpoint = false;
+    transport = new SseTransport({
+      url: `${baseUrl}/sse`,
+      endpointTimeoutMs: 50,
+    });
+
+    await expect(transport.start()).rejects.toThrow(
+      "No endpoint event received within 50ms"
+    );
+    expect(transport.isAlive()).toBe(false);
+  });
+
+  it("should fail to start when the stream URL is wrong", async () => {
+    transport = new SseTransport({ url: `${baseUrl}/missing` });
+
+    await expect(transport.start()).rejects.toThrow("HTTP 404");
+  });
+
+  it("should report a dropped stream as a close", async () => {
+    await transport.start();
+
+    const closed = new Promise<TransportCloseInfo>((resolve) =>
+      transport.onClose(resolve)
+    );
+    server.stream?.end();
+
+    expect((await closed).reason).toBe("SSE stream closed");
+    expect(transport.isAlive()).toBe(false);
+  });
+
+  describe("with BaseMCPClient", () => {
+    class LegacyClient extends BaseMCPClient {
+      constructor(private readonly url: string) {
+        super("LegacyExtension", mockOutputChannel, {
+          timeout: {
+            initializationTimeoutMs: 1000,
+            standardRequestTimeoutMs: 1000,
+            toolsListTimeoutMs: 1000,
+          },
+        });
+      }
+
+      protected createTransport(): Transport {
+        return new SseTransport({ url: this.url });
+      }
+
+      protected async onServerReady(): Promise<void> {}
+
+      request(method: string): Promise<unknown> {
+        return this.sendRequest(method, {});
+      }
+    }
+
+    it("should connect and apply request timeouts", async () => {
+      const client = new LegacyClient(`${baseUrl}/sse`);
+
+      await client.start();
+      expect(client.getConnectionStatus().state).toBe(
+        ConnectionState.CONNECTED
+      );
+      expect(client.getDiagnostics().sessionId).toBe("abc");
+
+      server.answerRequests = false;
+      await expect(client.request("tools/list")).rejects.toThrow(
+        "Request timeout after 1000ms: tools/list"
+      );
+      expect(client.getDiagnostics().pendingRequestCount).toBe(0);
+
+      await client.stop();
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * SseTransport - Talks to an MCP server over the legacy HTTP+SSE transport
+ *
+ * Implements the 2024-11-05 transport: the client opens a GET event stream,
+ * the server announces a POST URL in an "endpoint" event, and every client
+ * message is POSTed to that URL. Server messages arrive as "message" events
+ * on the original stream.
+ */
+
+import * as http from "http";
+import { JSONRPCMessage, TransportInfo } from "./types";
+import { BaseTransport } from "./Transport";
+import { SseParser } from "./SseParser";
+import { HttpStatusError, readBody, sendHttpRequest } from "./httpUtils";
+
+/**
+ * Options for connecting to a legacy HTTP+SSE endpoint
+ */
+export interface SseTransportOptions {
+  /** URL of the SSE stream (usually ending in /sse) */
+  url: string;
+  /** Extra headers sent with every request (e.g. Authorization) */
+  headers?: Record<string, string>;
+  /** Time to wait for the server's endpoint event (default: 10000) */
+  endpointTimeoutMs?: number;
+}
+
+/**
+ * SseTransport
+ */
+export class SseTransport extends BaseTransport {
+  private readonly url: URL;
+  private readonly headers: Record<string, string>;
+  private readonly endpointTimeoutMs: number;
+  private endpoint?: URL;
+  private streamRequest?: http.ClientRequest;
+  private connected: boolean = false;
+  private closed: boolean = false;
+
+  constructor(options: SseTransportOptions) {
+    super();
+    this.url = new URL(options.url);
+    this.headers = options.headers ?? {};
+    this.endpointTimeoutMs = options.endpointTimeoutMs ?? 10000;
+  }
+
+  /**
+   * Open the event stream and wait for the endpoint event
+   */
+  async start(): Promise<void> {
+    this.closed = false;
+
+    const res = await sendHttpRequest(
+      this.url,
+      "GET",
+      { ...this.headers, Accept: "text/event-stream" },
+      undefined,
+      (req) => (this.streamRequest = req)
+    );
+
+    const status = res.statusCode ?? 0;
+    const contentType = res.headers["content-type"] ?? "";
+    if (status !== 200 || !contentType.includes("text/event-stream")) {
+      const body = await readBody(res);
+      this.streamRequest?.destroy();
+      throw new HttpStatusError(status === 200 ? 406 : status, body);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.streamRequest?.destroy();
+        reject(
+          new Error(
+            `No endpoint event received within ${this.endpointTimeoutMs}ms`
+          )
+        );
+      }, this.endpointTimeoutMs);
+
+      const parser = new SseParser((event) => {
+        if (event.event === "endpoint") {
+          this.endpoint = new URL(event.data.trim(), this.url);
+          this.connected = true;
+          clearTimeout(timer);
+          resolve();
+          return;
+        }
+
+        if (event.event === "message" && event.data.trim()) {
+          let message: JSONRPCMessage;
+          try {
+            message = JSON.parse(event.data);
+          } catch {
+            this.emitParseError(event.data);
+            return;
+          }
+          this.emitMessage(message);
+        }
+      });
+
+      res.setEncoding("utf8");
+      res.on("data", (chunk: string) => parser.push(chunk));
+
+      let finished = false;
+      const onDisconnect = () => {
+        if (finished) {
+          return;
+        }
+        finished = true;
+        clearTimeout(timer);
+
+        if (!this.connected) {
+          reject(new Error("SSE stream closed before endpoint event"));
+          return;
+        }
+
+        const wasClosed = this.closed;
+        this.connected = false;
+        if (!wasClosed) {
+          this.emitClose({
+            code: null,
+            signal: null,
+            reason: "SSE stream closed",
+          });
+        }
+      };
+      res.on("end", onDisconnect);
+      res.on("error", onDisconnect);
+      res.on("aborted", onDisconnect);
+    });
+  }
+
+  /**
+   * POST a message to the endpoint announced by the server
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.endpoint || !this.connected) {
+      throw new Error("Transport not connected");
+    }
+
+    const res = await sendHttpRequest(
+      this.endpoint,
+      "POST",
+      { ...this.headers, "Content-Type": "application/json" },
+      JSON.stringify(message)
+    );
+
+    const status = res.statusCode ?? 0;
+    const body = await readBody(res);
+    if (status < 200 || status >= 300) {
+      throw new HttpStatusError(status, body);
+    }
+  }
+
+  /**
+   * Close the event stream
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.connected = false;
+    this.streamRequest?.destroy();
+    this.streamRequest = undefined;
+  }
+
+  isAlive(): boolean {
+    return this.connected;
+  }
+
+  getInfo(): TransportInfo {
+    return {
+      type: "sse",
+      endpoint: this.url.toString(),
+      sessionId:
+        this.endpoint?.searchParams.get("sessionId") ??
+        this.endpoint?.searchParams.get("session_id") ??
+        undefined,
+    };
+  }
+
+  /**
+   * Get the POST URL announced by the server, if received
+   */
+  getMessageEndpoint(): string | undefined {
+    return this.endpoint?.toString();
+  }
+}
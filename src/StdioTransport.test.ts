@@ -0,0 +1,256 @@
+/**
+ * Unit tests for StdioTransport
+ */
+
+import { StdioTransport } from "./StdioTransport";
+import { isPidAlive } from "./processTree";
+import { JSONRPCMessage, TransportCloseInfo } from "./types";
+
+/**
+ * Minimal server that echoes every request (or batch) back as a response
+ */
+const ECHO_SERVER = `
+const readline = require("readline");
+const rl = readline.createInterface({ input: process.stdin });
+rl.on("line", (line) => {
+  if (line === "exit") process.exit(3);
+  const msg = JSON.parse(line);
+  if (Array.isArray(msg)) {
+    const replies = msg.map((m) => ({ jsonrpc: "2.0", id: m.id, result: m.params }));
+    process.stdout.write(JSON.stringify(replies) + "\\n");
+    return;
+  }
+  process.stdout.write("not json\\n");
+  process.stderr.write("echoing " + msg.method + "\\n");
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: msg.id, result: msg.params }) + "\\n");
+});
+`;
+
+function createTransport(): StdioTransport {
+  return new StdioTransport({
+    command: process.execPath,
+    args: ["-e", ECHO_SERVER],
+    env: { ...process.env } as Record<string, string>,
+  });
+}
+
+function waitFor<T>(register: (cb: (value: T) => void) => void): Promise<T> {
+  return new Promise((resolve) => register(resolve));
+}
+
+describe("StdioTransport", () => {
+  let transport: StdioTransport;
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  it("should exchange newline-delimited JSON-RPC messages", async () => {
+    transport = createTransport();
+    await transport.start();
+
+    const received = waitFor<JSONRPCMessage>((cb) => transport.onMessage(cb));
+    await transport.send({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "ping",
+      params: { a: 1 },
+    });
+
+    expect(await received).toEqual({ jsonrpc: "2.0", id: 1, result: { a: 1 } });
+  });
+
+  it("should write a batch as a single line", async () => {
+    transport = createTransport();
+    await transport.start();
+
+    const received: JSONRPCMessage[] = [];
+    const done = new Promise<void>((resolve) =>
+      transport.onMessage((message) => {
+        received.push(message);
+        if (received.length === 2) resolve();
+      })
+    );
+    await transport.sendBatch([
+      { jsonrpc: "2.0", id: 1, method: "a", params: 1 },
+      { jsonrpc: "2.0", id: 2, method: "b", params: 2 },
+    ]);
+    await done;
+
+    expect(received.map((m) => [m.id, m.result])).toEqual([
+      [1, 1],
+      [2, 2],
+    ]);
+  });
+
+  it("should report stderr output and unparseable lines", async () => {
+    transport = createTransport();
+    await transport.start();
+
+    const stderr = waitFor<string>((cb) => transport.onStderr(cb));
+    const parseError = waitFor<string>((cb) => transport.onParseError(cb));
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "ping" });
+
+    expect(await stderr).toContain("echoing ping");
+    expect(await parseError).toBe("not json");
+  });
+
+  it("should report process id and liveness", async () => {
+    transport = createTransport();
+    expect(transport.isAlive()).toBe(false);
+    expect(transport.getInfo()).toEqual({
+      type: "stdio",
+      processId: undefined,
+    });
+
+    await transport.start();
+
+    expect(transport.isAlive()).toBe(true);
+    expect(transport.getInfo().processId).toBe(transport.getProcess()?.pid);
+  });
+
+  it("should notify close listeners when the process exits", async () => {
+    transport = createTransport();
+    await transport.start();
+
+    const closed = waitFor<TransportCloseInfo>((cb) => transport.onClose(cb));
+    transport.getProcess()?.stdin?.write("exit\n");
+
+    expect(await closed).toEqual({ code: 3, signal: null });
+  });
+
+  it("should not notify close listeners when closed by the client", async () => {
+    transport = createTransport();
+    await transport.start();
+
+    const onClose = jest.fn();
+    transport.onClose(onClose);
+    await transport.close();
+
+    expect(transport.isAlive()).toBe(false);
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  describe("shutdown", () => {
+    /**
+     * Start a server that keeps running after stdin closes, optionally
+     * ignoring SIGTERM, and wait until it is ready
+     */
+    async function startStubbornServer(ignoreSigterm: boolean) {
+      transport = new StdioTransport({
+        command: process.execPath,
+        args: [
+          "-e",
+          `${
+            ignoreSigterm ? 'process.on("SIGTERM", () => {});' : ""
+          } setInterval(() => {}, 1000); process.stderr.write("ready");`,
+        ],
+        gracePeriodMs: 100,
+        killTimeoutMs: 100,
+      });
+      const ready = waitFor<string>((cb) => transport.onStderr(cb));
+      await transport.start();
+      await ready;
+      return transport.getProcess()!;
+    }
+
+    it("should let a server exit on its own once stdin is closed", async () => {
+      transport = createTransport();
+      await transport.start();
+      const child = transport.getProcess()!;
+
+      await transport.close();
+
+      expect(child.exitCode).toBe(0);
+      expect(child.signalCode).toBeNull();
+    });
+
+    it("should send SIGTERM when the server ignores stdin closing", async () => {
+      const child = await startStubbornServer(false);
+
+      await transport.close();
+
+      expect(child.signalCode).toBe("SIGTERM");
+    });
+
+    it("should escalate to SIGKILL when the server ignores SIGTERM", async () => {
+      const child = await startStubbornServer(true);
+      const started = Date.now();
+
+      await transport.close();
+
+      expect(child.signalCode).toBe("SIGKILL");
+      expect(Date.now() - started).toBeGreaterThanOrEqual(190);
+    });
+
+    (process.platform === "linux" ? it : it.skip)(
+      "should stop processes the server spawned",
+      async () => {
+        // Exits when stdin closes but leaves its own child running
+        transport = new StdioTransport({
+          command: process.execPath,
+          args: [
+            "-e",
+            `const child = require("child_process").spawn(process.execPath, ["-e", "setInterval(() => {}, 1000)"], { stdio: "ignore" });
+            process.stdin.on("end", () => process.exit(0)).resume();
+            process.stderr.write(String(child.pid));`,
+          ],
+          gracePeriodMs: 100,
+          killTimeoutMs: 100,
+        });
+        const grandchildPid = waitFor<string>((cb) => transport.onStderr(cb));
+        await transport.start();
+        const pid = transport.getProcess()!.pid;
+        const grandchild = Number(await grandchildPid);
+
+        expect(transport.getProcessTree()).toEqual([pid, grandchild]);
+        expect(transport.getInfo().processTree).toEqual([pid, grandchild]);
+
+        await transport.close();
+
+        expect(isPidAlive(grandchild)).toBe(false);
+      }
+    );
+
+    (process.platform === "linux" ? it : it.skip)(
+      "should stop spawned processes that left the process group",
+      async () => {
+        // The child starts its own session, so the group signal misses it
+        transport = new StdioTransport({
+          command: process.execPath,
+          args: [
+            "-e",
+            `const child = require("child_process").spawn(process.execPath, ["-e", "setInterval(() => {}, 1000)"], { stdio: "ignore", detached: true });
+            process.stdin.on("end", () => process.exit(0)).resume();
+            process.stderr.write(String(child.pid));`,
+          ],
+          gracePeriodMs: 100,
+          killTimeoutMs: 100,
+        });
+        const grandchildPid = waitFor<string>((cb) => transport.onStderr(cb));
+        await transport.start();
+        const grandchild = Number(await grandchildPid);
+
+        try {
+          await transport.close();
+
+          expect(isPidAlive(grandchild)).toBe(false);
+        } finally {
+          try {
+            process.kill(grandchild, "SIGKILL");
+          } catch {
+            // Already gone
+          }
+        }
+      }
+    );
+  });
+
+  it("should reject sends before start", async () => {
+    transport = createTransport();
+
+    await expect(
+      transport.send({ jsonrpc: "2.0", method: "ping" })
+    ).rejects.toThrow("Server process not available");
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * StdioTransport - Talks to an MCP server spawned as a child process
+ *
+ * Messages are newline-delimited JSON written to the server's stdin and
+ * read from its stdout. Anything the server writes to stderr is forwarded
+ * to stderr listeners.
+ *
+ * Closing follows the MCP stdio shutdown sequence: stdin is closed so the
+ * server can exit on its own, then SIGTERM and finally SIGKILL are sent if
+ * it is still running after each wait.
+ *
+ * Outside Windows the server is spawned as the leader of its own process
+ * group, so the signals also reach anything it spawned (e.g. the real server
+ * behind an npx wrapper). Closing waits until that whole tree has exited.
+ */
+
+import { ChildProcess, spawn } from "child_process";
+import { JSONRPCMessage, TransportInfo } from "./types";
+import { BaseTransport } from "./Transport";
+import { isPidAlive, listProcessTree, signalProcessTree } from "./processTree";
+
+/**
+ * Options for spawning the server process
+ */
+export interface StdioTransportOptions {
+  /** Command to execute */
+  command: string;
+  /** Command arguments */
+  args: string[];
+  /** Environment variables for the server process */
+  env?: Record<string, string>;
+  /** Working directory for the server process */
+  cwd?: string;
+  /** Time to wait for the server to exit after stdin is closed (default: 2000ms) */
+  gracePeriodMs?: number;
+  /** Time to wait after SIGTERM before sending SIGKILL (default: 2000ms) */
+  killTimeoutMs?: number;
+}
+
+/**
+ * Default waits of the shutdown sequence
+ */
+const DEFAULT_GRACE_PERIOD_MS = 2000;
+const DEFAULT_KILL_TIMEOUT_MS = 2000;
+
+/**
+ * How often to check whether the server's descendants have exited
+ */
+const TREE_POLL_INTERVAL_MS = 50;
+
+/**
+ * StdioTransport
+ *
+ * Default transport used by BaseMCPClient.
+ */
+export class StdioTransport extends BaseTransport {
+  private readonly options: StdioTransportOptions;
+  private process?: ChildProcess;
+  private stderrListeners = new Set<(text: string) => void>();
+
+  constructor(options: StdioTransportOptions) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Spawn the server process and start reading its output
+   */
+  async start(): Promise<void> {
+    const { command, args, env, cwd } = this.options;
+
+    this.process = spawn(command, args, {
+      env,
+      cwd,
+      stdio: ["pipe", "pipe", "pipe"],
+      // Own process group, so the whole tree can be signalled on close
+      detached: process.platform !== "win32",
+    });
+
+    this.process.on("exit", (code, signal) => {
+      this.emitClose({ code, signal });
+    });
+
+    this.process.on("error", (error) => {
+      this.emitError(error);
+    });
+
+    this.process.stderr?.on("data", (data) => {
+      const text = data.toString();
+      for (const listener of this.stderrListeners) {
+        listener(text);
+      }
+    });
+
+    // Handle stdout (newline-delimited JSON-RPC messages)
+    const readLine = this.createLineReader();
+    this.process.stdout?.on("data", (data) => {
+      readLine(data.toString());
+    });
+  }
+
+  /**
+   * Write a message to the server's stdin
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    this.writeLine(message);
+  }
+
+  /**
+   * Write a batch to the server's stdin as a single line
+   */
+  async sendBatch(messages: JSONRPCMessage[]): Promise<void> {
+    this.writeLine(messages);
+  }
+
+  /**
+   * Shut the server process down without notifying close listeners.
+   * Resolves once the process and everything it spawned have exited.
+   */
+  async close(): Promise<void> {
+    const child = this.process;
+    if (!child) {
+      return;
+    }
+    this.process = undefined;
+
+    // Remove all event listeners to prevent race conditions
+    child.removeAllListeners();
+    child.stdout?.removeAllListeners();
+    child.stderr?.removeAllListeners();
+    child.stdin?.removeAllListeners();
+
+    const pid = child.pid;
+    if (pid === undefined || !isProcessAlive(child)) {
+      return;
+    }
+
+    // Errors while shutting down (EPIPE on stdin, a failed kill) are
+    // expected and must not surface as unhandled 'error' events
+    const ignore = () => {};
+    child.on("error", ignore);
+    child.stdin?.on("error", ignore);
+
+    const exited = new Promise<void>((resolve) =>
+      child.once("exit", () => resolve())
+    );
+    const { gracePeriodMs, killTimeoutMs } = this.options;
+
+    const killTimeout = killTimeoutMs ?? DEFAULT_KILL_TIMEOUT_MS;
+
+    // Descendants that left the process group can no longer be traced back
+    // to the server once it has exited, so remember them now
+    const tree = listProcessTree(pid);
+
+    child.stdin?.end();
+    if (
+      await waitForTreeExit(
+        exited,
+        pid,
+        tree,
+        gracePeriodMs ?? DEFAULT_GRACE_PERIOD_MS
+      )
+    ) {
+      return;
+    }
+
+    signalProcessTree(pid, "SIGTERM", tree);
+    if (await waitForTreeExit(exited, pid, tree, killTimeout)) {
+      return;
+    }
+
+    signalProcessTree(pid, "SIGKILL", tree);
+    await exited;
+    // SIGKILL cannot be caught, so descendants only need time to be reaped
+    await waitForTreeExit(exited, pid, tree, killTimeout);
+  }
+
+  /**
+   * Check if the server process is alive
+   */
+  isAlive(): boolean {
+    return this.process !== undefined && isProcessAlive(this.process);
+  }
+
+  getInfo(): TransportInfo {
+    return {
+      type: "stdio",
+      processId: this.process?.pid,
+      processTree: this.isAlive() ? this.getProcessTree() : undefined,
+    };
+  }
+
+  /**
+   * Get the PIDs of the server process and everything it spawned
+   * @returns Running PIDs, the server process first; empty if not running
+   */
+  getProcessTree(): number[] {
+    const pid = this.process?.pid;
+    return pid !== undefined ? listProcessTree(pid) : [];
+  }
+
+  /**
+   * Get the spawned server process, if any
+   */
+  getProcess(): ChildProcess | undefined {
+    return this.process;
+  }
+
+  /**
+   * Get the command line used to spawn the server
+   */
+  getCommand(): { command: string; args: string[] } {
+    return { command: this.options.command, args: [...this.options.args] };
+  }
+
+  /**
+   * Register a listener for server stderr output
+   * @param listener Callback invoked with each stderr chunk
+   * @returns Disposable to unregister the listener
+   */
+  onStderr(listener: (text: string) => void): { dispose: () => void } {
+    this.stderrListeners.add(listener);
+    return {
+      dispose: () => {
+        this.stderrListeners.delete(listener);
+      },
+    };
+  }
+
+  /**
+   * Write one newline-delimited JSON value to the server's stdin
+   */
+  private writeLine(data: JSONRPCMessage | JSONRPCMessage[]): void {
+    if (!this.process || !this.process.stdin) {
+      throw new Error("Server process not available");
+    }
+
+    this.process.stdin.write(JSON.stringify(data) + "\n");
+  }
+}
+
+/**
+ * Check whether a child process is still running
+ */
+function isProcessAlive(child: ChildProcess): boolean {
+  // Check if process has exited or was killed by a signal
+  if (child.exitCode !== null || child.signalCode !== null) {
+    return false;
+  }
+
+  // Try to send signal 0 (doesn't actually send a signal, just checks if process exists)
+  try {
+    process.kill(child.pid!, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wait for a process to exit, up to a time limit
+ * @returns true if it exited in time
+ */
+function waitForExit(
+  exited: Promise<void>,
+  timeoutMs: number
+): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  return Promise.race([exited.then(() => true), timedOut]).finally(() =>
+    clearTimeout(timer)
+  );
+}
+
+/**
+ * Wait for a process and its descendants to exit, up to a time limit
+ * @param tree Descendants listed before shutdown began
+ * @returns true if all of them exited in time
+ */
+async function waitForTreeExit(
+  exited: Promise<void>,
+  pid: number,
+  tree: number[],
+  timeoutMs: number
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  if (!(await waitForExit(exited, timeoutMs))) {
+    return false;
+  }
+
+  while (listProcessTree(pid).length > 0 || tree.some(isPidAlive)) {
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await new Promise((resolve) => setTimeout(resolve, TREE_POLL_INTERVAL_MS));
+  }
+  return true;
+}
@@ -0,0 +1,456 @@
+/**
+ * Unit tests for StreamableHttpTransport
+ *
+ * Runs the transport against a local Node HTTP server standing in for a
+ * remote MCP server.
+ */
+
+import * as http from "http";
+import { AddressInfo } from "net";
+import { StreamableHttpTransport } from "./StreamableHttpTransport";
+import { BaseMCPClient } from "./BaseMCPClient";
+import { Transport } from "./Transport";
+import { ConnectionState, JSONRPCMessage, TransportCloseInfo } from "./types";
+
+interface RecordedRequest {
+  method: string;
+  headers: http.IncomingHttpHeaders;
+  body?: JSONRPCMessage;
+  batch?: JSONRPCMessage[];
+}
+
+/**
+ * Local stand-in for a Streamable HTTP MCP server
+ */
+class StandInServer {
+  requests: RecordedRequest[] = [];
+  eventStreams: http.ServerResponse[] = [];
+  sessionId = "session-123";
+  expireSession = false;
+  dropStreamAfterFirstEvent = false;
+  allowEventStream = true;
+  private server: http.Server;
+  private sockets = new Set<import("net").Socket>();
+
+  constructor() {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    this.server.on("connection", (socket) => {
+      this.sockets.add(socket);
+      socket.on("close", () => this.sockets.delete(socket));
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/mcp`;
+  }
+
+  async close(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  pushToEventStreams(message: JSONRPCMessage): void {
+    for (const res of this.eventStreams) {
+      res.write(`data: ${JSON.stringify(message)}\n\n`);
+    }
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const parsed = raw ? JSON.parse(raw) : undefined;
+      if (Array.isArray(parsed)) {
+        this.handleBatch(req, res, parsed);
+        return;
+      }
+      const body = parsed as JSONRPCMessage | undefined;
+      this.requests.push({ method: req.method!, headers: req.headers, body });
+
+      if (req.method === "DELETE") {
+        res.writeHead(200).end();
+        return;
+      }
+
+      if (req.method === "GET") {
+        this.handleGet(req, res);
+        return;
+      }
+
+      if (this.expireSession) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      if (body?.method === "fail") {
+        res.writeHead(500).end("boom");
+        return;
+      }
+
+      if (!body || body.id === undefined) {
+        res.writeHead(202).end();
+        return;
+      }
+
+      if (body.method === "initialize") {
+        res.writeHead(200, {
+          "Content-Type": "application/json",
+          "Mcp-Session-Id": this.sessionId,
+        });
+        res.end(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: body.id,
+            result: { protocolVersion: "2025-03-26", capabilities: {} },
+          })
+        );
+        return;
+      }
+
+      // Everything else is answered over SSE
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.write(
+        `id: 1\ndata: ${JSON.stringify({
+          jsonrpc: "2.0",
+          method: "notifications/progress",
+          params: { progress: 1 },
+        })}\n\n`
+      );
+      if (this.dropStreamAfterFirstEvent) {
+        setTimeout(() => res.destroy(), 10);
+        return;
+      }
+      res.end(
+        `id: 2\ndata: ${JSON.stringify({
+          jsonrpc: "2.0",
+          id: body.id,
+          result: { echo: body.params },
+        })}\n\n`
+      );
+    });
+  }
+
+  private handleBatch(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    batch: JSONRPCMessage[]
+  ): void {
+    this.requests.push({ method: req.method!, headers: req.headers, batch });
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify(
+        batch.map((message) => ({
+          jsonrpc: "2.0",
+          id: message.id,
+          result: { method: message.method },
+        }))
+      )
+    );
+  }
+
+  private handleGet(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (!this.allowEventStream) {
+      res.writeHead(405).end();
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "text/event-stream" });
+    res.flushHeaders();
+
+    // Resumption replays the response the dropped stream never delivered
+    const lastPost = [...this.requests]
+      .reverse()
+      .find((r) => r.method === "POST" && r.body?.id !== undefined);
+    if (req.headers["last-event-id"] === "1" && lastPost) {
+      res.write(
+        `id: 2\ndata: ${JSON.stringify({
+          jsonrpc: "2.0",
+          id: lastPost.body!.id,
+          result: { resumed: true },
+        })}\n\n`
+      );
+    }
+    this.eventStreams.push(res);
+  }
+}
+
+function nextMessage(
+  transport: Transport,
+  predicate: (message: JSONRPCMessage) => boolean = () => true
+): Promise<JSONRPCMessage> {
+  return new Promise((resolve) => {
+    const listener = transport.onMessage((message) => {
+      if (predicate(message)) {
+        listener.dispose();
+        resolve(message);
+      }
+    });
+  });
+}
+
+const mockOutputChannel = {
+  trace: jest.fn(),
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  append: jest.fn(),
+  appendLine: jest.fn(),
+  clear: jest.fn(),
+  show: jest.fn(),
+  hide: jest.fn(),
+  dispose: jest.fn(),
+};
+
+describe("StreamableHttpTransport", () => {
+  let server: StandInServer;
+  let url: string;
+  let transport: StreamableHttpTransport;
+
+  beforeEach(async () => {
+    server = new StandInServer();
+    url = await server.listen();
+    transport = new StreamableHttpTransport({ url, reconnectDelayMs: 10 });
+  });
+
+  afterEach(async () => {
+    await transport.close();
+    await server.close();
+  });
+
+  async function initialize(): Promise<void> {
+    await transport.start();
+    const response = nextMessage(transport);
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "initialize" });
+    await response;
+    await transport.send({
+      jsonrpc: "2.0",
+      method: "notifications/initialized",
+    });
+  }
+
+  it("should receive JSON responses and adopt the session id", async () => {
+    await transport.start();
+
+    const response = nextMessage(transport);
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "initialize" });
+
+    expect((await response).id).toBe(1);
+    expect(transport.getSessionId()).toBe("session-123");
+    expect(transport.getInfo()).toEqual({
+      type: "streamable-http",
+      endpoint: url,
+      sessionId: "session-123",
+    });
+  });
+
+  it("should send the session id with subsequent requests", async () => {
+    await initialize();
+
+    await transport.send({
+      jsonrpc: "2.0",
+      method: "notifications/roots/list_changed",
+    });
+
+    const post = server.requests.filter((r) => r.method === "POST")[2];
+    expect(post.headers["mcp-session-id"]).toBe("session-123");
+    expect(post.headers["accept"]).toBe("application/json, text/event-stream");
+  });
+
+  it("should deliver messages from an SSE response stream", async () => {
+    await initialize();
+
+    const notification = nextMessage(transport, (m) => m.method !== undefined);
+    const response = nextMessage(transport, (m) => m.id === 2);
+    await transport.send({
+      jsonrpc: "2.0",
+      id: 2,
+      method: "tools/call",
+      params: { name: "echo" },
+    });
+
+    expect((await notification).method).toBe("notifications/progress");
+    expect((await response).result).toEqual({ echo: { name: "echo" } });
+  });
+
+  it("should open a GET stream for server-initiated messages", async () => {
+    await initialize();
+    await waitUntil(() => server.eventStreams.length === 1);
+
+    const message = nextMessage(transport);
+    server.pushToEventStreams({
+      jsonrpc: "2.0",
+      method: "notifications/tools/list_changed",
+    });
+
+    expect((await message).method).toBe("notifications/tools/list_changed");
+  });
+
+  it("should open the GET stream only after the handshake completes", async () => {
+    await transport.start();
+    const response = nextMessage(transport);
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "initialize" });
+    await response;
+
+    // BaseMCPClient sets the negotiated version before sending initialized
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(server.requests.some((r) => r.method === "GET")).toBe(false);
+    transport.setProtocolVersion("2025-06-18");
+    await transport.send({
+      jsonrpc: "2.0",
+      method: "notifications/initialized",
+    });
+    await waitUntil(() => server.eventStreams.length === 1);
+
+    const order = server.requests.map((r) => r.body?.method ?? r.method);
+    expect(order).toEqual(["initialize", "notifications/initialized", "GET"]);
+    const get = server.requests.find((r) => r.method === "GET");
+    expect(get?.headers["mcp-protocol-version"]).toBe("2025-06-18");
+  });
+
+  it("should tolerate servers without a GET stream", async () => {
+    server.allowEventStream = false;
+    await initialize();
+    await waitUntil(() => server.requests.some((r) => r.method === "GET"));
+
+    expect(transport.isAlive()).toBe(true);
+  });
+
+  it("should resume a dropped stream with Last-Event-ID", async () => {
+    server.allowEventStream = true;
+    transport = new StreamableHttpTransport({
+      url,
+      reconnectDelayMs: 10,
+      openEventStream: false,
+    });
+    await initialize();
+    server.dropStreamAfterFirstEvent = true;
+
+    const response = nextMessage(transport, (m) => m.id === 2);
+    await transport.send({ jsonrpc: "2.0", id: 2, method: "tools/call" });
+
+    expect((await response).result).toEqual({ resumed: true });
+    const get = server.requests.find((r) => r.method === "GET");
+    expect(get?.headers["last-event-id"]).toBe("1");
+  });
+
+  it("should report session expiry as a close", async () => {
+    await initialize();
+    server.expireSession = true;
+
+    const closed = new Promise<TransportCloseInfo>((resolve) =>
+      transport.onClose(resolve)
+    );
+
+    await expect(
+      transport.send({ jsonrpc: "2.0", id: 2, method: "tools/list" })
+    ).rejects.toThrow("MCP session expired");
+    expect((await closed).reason).toBe("MCP session expired");
+    expect(transport.isAlive()).toBe(false);
+  });
+
+  it("should reject on HTTP errors", async () => {
+    await initialize();
+
+    await expect(
+      transport.send({ jsonrpc: "2.0", id: 2, method: "fail" })
+    ).rejects.toThrow("HTTP 500 from MCP endpoint: boom");
+  });
+
+  it("should send MCP-Protocol-Version from 2025-06-18 on", async () => {
+    await initialize();
+
+    transport.setProtocolVersion("2025-03-26");
+    await transport.send({ jsonrpc: "2.0", method: "notifications/a" });
+    transport.setProtocolVersion("2025-06-18");
+    await transport.send({ jsonrpc: "2.0", method: "notifications/b" });
+
+    const [older, newer] = server.requests
+      .filter((r) => /^notifications\/[ab]$/.test(r.body?.method ?? ""))
+      .map((r) => r.headers["mcp-protocol-version"]);
+    expect(older).toBeUndefined();
+    expect(newer).toBe("2025-06-18");
+  });
+
+  it("should POST a batch as one JSON array", async () => {
+    await initialize();
+
+    const received: JSONRPCMessage[] = [];
+    const done = new Promise<void>((resolve) =>
+      transport.onMessage((message) => {
+        received.push(message);
+        if (received.length === 2) resolve();
+      })
+    );
+    await transport.sendBatch([
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { jsonrpc: "2.0", id: 3, method: "prompts/list" },
+    ]);
+    await done;
+
+    const batchRequest = server.requests.find((r) => r.batch);
+    expect(batchRequest?.batch?.map((m) => m.id)).toEqual([2, 3]);
+    expect(received.map((m) => m.result)).toEqual([
+      { method: "tools/list" },
+      { method: "prompts/list" },
+    ]);
+  });
+
+  it("should terminate the session on close", async () => {
+    await initialize();
+
+    await transport.close();
+
+    const del = server.requests.find((r) => r.method === "DELETE");
+    expect(del?.headers["mcp-session-id"]).toBe("session-123");
+    expect(transport.getSessionId()).toBeUndefined();
+  });
+
+  describe("with BaseMCPClient", () => {
+    class HttpClient extends BaseMCPClient {
+      constructor(private readonly endpoint: string) {
+        super("HttpExtension", mockOutputChannel);
+      }
+
+      protected createTransport(): Transport {
+        return new StreamableHttpTransport({ url: this.endpoint });
+      }
+
+      protected async onServerReady(): Promise<void> {}
+
+      call(name: string, args: unknown): Promise<unknown> {
+        return this.callTool(name, args);
+      }
+    }
+
+    it("should run the request flow and report the endpoint", async () => {
+      const client = new HttpClient(url);
+
+      await client.start();
+      const result = await client.call("echo", { text: "hi" });
+      const diagnostics = client.getDiagnostics();
+      await client.stop();
+
+      expect(result).toEqual({
+        echo: { name: "echo", arguments: { text: "hi" } },
+      });
+      expect(diagnostics.connectionState).toBe(ConnectionState.CONNECTED);
+      expect(diagnostics.endpoint).toBe(url);
+      expect(diagnostics.sessionId).toBe("session-123");
+      expect(diagnostics.processId).toBeUndefined();
+    });
+  });
+});
+
+async function waitUntil(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+}
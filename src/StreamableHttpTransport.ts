@@ -0,0 +1,420 @@
+/**
+ * StreamableHttpTransport - Talks to a remote MCP server over Streamable HTTP
+ *
+ * Every client message is POSTed to the MCP endpoint. The server answers
+ * either with a JSON body or with an SSE stream carrying the response (and
+ * any related server messages). A standalone GET stream receives messages
+ * the server sends on its own. Dropped streams are resumed with
+ * Last-Event-ID when the server tags its events with IDs.
+ */
+
+import * as http from "http";
+import { JSONRPCMessage, TransportInfo } from "./types";
+import { BaseTransport } from "./Transport";
+import { SseParser } from "./SseParser";
+import { HttpStatusError, readBody, sendHttpRequest } from "./httpUtils";
+import {
+  PROTOCOL_VERSION_HEADER,
+  requiresProtocolVersionHeader,
+} from "./protocolVersions";
+
+/**
+ * Options for connecting to a Streamable HTTP endpoint
+ */
+export interface StreamableHttpTransportOptions {
+  /** MCP endpoint URL */
+  url: string;
+  /** Extra headers sent with every request (e.g. Authorization) */
+  headers?: Record<string, string>;
+  /** Open a GET stream for server-initiated messages (default: true) */
+  openEventStream?: boolean;
+  /** Delay before resuming a dropped stream when the server sent no retry hint (default: 1000) */
+  reconnectDelayMs?: number;
+  /** Maximum consecutive attempts to resume a dropped stream (default: 3) */
+  maxReconnectAttempts?: number;
+}
+
+/**
+ * Header carrying the session ID assigned by the server
+ */
+const SESSION_HEADER = "mcp-session-id";
+
+/**
+ * StreamableHttpTransport
+ */
+export class StreamableHttpTransport extends BaseTransport {
+  private readonly url: URL;
+  private readonly options: Required<
+    Omit<StreamableHttpTransportOptions, "url">
+  >;
+  private sessionId?: string;
+  private protocolVersion?: string;
+  private started: boolean = false;
+  private closed: boolean = false;
+  private reconnectDelayMs: number;
+  private openRequests = new Set<http.ClientRequest>();
+  private reconnectTimers = new Set<NodeJS.Timeout>();
+
+  constructor(options: StreamableHttpTransportOptions) {
+    super();
+    this.url = new URL(options.url);
+    this.options = {
+      headers: options.headers ?? {},
+      openEventStream: options.openEventStream ?? true,
+      reconnectDelayMs: options.reconnectDelayMs ?? 1000,
+      maxReconnectAttempts: options.maxReconnectAttempts ?? 3,
+    };
+    this.reconnectDelayMs = this.options.reconnectDelayMs;
+  }
+
+  /**
+   * Mark the transport as ready. No connection is opened until the first
+   * message is sent.
+   */
+  async start(): Promise<void> {
+    this.started = true;
+    this.closed = false;
+  }
+
+  /**
+   * POST a message to the MCP endpoint
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    await this.post([message], JSON.stringify(message));
+  }
+
+  /**
+   * POST several messages as one JSON-RPC batch
+   */
+  async sendBatch(messages: JSONRPCMessage[]): Promise<void> {
+    await this.post(messages, JSON.stringify(messages));
+  }
+
+  /**
+   * Use the negotiated version for the MCP-Protocol-Version header
+   */
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  /**
+   * Abort open streams and terminate the session
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    for (const timer of this.reconnectTimers) {
+      clearTimeout(timer);
+    }
+    this.reconnectTimers.clear();
+
+    for (const req of this.openRequests) {
+      req.destroy();
+    }
+    this.openRequests.clear();
+
+    if (this.sessionId) {
+      try {
+        const res = await this.request("DELETE", {}, undefined, true);
+        res.resume();
+      } catch {
+        // Session termination is best-effort
+      }
+      this.sessionId = undefined;
+    }
+  }
+
+  isAlive(): boolean {
+    return this.started && !this.closed;
+  }
+
+  getInfo(): TransportInfo {
+    return {
+      type: "streamable-http",
+      endpoint: this.url.toString(),
+      sessionId: this.sessionId,
+    };
+  }
+
+  /**
+   * Get the session ID assigned by the server, if any
+   */
+  getSessionId(): string | undefined {
+    return this.sessionId;
+  }
+
+  /**
+   * POST a body to the MCP endpoint and route the response
+   * @param messages Messages contained in the body
+   * @param body Serialized message or batch
+   */
+  private async post(messages: JSONRPCMessage[], body: string): Promise<void> {
+    if (!this.started || this.closed) {
+      throw new Error("Transport not connected");
+    }
+
+    const res = await this.request(
+      "POST",
+      {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body
+    );
+
+    const sessionId = res.headers[SESSION_HEADER];
+    if (typeof sessionId === "string") {
+      this.sessionId = sessionId;
+    }
+
+    const status = res.statusCode ?? 0;
+
+    if (status === 404 && this.sessionId) {
+      res.resume();
+      this.handleSessionExpired();
+      throw new Error("MCP session expired");
+    }
+
+    if (status < 200 || status >= 300) {
+      throw new HttpStatusError(status, await readBody(res));
+    }
+
+    // Listen for server-initiated messages once the handshake is complete,
+    // so the GET carries the negotiated MCP-Protocol-Version
+    if (
+      this.options.openEventStream &&
+      messages.some((message) => message.method === "notifications/initialized")
+    ) {
+      this.openEventStream(undefined, 0);
+    }
+
+    const contentType = res.headers["content-type"] ?? "";
+
+    if (contentType.includes("text/event-stream")) {
+      const expected = new Set(
+        messages
+          .filter((message) => message.method !== undefined)
+          .map((message) => message.id)
+          .filter((id) => id !== undefined)
+      );
+      this.consumeStream(res, expected);
+      return;
+    }
+
+    if (contentType.includes("application/json")) {
+      const responseBody = await readBody(res);
+      if (responseBody.trim()) {
+        this.deliver(responseBody);
+      }
+      return;
+    }
+
+    // 202 Accepted (or any other body-less acknowledgement)
+    res.resume();
+  }
+
+  /**
+   * Parse a JSON body (single message or batch) and deliver its messages
+   * @returns The delivered messages
+   */
+  private deliver(raw: string): JSONRPCMessage[] {
+    let parsed: JSONRPCMessage | JSONRPCMessage[];
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      this.emitParseError(raw);
+      return [];
+    }
+
+    const messages = Array.isArray(parsed) ? parsed : [parsed];
+    for (const message of messages) {
+      this.emitMessage(message);
+    }
+
+    return messages;
+  }
+
+  /**
+   * Read messages from an SSE response.
+   * @param expected Request IDs whose responses should arrive on this stream;
+   *   a standalone stream passes undefined and is always resumed when it drops
+   */
+  private consumeStream(
+    res: http.IncomingMessage,
+    expected: Set<JSONRPCMessage["id"]> | undefined
+  ): void {
+    let lastEventId: string | undefined;
+
+    const parser = new SseParser((event) => {
+      if (event.id !== undefined) {
+        lastEventId = event.id;
+      }
+      if (event.retry !== undefined) {
+        this.reconnectDelayMs = event.retry;
+      }
+      if (event.event !== "message" || !event.data.trim()) {
+        return;
+      }
+
+      for (const message of this.deliver(event.data)) {
+        if (expected && message.method === undefined) {
+          expected.delete(message.id);
+        }
+      }
+    });
+
+    res.setEncoding("utf8");
+    res.on("data", (chunk: string) => parser.push(chunk));
+
+    let finished = false;
+    const onDisconnect = () => {
+      if (finished || this.closed) {
+        return;
+      }
+      finished = true;
+
+      const awaitingResponse = expected === undefined || expected.size > 0;
+      if (awaitingResponse && (lastEventId !== undefined || !expected)) {
+        this.scheduleReconnect(lastEventId, 0, expected);
+      }
+    };
+    res.on("end", onDisconnect);
+    res.on("error", onDisconnect);
+    res.on("aborted", onDisconnect);
+  }
+
+  /**
+   * Open (or resume) a GET event stream
+   * @param expected Responses still outstanding when resuming a POST stream
+   */
+  private async openEventStream(
+    lastEventId: string | undefined,
+    attempt: number,
+    expected?: Set<JSONRPCMessage["id"]>
+  ): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+
+    const headers: Record<string, string> = { Accept: "text/event-stream" };
+    if (lastEventId !== undefined) {
+      headers["Last-Event-ID"] = lastEventId;
+    }
+
+    let res: http.IncomingMessage;
+    try {
+      res = await this.request("GET", headers);
+    } catch {
+      this.scheduleReconnect(lastEventId, attempt + 1, expected);
+      return;
+    }
+
+    const status = res.statusCode ?? 0;
+    const contentType = res.headers["content-type"] ?? "";
+
+    // Server does not offer a standalone stream
+    if (status === 405) {
+      res.resume();
+      return;
+    }
+
+    if (status === 404 && this.sessionId) {
+      res.resume();
+      this.handleSessionExpired();
+      return;
+    }
+
+    if (status !== 200 || !contentType.includes("text/event-stream")) {
+      res.resume();
+      this.scheduleReconnect(lastEventId, attempt + 1, expected);
+      return;
+    }
+
+    this.consumeStream(res, expected);
+  }
+
+  /**
+   * Retry opening an event stream after the reconnection delay
+   */
+  private scheduleReconnect(
+    lastEventId: string | undefined,
+    attempt: number,
+    expected?: Set<JSONRPCMessage["id"]>
+  ): void {
+    if (this.closed || attempt >= this.options.maxReconnectAttempts) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.reconnectTimers.delete(timer);
+      this.openEventStream(lastEventId, attempt, expected);
+    }, this.reconnectDelayMs);
+    this.reconnectTimers.add(timer);
+  }
+
+  /**
+   * The server no longer recognizes our session; the client must start over
+   */
+  private handleSessionExpired(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.sessionId = undefined;
+
+    for (const req of this.openRequests) {
+      req.destroy();
+    }
+    this.openRequests.clear();
+
+    this.emitClose({ code: null, signal: null, reason: "MCP session expired" });
+  }
+
+  /**
+   * Issue an HTTP request to the MCP endpoint
+   */
+  private async request(
+    method: string,
+    headers: Record<string, string>,
+    body?: string,
+    untracked: boolean = false
+  ): Promise<http.IncomingMessage> {
+    const allHeaders: Record<string, string> = {
+      ...this.options.headers,
+      ...headers,
+    };
+    if (this.sessionId) {
+      allHeaders["Mcp-Session-Id"] = this.sessionId;
+    }
+    if (
+      this.protocolVersion &&
+      requiresProtocolVersionHeader(this.protocolVersion)
+    ) {
+      allHeaders[PROTOCOL_VERSION_HEADER] = this.protocolVersion;
+    }
+
+    let req: http.ClientRequest | undefined;
+    try {
+      const res = await sendHttpRequest(
+        this.url,
+        method,
+        allHeaders,
+        body,
+        (created) => {
+          req = created;
+          if (!untracked) {
+            this.openRequests.add(created);
+          }
+        }
+      );
+      res.on("close", () => this.openRequests.delete(req!));
+      return res;
+    } catch (error) {
+      this.openRequests.delete(req!);
+      throw error;
+    }
+  }
+}
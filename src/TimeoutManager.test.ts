@@ -3,6 +3,7 @@
  */
 
 import { TimeoutManager } from "./TimeoutManager";
+import { TimeoutConfig } from "./types";
 
 describe("TimeoutManager", () => {
   describe("constructor", () => {
@@ -63,6 +64,259 @@ describe("TimeoutManager", () => {
     });
   });
 
+  describe("timeout rules", () => {
+    const rules = [
+      { tool: "debugger_attach", timeoutMs: 180000 },
+      { tool: "fs_*", timeoutMs: 180000 },
+      { method: "ping", timeoutMs: 2000 },
+      { method: "resources/*", timeoutMs: 45000 },
+      { method: "*", timeoutMs: 10000 },
+    ];
+
+    test("should match tool names for tools/call only", () => {
+      const manager = new TimeoutManager({ rules });
+
+      expect(
+        manager.getTimeoutForRequest("tools/call", "debugger_attach")
+      ).toBe(180000);
+      expect(manager.getTimeoutForRequest("tools/call", "fs_search")).toBe(
+        180000
+      );
+      expect(manager.getTimeoutForRequest("tools/call", "other")).toBe(10000);
+    });
+
+    test("should match exact methods and glob patterns", () => {
+      const manager = new TimeoutManager({ rules });
+
+      expect(manager.getTimeoutForRequest("ping")).toBe(2000);
+      expect(manager.getTimeoutForRequest("resources/read")).toBe(45000);
+      expect(manager.getTimeoutForRequest("resources/templates/list")).toBe(
+        45000
+      );
+    });
+
+    test("should let the first matching rule win", () => {
+      const manager = new TimeoutManager({
+        rules: [
+          { method: "*", timeoutMs: 5000 },
+          { method: "ping", timeoutMs: 2000 },
+        ],
+      });
+
+      expect(manager.getTimeoutForRequest("ping")).toBe(5000);
+    });
+
+    test("should fall back to the configured timeouts", () => {
+      const manager = new TimeoutManager({
+        rules: [{ method: "ping", timeoutMs: 2000 }],
+      });
+
+      expect(manager.selectTimeout("initialize")).toEqual({
+        timeoutMs: 60000,
+        source: "initializationTimeoutMs",
+      });
+      expect(manager.selectTimeout("tools/list")).toEqual({
+        timeoutMs: 60000,
+        source: "toolsListTimeoutMs",
+      });
+      expect(manager.selectTimeout("tools/call", "anything")).toEqual({
+        timeoutMs: 30000,
+        source: "standardRequestTimeoutMs",
+      });
+    });
+
+    test("should report the rule that chose the timeout", () => {
+      const manager = new TimeoutManager({ rules });
+
+      expect(manager.selectTimeout("tools/call", "fs_search")).toEqual({
+        timeoutMs: 180000,
+        source: 'rules[1] (tool "fs_*")',
+      });
+      expect(manager.selectTimeout("ping").source).toBe(
+        'rules[2] (method "ping")'
+      );
+    });
+
+    test("should validate rule timeouts like the other timeouts", () => {
+      const manager = new TimeoutManager();
+
+      const result = manager.validateConfig({
+        rules: [
+          { method: "ping", timeoutMs: 500 },
+          { tool: "fs_search", timeoutMs: 400000 },
+          { method: "resources/*", timeoutMs: 1500.5 },
+          { method: "tools/list", timeoutMs: "fast" as unknown as number },
+        ],
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        "rules[0].timeoutMs must be at least 1000ms",
+        "rules[1].timeoutMs must not exceed 300000ms",
+        "rules[2].timeoutMs must be an integer",
+        "rules[3].timeoutMs must be a number",
+      ]);
+    });
+
+    test("should reject rules without a method or tool", () => {
+      const manager = new TimeoutManager();
+
+      const result = manager.validateConfig({
+        rules: [
+          { timeoutMs: 5000 },
+          { method: "", timeoutMs: 5000 },
+        ] as TimeoutConfig["rules"],
+      });
+
+      expect(result.errors).toEqual([
+        "rules[0] must have a method or a tool",
+        "rules[1].method must be a non-empty string",
+      ]);
+      expect(
+        () => new TimeoutManager({ rules: [{ timeoutMs: 5000 }] })
+      ).toThrow(
+        "Invalid timeout configuration: rules[0] must have a method or a tool"
+      );
+    });
+
+    test("should warn about tool rules that can never match", () => {
+      const manager = new TimeoutManager();
+
+      const result = manager.validateConfig({
+        rules: [
+          { method: "resources/read", tool: "fs_search", timeoutMs: 5000 },
+        ],
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toEqual([
+        "rules[0] has a tool but its method is not tools/call, so it never matches",
+      ]);
+    });
+
+    test("should not share rules with callers", () => {
+      const manager = new TimeoutManager({
+        rules: [{ method: "ping", timeoutMs: 2000 }],
+      });
+
+      const [rule] = manager.getConfig().rules ?? [];
+      rule.timeoutMs = 9000;
+
+      expect(manager.getTimeoutForRequest("ping")).toBe(2000);
+    });
+  });
+
+  describe("adaptive timeouts", () => {
+    const record = (
+      manager: TimeoutManager,
+      durations: number[],
+      tool?: string
+    ) => {
+      for (const duration of durations) {
+        manager.recordLatency("tools/call", duration, tool);
+      }
+    };
+
+    test("should use a multiple of p99 once there are enough samples", () => {
+      const manager = new TimeoutManager({
+        adaptive: { enabled: true, minSamples: 5 },
+      });
+
+      record(manager, [2000, 2100, 2200, 2300], "fs_search");
+      expect(manager.selectTimeout("tools/call", "fs_search")).toEqual({
+        timeoutMs: 30000,
+        source: "standardRequestTimeoutMs",
+      });
+
+      record(manager, [2500], "fs_search");
+      expect(manager.selectTimeout("tools/call", "fs_search")).toEqual({
+        timeoutMs: 7500,
+        source: "adaptive (3 × p99 2500ms)",
+      });
+      expect(manager.getTimeoutForRequest("tools/call", "other")).toBe(30000);
+    });
+
+    test("should keep adaptive timeouts between the floor and ceiling", () => {
+      const manager = new TimeoutManager({
+        adaptive: {
+          enabled: true,
+          minSamples: 1,
+          floorMs: 5000,
+          ceilingMs: 60000,
+        },
+      });
+
+      record(manager, [10], "fast");
+      record(manager, [50000], "slow");
+
+      expect(manager.getTimeoutForRequest("tools/call", "fast")).toBe(5000);
+      expect(manager.getTimeoutForRequest("tools/call", "slow")).toBe(60000);
+    });
+
+    test("should let rules take precedence and stay off by default", () => {
+      const manager = new TimeoutManager({
+        rules: [{ tool: "fs_search", timeoutMs: 180000 }],
+        adaptive: { minSamples: 1 },
+      });
+      record(manager, [100], "fs_search");
+      record(manager, [100], "other");
+
+      expect(manager.getTimeoutForRequest("tools/call", "other")).toBe(30000);
+
+      manager.updateConfig({ adaptive: { enabled: true, minSamples: 1 } });
+      expect(manager.getTimeoutForRequest("tools/call", "fs_search")).toBe(
+        180000
+      );
+      expect(manager.getTimeoutForRequest("tools/call", "other")).toBe(5000);
+    });
+
+    test("should round-trip latency statistics through a snapshot", () => {
+      const manager = new TimeoutManager({
+        adaptive: { enabled: true, minSamples: 2 },
+      });
+      record(manager, [3000, 4000], "fs_search");
+      manager.recordLatency("ping", 20);
+
+      const restored = new TimeoutManager({
+        adaptive: { enabled: true, minSamples: 2 },
+      });
+      restored.importLatencyStats(manager.exportLatencyStats());
+
+      expect(restored.getLatencyStats()).toEqual(manager.getLatencyStats());
+      expect(restored.getTimeoutForRequest("tools/call", "fs_search")).toBe(
+        12000
+      );
+    });
+
+    test("should validate adaptive settings", () => {
+      const manager = new TimeoutManager();
+
+      const result = manager.validateConfig({
+        adaptive: {
+          multiplier: 0.5,
+          floorMs: 90000,
+          ceilingMs: 60000,
+          minSamples: 0,
+          windowSize: 10.5,
+          ewmaAlpha: 0,
+        },
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        "adaptive.multiplier must be a number of at least 1",
+        "adaptive.floorMs must not exceed adaptive.ceilingMs",
+        "adaptive.minSamples must be a positive integer",
+        "adaptive.windowSize must be a positive integer",
+        "adaptive.ewmaAlpha must be greater than 0 and at most 1",
+      ]);
+      expect(
+        manager.validateConfig({ adaptive: { minSamples: 50, windowSize: 20 } })
+          .errors
+      ).toEqual(["adaptive.minSamples must not exceed adaptive.windowSize"]);
+    });
+  });
+
   describe("validateConfig", () => {
     test("should accept valid configuration", () => {
       const manager = new TimeoutManager();
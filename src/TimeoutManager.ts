@@ -2,7 +2,16 @@
  * TimeoutManager - Manages timeout configuration and selection for MCP requests
  */
 
-import { TimeoutConfig, ValidationResult } from "./types";
+import {
+  AdaptiveTimeoutConfig,
+  LatencySnapshot,
+  LatencyStats,
+  TimeoutConfig,
+  TimeoutRule,
+  TimeoutSelection,
+  ValidationResult,
+} from "./types";
+import { LatencyTracker } from "./LatencyTracker";
 
 /**
  * Default timeout values (in milliseconds)
@@ -13,6 +22,19 @@ const DEFAULT_TIMEOUT_CONFIG: TimeoutConfig = {
   toolsListTimeoutMs: 60000, // 60 seconds
 };
 
+/**
+ * Default adaptive timeout settings
+ */
+const DEFAULT_ADAPTIVE_CONFIG: AdaptiveTimeoutConfig = {
+  enabled: false,
+  multiplier: 3,
+  floorMs: 5000, // 5 seconds
+  ceilingMs: 300000, // 5 minutes
+  minSamples: 20,
+  windowSize: 100,
+  ewmaAlpha: 0.2,
+};
+
 /**
  * Minimum allowed timeout values (in milliseconds)
  */
@@ -29,6 +51,10 @@ const MAX_TIMEOUT_MS = 300000; // 5 minutes
  */
 export class TimeoutManager {
   private config: TimeoutConfig;
+  private latency: LatencyTracker = new LatencyTracker(
+    DEFAULT_ADAPTIVE_CONFIG.windowSize,
+    DEFAULT_ADAPTIVE_CONFIG.ewmaAlpha
+  );
 
   /**
    * Creates a new TimeoutManager instance
@@ -44,21 +70,120 @@ export class TimeoutManager {
   /**
    * Gets the appropriate timeout for a given request method
    * @param method - The JSON-RPC method name
+   * @param toolName - Tool name, for tools/call requests
    * @returns Timeout in milliseconds
    */
-  getTimeoutForRequest(method: string): number {
+  getTimeoutForRequest(method: string, toolName?: string): number {
+    return this.selectTimeout(method, toolName).timeoutMs;
+  }
+
+  /**
+   * Chooses the timeout for a request and reports what chose it
+   * @param method - The JSON-RPC method name
+   * @param toolName - Tool name, for tools/call requests
+   * @returns Timeout and the rule or setting that supplied it
+   */
+  selectTimeout(method: string, toolName?: string): TimeoutSelection {
+    // Rules are checked in order; the first match wins
+    const rules = this.config.rules ?? [];
+    for (let i = 0; i < rules.length; i++) {
+      if (this.ruleMatches(rules[i], method, toolName)) {
+        return {
+          timeoutMs: rules[i].timeoutMs,
+          source: `rules[${i}] (${this.describeRule(rules[i])})`,
+        };
+      }
+    }
+
+    // Learned timeout once there is enough history
+    const adaptive = this.getAdaptiveConfig();
+    if (adaptive.enabled) {
+      const stats = this.latency.getStats(
+        method,
+        method === "tools/call" ? toolName : undefined
+      );
+      if (stats && stats.windowSamples >= adaptive.minSamples) {
+        const timeoutMs = Math.min(
+          adaptive.ceilingMs,
+          Math.max(
+            adaptive.floorMs,
+            Math.round(adaptive.multiplier * stats.p99Ms)
+          )
+        );
+        return {
+          timeoutMs,
+          source: `adaptive (${adaptive.multiplier} × p99 ${stats.p99Ms}ms)`,
+        };
+      }
+    }
+
     // Initialization requests get longer timeout
     if (method === "initialize") {
-      return this.config.initializationTimeoutMs;
+      return {
+        timeoutMs: this.config.initializationTimeoutMs,
+        source: "initializationTimeoutMs",
+      };
     }
 
     // Tools list requests get longer timeout
     if (method === "tools/list") {
-      return this.config.toolsListTimeoutMs;
+      return {
+        timeoutMs: this.config.toolsListTimeoutMs,
+        source: "toolsListTimeoutMs",
+      };
     }
 
     // All other requests use standard timeout
-    return this.config.standardRequestTimeoutMs;
+    return {
+      timeoutMs: this.config.standardRequestTimeoutMs,
+      source: "standardRequestTimeoutMs",
+    };
+  }
+
+  /**
+   * Records the latency of a completed request for adaptive timeouts
+   * @param method - The JSON-RPC method name
+   * @param durationMs - Time from sending the request to its response
+   * @param toolName - Tool name, for tools/call requests
+   */
+  recordLatency(method: string, durationMs: number, toolName?: string): void {
+    this.latency.record(
+      method,
+      durationMs,
+      method === "tools/call" ? toolName : undefined
+    );
+  }
+
+  /**
+   * Gets the observed latency per method and per tool
+   * @returns Latency statistics, sorted by method and tool
+   */
+  getLatencyStats(): LatencyStats[] {
+    return this.latency.getAllStats();
+  }
+
+  /**
+   * Exports the latency history so it can be persisted
+   * @returns Serializable snapshot
+   */
+  exportLatencyStats(): LatencySnapshot {
+    return this.latency.export();
+  }
+
+  /**
+   * Replaces the latency history with a persisted snapshot
+   * @param snapshot - Snapshot from exportLatencyStats()
+   */
+  importLatencyStats(snapshot: LatencySnapshot): void {
+    this.latency.import(snapshot);
+  }
+
+  /**
+   * Gets the adaptive timeout settings merged with defaults
+   * @returns Adaptive timeout configuration
+   */
+  getAdaptiveConfig(): AdaptiveTimeoutConfig {
+    return { ...DEFAULT_ADAPTIVE_CONFIG, ...this.config.adaptive };
   }
 
   /**
@@ -71,60 +196,59 @@ export class TimeoutManager {
     const warnings: string[] = [];
 
     // Validate initializationTimeoutMs
-    if (config.initializationTimeoutMs !== undefined) {
-      if (typeof config.initializationTimeoutMs !== "number") {
-        errors.push("initializationTimeoutMs must be a number");
-      } else if (config.initializationTimeoutMs < MIN_TIMEOUT_MS) {
-        errors.push(
-          `initializationTimeoutMs must be at least ${MIN_TIMEOUT_MS}ms`
-        );
-      } else if (config.initializationTimeoutMs > MAX_TIMEOUT_MS) {
-        errors.push(
-          `initializationTimeoutMs must not exceed ${MAX_TIMEOUT_MS}ms`
-        );
-      } else if (!Number.isInteger(config.initializationTimeoutMs)) {
-        errors.push("initializationTimeoutMs must be an integer");
-      } else if (config.initializationTimeoutMs < 10000) {
-        warnings.push(
-          "initializationTimeoutMs is less than 10 seconds, which may be too short for slow servers"
-        );
-      }
+    if (
+      this.checkTimeoutValue(
+        "initializationTimeoutMs",
+        config.initializationTimeoutMs,
+        errors
+      ) &&
+      (config.initializationTimeoutMs as number) < 10000
+    ) {
+      warnings.push(
+        "initializationTimeoutMs is less than 10 seconds, which may be too short for slow servers"
+      );
     }
 
     // Validate standardRequestTimeoutMs
-    if (config.standardRequestTimeoutMs !== undefined) {
-      if (typeof config.standardRequestTimeoutMs !== "number") {
-        errors.push("standardRequestTimeoutMs must be a number");
-      } else if (config.standardRequestTimeoutMs < MIN_TIMEOUT_MS) {
-        errors.push(
-          `standardRequestTimeoutMs must be at least ${MIN_TIMEOUT_MS}ms`
-        );
-      } else if (config.standardRequestTimeoutMs > MAX_TIMEOUT_MS) {
-        errors.push(
-          `standardRequestTimeoutMs must not exceed ${MAX_TIMEOUT_MS}ms`
-        );
-      } else if (!Number.isInteger(config.standardRequestTimeoutMs)) {
-        errors.push("standardRequestTimeoutMs must be an integer");
-      } else if (config.standardRequestTimeoutMs < 5000) {
-        warnings.push(
-          "standardRequestTimeoutMs is less than 5 seconds, which may be too short for some operations"
-        );
-      }
+    if (
+      this.checkTimeoutValue(
+        "standardRequestTimeoutMs",
+        config.standardRequestTimeoutMs,
+        errors
+      ) &&
+      (config.standardRequestTimeoutMs as number) < 5000
+    ) {
+      warnings.push(
+        "standardRequestTimeoutMs is less than 5 seconds, which may be too short for some operations"
+      );
     }
 
     // Validate toolsListTimeoutMs
-    if (config.toolsListTimeoutMs !== undefined) {
-      if (typeof config.toolsListTimeoutMs !== "number") {
-        errors.push("toolsListTimeoutMs must be a number");
-      } else if (config.toolsListTimeoutMs < MIN_TIMEOUT_MS) {
-        errors.push(`toolsListTimeoutMs must be at least ${MIN_TIMEOUT_MS}ms`);
-      } else if (config.toolsListTimeoutMs > MAX_TIMEOUT_MS) {
-        errors.push(`toolsListTimeoutMs must not exceed ${MAX_TIMEOUT_MS}ms`);
-      } else if (!Number.isInteger(config.toolsListTimeoutMs)) {
-        errors.push("toolsListTimeoutMs must be an integer");
-      } else if (config.toolsListTimeoutMs < 10000) {
-        warnings.push(
-          "toolsListTimeoutMs is less than 10 seconds, which may be too short for servers with many tools"
+    if (
+      this.checkTimeoutValue(
+        "toolsListTimeoutMs",
+        config.toolsListTimeoutMs,
+        errors
+      ) &&
+      (config.toolsListTimeoutMs as number) < 10000
+    ) {
+      warnings.push(
+        "toolsListTimeoutMs is less than 10 seconds, which may be too short for servers with many tools"
+      );
+    }
+
+    // Validate adaptive settings
+    if (config.adaptive !== undefined) {
+      this.validateAdaptive(config.adaptive, errors);
+    }
+
+    // Validate rules
+    if (config.rules !== undefined) {
+      if (!Array.isArray(config.rules)) {
+        errors.push("rules must be an array");
+      } else {
+        config.rules.forEach((rule, i) =>
+          this.validateRule(rule, `rules[${i}]`, errors, warnings)
         );
       }
     }
@@ -136,6 +260,181 @@ export class TimeoutManager {
     };
   }
 
+  /**
+   * Checks a timeout value against the allowed range
+   * @param name - Setting name used in error messages
+   * @param value - Value to check; undefined is accepted
+   * @param errors - Receives an error if the value is invalid
+   * @returns true if a valid value was given
+   */
+  private checkTimeoutValue(
+    name: string,
+    value: unknown,
+    errors: string[]
+  ): boolean {
+    if (value === undefined) {
+      return false;
+    }
+    if (typeof value !== "number") {
+      errors.push(`${name} must be a number`);
+    } else if (value < MIN_TIMEOUT_MS) {
+      errors.push(`${name} must be at least ${MIN_TIMEOUT_MS}ms`);
+    } else if (value > MAX_TIMEOUT_MS) {
+      errors.push(`${name} must not exceed ${MAX_TIMEOUT_MS}ms`);
+    } else if (!Number.isInteger(value)) {
+      errors.push(`${name} must be an integer`);
+    } else {
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Validates adaptive timeout settings
+   */
+  private validateAdaptive(
+    adaptive: Partial<AdaptiveTimeoutConfig>,
+    errors: string[]
+  ): void {
+    if (adaptive === null || typeof adaptive !== "object") {
+      errors.push("adaptive must be an object");
+      return;
+    }
+    if (
+      adaptive.enabled !== undefined &&
+      typeof adaptive.enabled !== "boolean"
+    ) {
+      errors.push("adaptive.enabled must be a boolean");
+    }
+    if (
+      adaptive.multiplier !== undefined &&
+      (typeof adaptive.multiplier !== "number" ||
+        !Number.isFinite(adaptive.multiplier) ||
+        adaptive.multiplier < 1)
+    ) {
+      errors.push("adaptive.multiplier must be a number of at least 1");
+    }
+
+    const floorValid = this.checkTimeoutValue(
+      "adaptive.floorMs",
+      adaptive.floorMs,
+      errors
+    );
+    const ceilingValid = this.checkTimeoutValue(
+      "adaptive.ceilingMs",
+      adaptive.ceilingMs,
+      errors
+    );
+    const floor = floorValid
+      ? (adaptive.floorMs as number)
+      : DEFAULT_ADAPTIVE_CONFIG.floorMs;
+    const ceiling = ceilingValid
+      ? (adaptive.ceilingMs as number)
+      : DEFAULT_ADAPTIVE_CONFIG.ceilingMs;
+    if ((floorValid || ceilingValid) && floor > ceiling) {
+      errors.push("adaptive.floorMs must not exceed adaptive.ceilingMs");
+    }
+
+    for (const key of ["minSamples", "windowSize"] as const) {
+      const value = adaptive[key];
+      if (
+        value !== undefined &&
+        (typeof value !== "number" || !Number.isInteger(value) || value < 1)
+      ) {
+        errors.push(`adaptive.${key} must be a positive integer`);
+      }
+    }
+    if (
+      typeof adaptive.minSamples === "number" &&
+      typeof adaptive.windowSize === "number" &&
+      adaptive.minSamples > adaptive.windowSize
+    ) {
+      errors.push("adaptive.minSamples must not exceed adaptive.windowSize");
+    }
+    if (
+      adaptive.ewmaAlpha !== undefined &&
+      (typeof adaptive.ewmaAlpha !== "number" ||
+        !(adaptive.ewmaAlpha > 0 && adaptive.ewmaAlpha <= 1))
+    ) {
+      errors.push("adaptive.ewmaAlpha must be greater than 0 and at most 1");
+    }
+  }
+
+  /**
+   * Validates one timeout rule
+   */
+  private validateRule(
+    rule: TimeoutRule,
+    name: string,
+    errors: string[],
+    warnings: string[]
+  ): void {
+    if (rule === null || typeof rule !== "object") {
+      errors.push(`${name} must be an object`);
+      return;
+    }
+    if (rule.method === undefined && rule.tool === undefined) {
+      errors.push(`${name} must have a method or a tool`);
+    }
+    for (const key of ["method", "tool"] as const) {
+      if (
+        rule[key] !== undefined &&
+        (typeof rule[key] !== "string" || rule[key] === "")
+      ) {
+        errors.push(`${name}.${key} must be a non-empty string`);
+      }
+    }
+    if (
+      rule.tool !== undefined &&
+      rule.method !== undefined &&
+      rule.method !== "tools/call"
+    ) {
+      warnings.push(
+        `${name} has a tool but its method is not tools/call, so it never matches`
+      );
+    }
+    if (rule.timeoutMs === undefined) {
+      errors.push(`${name}.timeoutMs is required`);
+    } else {
+      this.checkTimeoutValue(`${name}.timeoutMs`, rule.timeoutMs, errors);
+    }
+  }
+
+  /**
+   * Checks whether a rule applies to a request
+   */
+  private ruleMatches(
+    rule: TimeoutRule,
+    method: string,
+    toolName?: string
+  ): boolean {
+    if (rule.method !== undefined && !matchesGlob(rule.method, method)) {
+      return false;
+    }
+    if (rule.tool !== undefined) {
+      return (
+        method === "tools/call" &&
+        toolName !== undefined &&
+        matchesGlob(rule.tool, toolName)
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Describes a rule for diagnostics, e.g. 'tool "fs_search"'
+   */
+  private describeRule(rule: TimeoutRule): string {
+    const parts: string[] = [];
+    if (rule.method !== undefined) {
+      parts.push(`method "${rule.method}"`);
+    }
+    if (rule.tool !== undefined) {
+      parts.push(`tool "${rule.tool}"`);
+    }
+    return parts.join(", ");
+  }
+
   /**
    * Updates the timeout configuration
    * @param config - Partial configuration to merge with current config
@@ -155,6 +454,14 @@ export class TimeoutManager {
       ...this.config,
       ...config,
     };
+    if (config.rules) {
+      this.config.rules = config.rules.map((rule) => ({ ...rule }));
+    }
+    if (config.adaptive) {
+      this.config.adaptive = { ...config.adaptive };
+      const { windowSize, ewmaAlpha } = this.getAdaptiveConfig();
+      this.latency.configure(windowSize, ewmaAlpha);
+    }
   }
 
   /**
@@ -162,6 +469,36 @@ export class TimeoutManager {
    * @returns Current timeout configuration
    */
   getConfig(): TimeoutConfig {
-    return { ...this.config };
+    const config = { ...this.config };
+    if (config.rules) {
+      config.rules = config.rules.map((rule) => ({ ...rule }));
+    }
+    if (config.adaptive) {
+      config.adaptive = { ...config.adaptive };
+    }
+    return config;
+  }
+}
+
+/**
+ * Match a name against a glob pattern where * matches any run of
+ * characters (including "/") and ? matches one character
+ * @param pattern - Glob pattern or exact name
+ * @param name - Method or tool name
+ */
+function matchesGlob(pattern: string, name: string): boolean {
+  if (!pattern.includes("*") && !pattern.includes("?")) {
+    return pattern === name;
   }
+  const source = pattern
+    .split("")
+    .map((char) =>
+      char === "*"
+        ? ".*"
+        : char === "?"
+        ? "."
+        : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${source}$`).test(name);
 }
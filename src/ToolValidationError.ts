@@ -0,0 +1,36 @@
+/**
+ * ToolValidationError - Tool arguments or results that break the tool's schema
+ */
+
+import { SchemaViolation } from "./types";
+
+/**
+ * Error raised when tool arguments do not match the tool's inputSchema, or
+ * its structured result does not match the outputSchema.
+ *
+ * Thrown by callTool when tool validation is set to "enforce".
+ */
+export class ToolValidationError extends Error {
+  /** Name of the tool being called */
+  readonly toolName: string;
+  /** Whether the arguments or the structured result failed validation */
+  readonly target: "arguments" | "result";
+  /** Each violation, with a JSON pointer into the arguments or result */
+  readonly violations: SchemaViolation[];
+
+  constructor(
+    toolName: string,
+    target: "arguments" | "result",
+    violations: SchemaViolation[]
+  ) {
+    super(
+      `Invalid ${target} for tool ${toolName}: ${violations
+        .map(({ path, message }) => `${path || "(root)"} ${message}`)
+        .join("; ")}`
+    );
+    this.name = "ToolValidationError";
+    this.toolName = toolName;
+    this.target = target;
+    this.violations = violations;
+  }
+}
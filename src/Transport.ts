@@ -0,0 +1,214 @@
+/**
+ * Transport - Abstraction over the channel used to reach an MCP server
+ *
+ * BaseMCPClient only deals with JSON-RPC messages; how those messages reach
+ * the server (child process stdio, HTTP, sockets, ...) is decided by the
+ * transport the client is configured with.
+ */
+
+import { JSONRPCMessage, TransportCloseInfo, TransportInfo } from "./types";
+
+/**
+ * Disposable interface for cleanup
+ */
+interface Disposable {
+  dispose(): void;
+}
+
+/**
+ * Transport
+ *
+ * Contract between BaseMCPClient and the channel to the server.
+ */
+export interface Transport {
+  /**
+   * Open the connection (spawn the process, connect the socket, ...)
+   */
+  start(): Promise<void>;
+
+  /**
+   * Send a JSON-RPC message to the server
+   * @param message Message to send
+   */
+  send(message: JSONRPCMessage): Promise<void>;
+
+  /**
+   * Send several messages as a single JSON-RPC batch.
+   * Only used when the negotiated protocol version allows batching.
+   * @param messages Messages to send
+   */
+  sendBatch?(messages: JSONRPCMessage[]): Promise<void>;
+
+  /**
+   * Apply version-specific behavior once the protocol version is negotiated
+   * @param version Negotiated protocol version
+   */
+  setProtocolVersion?(version: string): void;
+
+  /**
+   * Register a listener for messages received from the server
+   * @param listener Callback invoked for every parsed message
+   * @returns Disposable to unregister the listener
+   */
+  onMessage(listener: (message: JSONRPCMessage) => void): Disposable;
+
+  /**
+   * Register a listener for the connection closing unexpectedly
+   * @param listener Callback invoked with close details
+   * @returns Disposable to unregister the listener
+   */
+  onClose(listener: (info: TransportCloseInfo) => void): Disposable;
+
+  /**
+   * Register a listener for transport-level errors
+   * @param listener Callback invoked with the error
+   * @returns Disposable to unregister the listener
+   */
+  onError(listener: (error: Error) => void): Disposable;
+
+  /**
+   * Register a listener for received data that is not valid JSON-RPC
+   * @param listener Callback invoked with the raw data
+   * @returns Disposable to unregister the listener
+   */
+  onParseError?(listener: (raw: string) => void): Disposable;
+
+  /**
+   * Close the connection and release resources.
+   * Close listeners are not notified for a close requested by the client.
+   */
+  close(): Promise<void>;
+
+  /**
+   * Check whether the connection is currently usable
+   */
+  isAlive(): boolean;
+
+  /**
+   * Get transport details for diagnostics
+   */
+  getInfo(): TransportInfo;
+}
+
+/**
+ * BaseTransport
+ *
+ * Listener bookkeeping shared by the built-in transports.
+ */
+export abstract class BaseTransport implements Transport {
+  private messageListeners = new Set<(message: JSONRPCMessage) => void>();
+  private closeListeners = new Set<(info: TransportCloseInfo) => void>();
+  private errorListeners = new Set<(error: Error) => void>();
+  private parseErrorListeners = new Set<(raw: string) => void>();
+
+  abstract start(): Promise<void>;
+  abstract send(message: JSONRPCMessage): Promise<void>;
+  abstract close(): Promise<void>;
+  abstract isAlive(): boolean;
+  abstract getInfo(): TransportInfo;
+
+  onMessage(listener: (message: JSONRPCMessage) => void): Disposable {
+    return this.addListener(this.messageListeners, listener);
+  }
+
+  onClose(listener: (info: TransportCloseInfo) => void): Disposable {
+    return this.addListener(this.closeListeners, listener);
+  }
+
+  onError(listener: (error: Error) => void): Disposable {
+    return this.addListener(this.errorListeners, listener);
+  }
+
+  onParseError(listener: (raw: string) => void): Disposable {
+    return this.addListener(this.parseErrorListeners, listener);
+  }
+
+  /**
+   * Deliver a message to all message listeners
+   */
+  protected emitMessage(message: JSONRPCMessage): void {
+    for (const listener of this.messageListeners) {
+      listener(message);
+    }
+  }
+
+  /**
+   * Notify close listeners that the connection went away
+   */
+  protected emitClose(info: TransportCloseInfo): void {
+    for (const listener of this.closeListeners) {
+      listener(info);
+    }
+  }
+
+  /**
+   * Notify error listeners of a transport-level error
+   */
+  protected emitError(error: Error): void {
+    for (const listener of this.errorListeners) {
+      listener(error);
+    }
+  }
+
+  /**
+   * Notify parse error listeners of data that could not be parsed
+   */
+  protected emitParseError(raw: string): void {
+    for (const listener of this.parseErrorListeners) {
+      listener(raw);
+    }
+  }
+
+  /**
+   * Create a reader for newline-delimited JSON-RPC streams.
+   * Feed it raw chunks; complete lines are parsed and delivered to message
+   * listeners (batches one message at a time), invalid lines to parse error
+   * listeners.
+   */
+  protected createLineReader(): (chunk: string) => void {
+    let buffer = "";
+
+    return (chunk: string) => {
+      buffer += chunk;
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+
+        let parsed: JSONRPCMessage | JSONRPCMessage[];
+        try {
+          parsed = JSON.parse(line);
+        } catch {
+          this.emitParseError(line);
+          continue;
+        }
+        for (const message of Array.isArray(parsed) ? parsed : [parsed]) {
+          this.emitMessage(message);
+        }
+      }
+    };
+  }
+
+  /**
+   * Drop every registered listener
+   */
+  protected removeAllListeners(): void {
+    this.messageListeners.clear();
+    this.closeListeners.clear();
+    this.errorListeners.clear();
+    this.parseErrorListeners.clear();
+  }
+
+  private addListener<T>(listeners: Set<T>, listener: T): Disposable {
+    listeners.add(listener);
+    return {
+      dispose: () => {
+        listeners.delete(listener);
+      },
+    };
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for UnixSocketTransport
+ */
+
+import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import { UnixSocketTransport } from "./UnixSocketTransport";
+import { BaseMCPClient } from "./BaseMCPClient";
+import { Transport } from "./Transport";
+import { ConnectionState, JSONRPCMessage, TransportCloseInfo } from "./types";
+
+/**
+ * Daemon-style server that answers every request on every connection
+ */
+class DaemonServer {
+  connections: net.Socket[] = [];
+  private server: net.Server;
+
+  constructor(readonly socketPath: string) {
+    this.server = net.createServer((socket) => {
+      this.connections.push(socket);
+      let buffer = "";
+      socket.on("data", (chunk) => {
+        buffer += chunk.toString();
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        for (const line of lines) {
+          const message = JSON.parse(line) as JSONRPCMessage;
+          if (message.id !== undefined) {
+            socket.write(
+              JSON.stringify({ jsonrpc: "2.0", id: message.id, result: {} }) +
+                "\nnot json\n"
+            );
+          }
+        }
+      });
+    });
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) =>
+      this.server.listen(this.socketPath, resolve)
+    );
+  }
+
+  close(): Promise<void> {
+    for (const socket of this.connections) {
+      socket.destroy();
+    }
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+const mockOutputChannel = {
+  trace: jest.fn(),
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  append: jest.fn(),
+  appendLine: jest.fn(),
+  clear: jest.fn(),
+  show: jest.fn(),
+  hide: jest.fn(),
+  dispose: jest.fn(),
+};
+
+describe("UnixSocketTransport", () => {
+  let dir: string;
+  let server: DaemonServer;
+  let transport: UnixSocketTransport;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-socket-"));
+    server = new DaemonServer(path.join(dir, "mcp.sock"));
+    await server.listen();
+    transport = new UnixSocketTransport({ path: server.socketPath });
+  });
+
+  afterEach(async () => {
+    await transport.close();
+    await server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should exchange newline-delimited messages", async () => {
+    await transport.start();
+
+    const response = new Promise<JSONRPCMessage>((resolve) =>
+      transport.onMessage(resolve)
+    );
+    const parseError = new Promise<string>((resolve) =>
+      transport.onParseError(resolve)
+    );
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "ping" });
+
+    expect(await response).toEqual({ jsonrpc: "2.0", id: 1, result: {} });
+    expect(await parseError).toBe("not json");
+    expect(transport.getInfo()).toEqual({
+      type: "unix-socket",
+      endpoint: server.socketPath,
+    });
+  });
+
+  it("should drop the start-time error handler once connected", async () => {
+    await transport.start();
+
+    // Only the handler that records errors for the close reason remains
+    expect(transport["socket"]!.listenerCount("error")).toBe(1);
+  });
+
+  it("should fail to start when nothing is listening", async () => {
+    transport = new UnixSocketTransport({ path: path.join(dir, "none.sock") });
+
+    await expect(transport.start()).rejects.toThrow("ENOENT");
+    expect(transport.isAlive()).toBe(false);
+  });
+
+  it("should report a server-side disconnect as a close", async () => {
+    await transport.start();
+
+    const closed = new Promise<TransportCloseInfo>((resolve) =>
+      transport.onClose(resolve)
+    );
+    server.connections[0].end();
+
+    expect(await closed).toEqual({
+      code: null,
+      signal: null,
+      reason: "Socket closed by server",
+    });
+    expect(transport.isAlive()).toBe(false);
+  });
+
+  describe("with BaseMCPClient", () => {
+    class DaemonClient extends BaseMCPClient {
+      constructor(private readonly socketPath: string) {
+        super("DaemonExtension", mockOutputChannel);
+      }
+
+      protected createTransport(): Transport {
+        return new UnixSocketTransport({ path: this.socketPath });
+      }
+
+      protected async onServerReady(): Promise<void> {}
+    }
+
+    it("should share one daemon between clients and record disconnects", async () => {
+      const first = new DaemonClient(server.socketPath);
+      const second = new DaemonClient(server.socketPath);
+      await first.start();
+      await second.start();
+
+      expect(server.connections).toHaveLength(2);
+
+      // Stopping one client leaves the daemon serving the other
+      await first.stop();
+      expect(second.getConnectionStatus().state).toBe(
+        ConnectionState.CONNECTED
+      );
+
+      server.connections[1].end();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const status = second.getConnectionStatus();
+      expect(status.state).toBe(ConnectionState.DISCONNECTED);
+      expect(status.message).toBe(
+        "Connection to server lost: Socket closed by server"
+      );
+      expect(status.serverProcessRunning).toBe(false);
+      expect(second.getDiagnostics().lastError?.message).toBe(status.message);
+      await second.stop();
+    });
+  });
+});
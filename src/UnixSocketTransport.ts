@@ -0,0 +1,138 @@
+/**
+ * UnixSocketTransport - Connects to an already-running MCP server over a
+ * Unix domain socket (or a Windows named pipe)
+ *
+ * Uses the same newline-delimited JSON framing as stdio. Closing the
+ * transport only disconnects; the server keeps running for other clients.
+ */
+
+import * as net from "net";
+import { JSONRPCMessage, TransportInfo } from "./types";
+import { BaseTransport } from "./Transport";
+
+/**
+ * Options for connecting to a local socket
+ */
+export interface UnixSocketTransportOptions {
+  /** Socket path, e.g. /tmp/mcp.sock, or \\.\pipe\mcp on Windows */
+  path: string;
+  /** Time to wait for the connection to open (default: 10000) */
+  connectTimeoutMs?: number;
+}
+
+/**
+ * UnixSocketTransport
+ */
+export class UnixSocketTransport extends BaseTransport {
+  private readonly options: UnixSocketTransportOptions;
+  private socket?: net.Socket;
+  private connected: boolean = false;
+
+  constructor(options: UnixSocketTransportOptions) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Connect to the socket
+   */
+  async start(): Promise<void> {
+    const timeoutMs = this.options.connectTimeoutMs ?? 10000;
+    const socket = net.connect({ path: this.options.path });
+    this.socket = socket;
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Connection timeout after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      const onError = (error: Error) => {
+        clearTimeout(timer);
+        reject(error);
+      };
+      socket.once("connect", () => {
+        clearTimeout(timer);
+        socket.off("error", onError);
+        resolve();
+      });
+      socket.once("error", onError);
+    });
+
+    this.connected = true;
+
+    const readLine = this.createLineReader();
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => readLine(chunk));
+
+    let lastError: Error | undefined;
+    socket.on("error", (error) => {
+      lastError = error;
+    });
+    socket.on("close", () => {
+      if (!this.connected) {
+        return;
+      }
+      this.connected = false;
+      this.emitClose({
+        code: null,
+        signal: null,
+        reason: lastError
+          ? `Socket error: ${lastError.message}`
+          : "Socket closed by server",
+      });
+    });
+  }
+
+  /**
+   * Write a message to the socket
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    await this.writeLine(message);
+  }
+
+  /**
+   * Write a batch to the socket as a single line
+   */
+  async sendBatch(messages: JSONRPCMessage[]): Promise<void> {
+    await this.writeLine(messages);
+  }
+
+  /**
+   * Disconnect without notifying close listeners
+   */
+  async close(): Promise<void> {
+    this.connected = false;
+    this.socket?.destroy();
+    this.socket = undefined;
+  }
+
+  isAlive(): boolean {
+    return this.connected;
+  }
+
+  getInfo(): TransportInfo {
+    return {
+      type: "unix-socket",
+      endpoint: this.options.path,
+    };
+  }
+
+  /**
+   * Write one newline-delimited JSON value to the socket
+   */
+  private async writeLine(
+    data: JSONRPCMessage | JSONRPCMessage[]
+  ): Promise<void> {
+    if (!this.socket || !this.connected) {
+      throw new Error("Transport not connected");
+    }
+
+    const socket = this.socket;
+    await new Promise<void>((resolve, reject) => {
+      socket.write(JSON.stringify(data) + "\n", (error) =>
+        error ? reject(error) : resolve()
+      );
+    });
+  }
+}
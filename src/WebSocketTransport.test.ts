@@ -0,0 +1,148 @@
+/**
+ * Unit tests for WebSocketTransport
+ */
+
+import { AddressInfo } from "net";
+import WebSocket, { WebSocketServer } from "ws";
+import { WebSocketTransport } from "./WebSocketTransport";
+import { BaseMCPClient } from "./BaseMCPClient";
+import { Transport } from "./Transport";
+import { ConnectionState, JSONRPCMessage, TransportCloseInfo } from "./types";
+
+const mockOutputChannel = {
+  trace: jest.fn(),
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  append: jest.fn(),
+  appendLine: jest.fn(),
+  clear: jest.fn(),
+  show: jest.fn(),
+  hide: jest.fn(),
+  dispose: jest.fn(),
+};
+
+describe("WebSocketTransport", () => {
+  let server: WebSocketServer;
+  let url: string;
+  let connections: WebSocket[];
+  let protocols: string[];
+  let transport: WebSocketTransport;
+
+  beforeEach(async () => {
+    connections = [];
+    protocols = [];
+    server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+    server.on("connection", (socket, req) => {
+      connections.push(socket);
+      protocols.push(String(req.headers["sec-websocket-protocol"]));
+      socket.on("message", (data) => {
+        const message = JSON.parse(data.toString()) as JSONRPCMessage;
+        if (message.id !== undefined) {
+          socket.send(
+            JSON.stringify([
+              { jsonrpc: "2.0", method: "notifications/message" },
+              { jsonrpc: "2.0", id: message.id, result: {} },
+            ])
+          );
+        }
+      });
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    transport = new WebSocketTransport({ url });
+  });
+
+  afterEach(async () => {
+    await transport.close();
+    for (const socket of connections) {
+      socket.terminate();
+    }
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should exchange messages and unpack batches", async () => {
+    await transport.start();
+
+    const received: JSONRPCMessage[] = [];
+    const done = new Promise<void>((resolve) =>
+      transport.onMessage((message) => {
+        received.push(message);
+        if (message.id !== undefined) resolve();
+      })
+    );
+    await transport.send({ jsonrpc: "2.0", id: 1, method: "ping" });
+    await done;
+
+    expect(received.map((m) => m.method ?? m.id)).toEqual([
+      "notifications/message",
+      1,
+    ]);
+    expect(protocols).toEqual(["mcp"]);
+    expect(transport.getInfo()).toEqual({ type: "websocket", endpoint: url });
+  });
+
+  it("should fail to start when the server is unreachable", async () => {
+    transport = new WebSocketTransport({ url: "ws://127.0.0.1:1" });
+
+    await expect(transport.start()).rejects.toThrow();
+    expect(transport.isAlive()).toBe(false);
+  });
+
+  it("should report a server-side close with its code", async () => {
+    await transport.start();
+
+    const closed = new Promise<TransportCloseInfo>((resolve) =>
+      transport.onClose(resolve)
+    );
+    connections[0].close(1001, "server shutting down");
+
+    expect((await closed).reason).toBe(
+      "WebSocket closed with code 1001: server shutting down"
+    );
+    expect(transport.isAlive()).toBe(false);
+  });
+
+  it("should not report a close requested by the client", async () => {
+    await transport.start();
+    const onClose = jest.fn();
+    transport.onClose(onClose);
+
+    await transport.close();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  describe("with BaseMCPClient", () => {
+    class DaemonClient extends BaseMCPClient {
+      constructor(private readonly url: string) {
+        super("DaemonExtension", mockOutputChannel);
+      }
+
+      protected createTransport(): Transport {
+        return new WebSocketTransport({ url: this.url });
+      }
+
+      protected async onServerReady(): Promise<void> {}
+    }
+
+    it("should record a dropped WebSocket as a disconnect", async () => {
+      const client = new DaemonClient(url);
+      await client.start();
+      expect(client.getDiagnostics().endpoint).toBe(url);
+
+      connections[0].terminate();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const history = client.getDiagnostics().stateHistory;
+      const last = history[history.length - 1];
+      expect(last.state).toBe(ConnectionState.DISCONNECTED);
+      expect(last.message).toMatch(
+        /^Connection to server lost: WebSocket closed/
+      );
+      await client.stop();
+    });
+  });
+});
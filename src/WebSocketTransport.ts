@@ -0,0 +1,166 @@
+/**
+ * WebSocketTransport - Connects to an already-running MCP server over
+ * WebSocket
+ *
+ * Each text frame carries one JSON-RPC message (or batch). Closing the
+ * transport only disconnects; the server keeps running for other clients.
+ */
+
+import WebSocket from "ws";
+import { JSONRPCMessage, TransportInfo } from "./types";
+import { BaseTransport } from "./Transport";
+
+/**
+ * Options for connecting to a WebSocket endpoint
+ */
+export interface WebSocketTransportOptions {
+  /** WebSocket URL (ws:// or wss://) */
+  url: string;
+  /** Extra headers sent with the upgrade request (e.g. Authorization) */
+  headers?: Record<string, string>;
+  /** WebSocket subprotocols to offer (default: ["mcp"]) */
+  protocols?: string[];
+  /** Time to wait for the connection to open (default: 10000) */
+  connectTimeoutMs?: number;
+}
+
+/**
+ * WebSocketTransport
+ */
+export class WebSocketTransport extends BaseTransport {
+  private readonly options: WebSocketTransportOptions;
+  private socket?: WebSocket;
+  private connected: boolean = false;
+
+  constructor(options: WebSocketTransportOptions) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Open the WebSocket connection
+   */
+  async start(): Promise<void> {
+    const socket = new WebSocket(
+      this.options.url,
+      this.options.protocols ?? ["mcp"],
+      {
+        headers: this.options.headers,
+        handshakeTimeout: this.options.connectTimeoutMs ?? 10000,
+      }
+    );
+    this.socket = socket;
+
+    await new Promise<void>((resolve, reject) => {
+      const onError = (error: Error) => {
+        socket.off("open", onOpen);
+        reject(error);
+      };
+      const onOpen = () => {
+        socket.off("error", onError);
+        resolve();
+      };
+      socket.once("open", onOpen);
+      socket.once("error", onError);
+    });
+
+    this.connected = true;
+
+    socket.on("message", (data, isBinary) => {
+      const raw = isBinary ? "" : data.toString();
+      let parsed: JSONRPCMessage | JSONRPCMessage[];
+      try {
+        parsed = JSON.parse(raw);
+      } catch {
+        this.emitParseError(raw);
+        return;
+      }
+      for (const message of Array.isArray(parsed) ? parsed : [parsed]) {
+        this.emitMessage(message);
+      }
+    });
+
+    let lastError: Error | undefined;
+    socket.on("error", (error) => {
+      lastError = error;
+    });
+    socket.on("close", (code, reason) => {
+      if (!this.connected) {
+        return;
+      }
+      this.connected = false;
+      const detail = reason.toString() || lastError?.message;
+      this.emitClose({
+        code: null,
+        signal: null,
+        reason: `WebSocket closed with code ${code}${
+          detail ? `: ${detail}` : ""
+        }`,
+      });
+    });
+  }
+
+  /**
+   * Send a message as a text frame
+   */
+  async send(message: JSONRPCMessage): Promise<void> {
+    await this.sendFrame(message);
+  }
+
+  /**
+   * Send a batch as a single text frame
+   */
+  async sendBatch(messages: JSONRPCMessage[]): Promise<void> {
+    await this.sendFrame(messages);
+  }
+
+  /**
+   * Close the connection without notifying close listeners
+   */
+  async close(): Promise<void> {
+    this.connected = false;
+    if (!this.socket) {
+      return;
+    }
+
+    const socket = this.socket;
+    this.socket = undefined;
+    socket.removeAllListeners();
+    // Swallow errors raised while tearing down a half-open connection
+    socket.on("error", () => undefined);
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.close(1000);
+    } else {
+      socket.terminate();
+    }
+  }
+
+  isAlive(): boolean {
+    return this.connected;
+  }
+
+  getInfo(): TransportInfo {
+    return {
+      type: "websocket",
+      endpoint: this.options.url,
+    };
+  }
+
+  /**
+   * Send one JSON value as a text frame
+   */
+  private async sendFrame(
+    data: JSONRPCMessage | JSONRPCMessage[]
+  ): Promise<void> {
+    if (!this.socket || !this.connected) {
+      throw new Error("Transport not connected");
+    }
+
+    const socket = this.socket;
+    await new Promise<void>((resolve, reject) => {
+      socket.send(JSON.stringify(data), (error) =>
+        error ? reject(error) : resolve()
+      );
+    });
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for backoffStrategies
+ */
+
+import {
+  constantBackoff,
+  createBackoffStrategy,
+  decorrelatedJitterBackoff,
+  exponentialBackoff,
+  fullJitterBackoff,
+  linearBackoff,
+} from "./backoffStrategies";
+import { BackoffContext, BackoffStrategyName } from "./types";
+
+const context = (overrides: Partial<BackoffContext> = {}): BackoffContext => ({
+  attempt: 3,
+  baseDelayMs: 1000,
+  multiplier: 2,
+  maxDelayMs: Infinity,
+  ...overrides,
+});
+
+describe("backoffStrategies", () => {
+  it("should compute constant, linear and exponential delays", () => {
+    expect(constantBackoff().getDelay(context())).toBe(1000);
+    expect(linearBackoff().getDelay(context())).toBe(3000);
+    expect(exponentialBackoff().getDelay(context())).toBe(4000);
+  });
+
+  it("should cap delays at maxDelayMs", () => {
+    const capped = context({ attempt: 10, maxDelayMs: 5000 });
+
+    expect(linearBackoff().getDelay(capped)).toBe(5000);
+    expect(exponentialBackoff().getDelay(capped)).toBe(5000);
+    expect(fullJitterBackoff(() => 0.5).getDelay(capped)).toBe(2500);
+    expect(
+      decorrelatedJitterBackoff(() => 0.99).getDelay({
+        ...capped,
+        previousDelayMs: 4000,
+      })
+    ).toBe(5000);
+  });
+
+  it("should scale the exponential delay by the random value for full jitter", () => {
+    expect(fullJitterBackoff(() => 0).getDelay(context())).toBe(0);
+    expect(fullJitterBackoff(() => 0.25).getDelay(context())).toBe(1000);
+  });
+
+  it("should pick decorrelated delays between the base and three times the previous delay", () => {
+    const strategy = decorrelatedJitterBackoff(() => 0.5);
+
+    // No previous delay: between 1000 and 3000
+    expect(strategy.getDelay(context())).toBe(2000);
+    expect(strategy.getDelay(context({ previousDelayMs: 2000 }))).toBe(3500);
+  });
+
+  it("should create built-in strategies by name", () => {
+    const names: BackoffStrategyName[] = [
+      "constant",
+      "linear",
+      "exponential",
+      "full-jitter",
+      "decorrelated-jitter",
+    ];
+
+    expect(names.map((name) => createBackoffStrategy(name).name)).toEqual(
+      names
+    );
+    expect(() =>
+      createBackoffStrategy("random" as BackoffStrategyName)
+    ).toThrow("Unknown backoff strategy: random");
+  });
+});
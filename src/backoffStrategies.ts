@@ -0,0 +1,132 @@
+/**
+ * backoffStrategies - Built-in retry delay strategies for ReSyncManager
+ *
+ * The jitter strategies spread retries out so that several extensions
+ * restarted together do not retry in lockstep. They take the random number
+ * generator as a parameter so tests can make them deterministic.
+ */
+
+import { BackoffContext, BackoffStrategy, BackoffStrategyName } from "./types";
+
+/**
+ * Random number generator returning values in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Names of the built-in strategies
+ */
+export const BACKOFF_STRATEGY_NAMES: readonly BackoffStrategyName[] = [
+  "constant",
+  "linear",
+  "exponential",
+  "full-jitter",
+  "decorrelated-jitter",
+];
+
+/**
+ * Same delay before every retry
+ */
+export function constantBackoff(): BackoffStrategy {
+  return {
+    name: "constant",
+    getDelay: ({ baseDelayMs, maxDelayMs }) =>
+      Math.min(maxDelayMs, baseDelayMs),
+  };
+}
+
+/**
+ * Delay grows by the base delay with each attempt
+ */
+export function linearBackoff(): BackoffStrategy {
+  return {
+    name: "linear",
+    getDelay: ({ attempt, baseDelayMs, maxDelayMs }) =>
+      Math.min(maxDelayMs, baseDelayMs * Math.max(1, attempt)),
+  };
+}
+
+/**
+ * Delay is multiplied by the backoff multiplier with each attempt
+ */
+export function exponentialBackoff(): BackoffStrategy {
+  return {
+    name: "exponential",
+    getDelay: (context) => exponentialDelay(context),
+  };
+}
+
+/**
+ * Random delay between 0 and the exponential delay
+ * @param random Random number generator (default: Math.random)
+ */
+export function fullJitterBackoff(
+  random: RandomSource = Math.random
+): BackoffStrategy {
+  return {
+    name: "full-jitter",
+    getDelay: (context) => random() * exponentialDelay(context),
+  };
+}
+
+/**
+ * Random delay between the base delay and three times the previous delay,
+ * so consecutive delays are spread out but still tend to grow
+ * @param random Random number generator (default: Math.random)
+ */
+export function decorrelatedJitterBackoff(
+  random: RandomSource = Math.random
+): BackoffStrategy {
+  return {
+    name: "decorrelated-jitter",
+    getDelay: ({ previousDelayMs, baseDelayMs, maxDelayMs }) => {
+      const upper = Math.max(baseDelayMs, (previousDelayMs ?? baseDelayMs) * 3);
+      return Math.min(
+        maxDelayMs,
+        baseDelayMs + random() * (upper - baseDelayMs)
+      );
+    },
+  };
+}
+
+/**
+ * Create a built-in strategy by name
+ * @param name Strategy name
+ * @param random Random number generator for the jitter strategies
+ * @returns The strategy
+ * @throws Error for an unknown name
+ */
+export function createBackoffStrategy(
+  name: BackoffStrategyName,
+  random: RandomSource = Math.random
+): BackoffStrategy {
+  switch (name) {
+    case "constant":
+      return constantBackoff();
+    case "linear":
+      return linearBackoff();
+    case "exponential":
+      return exponentialBackoff();
+    case "full-jitter":
+      return fullJitterBackoff(random);
+    case "decorrelated-jitter":
+      return decorrelatedJitterBackoff(random);
+    default:
+      throw new Error(`Unknown backoff strategy: ${String(name)}`);
+  }
+}
+
+/**
+ * retryDelayMs × backoffMultiplier ^ (attempt - 1), capped at maxDelayMs
+ */
+function exponentialDelay({
+  attempt,
+  baseDelayMs,
+  multiplier,
+  maxDelayMs,
+}: BackoffContext): number {
+  return Math.min(
+    maxDelayMs,
+    baseDelayMs * Math.pow(multiplier, Math.max(0, attempt - 1))
+  );
+}
@@ -9,6 +9,7 @@ import * as fc from "fast-check";
 import { TimeoutManager } from "./TimeoutManager";
 import { ConnectionStateManager } from "./ConnectionStateManager";
 import { BaseMCPClient, LogOutputChannel } from "./BaseMCPClient";
+import { StdioTransport } from "./StdioTransport";
 import { ConnectionState } from "./types";
 
 // Mock implementations for testing
@@ -486,10 +487,10 @@ describe("Property 17: Process alive detection consistency", () => {
         );
 
         if (hasProcess) {
-          (processClient as any).serverProcess = undefined;
-          (screenshotClient as any).serverProcess = undefined;
-          (debuggerClient as any).serverProcess = undefined;
-          (filesystemClient as any).serverProcess = undefined;
+          (processClient as any).transport = undefined;
+          (screenshotClient as any).transport = undefined;
+          (debuggerClient as any).transport = undefined;
+          (filesystemClient as any).transport = undefined;
         } else {
           const mockProcess = {
             pid: 12345,
@@ -497,11 +498,16 @@ describe("Property 17: Process alive detection consistency", () => {
             exitCode: 0,
             signalCode: null,
           } as any;
-
-          (processClient as any).serverProcess = mockProcess;
-          (screenshotClient as any).serverProcess = mockProcess;
-          (debuggerClient as any).serverProcess = mockProcess;
-          (filesystemClient as any).serverProcess = mockProcess;
+          const mockTransport = new StdioTransport({
+            command: "node",
+            args: [],
+          });
+          (mockTransport as any).process = mockProcess;
+
+          (processClient as any).transport = mockTransport;
+          (screenshotClient as any).transport = mockTransport;
+          (debuggerClient as any).transport = mockTransport;
+          (filesystemClient as any).transport = mockTransport;
         }
 
         const processAlive = processClient.isServerProcessAlive();
@@ -539,11 +545,16 @@ describe("Property 17: Process alive detection consistency", () => {
             exitCode: null,
             signalCode: null,
           } as any;
-
-          (processClient as any).serverProcess = mockProcess;
-          (screenshotClient as any).serverProcess = mockProcess;
-          (debuggerClient as any).serverProcess = mockProcess;
-          (filesystemClient as any).serverProcess = mockProcess;
+          const mockTransport = new StdioTransport({
+            command: "node",
+            args: [],
+          });
+          (mockTransport as any).process = mockProcess;
+
+          (processClient as any).transport = mockTransport;
+          (screenshotClient as any).transport = mockTransport;
+          (debuggerClient as any).transport = mockTransport;
+          (filesystemClient as any).transport = mockTransport;
         }
 
         const processDiag = processClient.getDiagnostics();
@@ -10,7 +10,7 @@
 
 import { DiagnosticCommands } from "./diagnosticCommands";
 import { BaseMCPClient } from "./BaseMCPClient";
-import { ConnectionState, ServerDiagnostics } from "./types";
+import { CircuitState, ConnectionState, ServerDiagnostics } from "./types";
 
 // Mock BaseMCPClient
 class MockMCPClient extends BaseMCPClient {
@@ -35,7 +35,7 @@ class MockMCPClient extends BaseMCPClient {
     return true;
   }
 
-  stop(): void {
+  async stop(): Promise<void> {
     this.stopCalled = true;
   }
 
@@ -170,19 +170,24 @@ describe("DiagnosticCommands", () => {
       ).rejects.toThrow("Extension non-existent not registered");
     });
 
-    it("should wait between stop and start", async () => {
+    it("should wait for the server to stop before starting it", async () => {
       diagnosticCommands.registerExtension({
         name: "test-ext",
         displayName: "Test Extension",
         client: mockClient1,
       });
+      const calls: string[] = [];
+      jest.spyOn(mockClient1, "stop").mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        calls.push("stopped");
+      });
+      jest.spyOn(mockClient1, "start").mockImplementation(async () => {
+        calls.push("started");
+      });
 
-      const startTime = Date.now();
       await diagnosticCommands.restartServer("test-ext");
-      const elapsed = Date.now() - startTime;
 
-      // Should wait at least 500ms
-      expect(elapsed).toBeGreaterThanOrEqual(450); // Allow some tolerance
+      expect(calls).toEqual(["stopped", "started"]);
     });
   });
 
@@ -227,6 +232,92 @@ describe("DiagnosticCommands", () => {
       expect(formatted).toContain("Process Running:");
       expect(formatted).toContain("Pending Requests:");
     });
+
+    it("should show the last progress of pending requests", () => {
+      const diagnostics = {
+        ...mockClient1.getDiagnostics(),
+        pendingRequestCount: 2,
+        pendingRequests: [
+          {
+            id: 7,
+            method: "tools/call",
+            elapsedMs: 1200,
+            progress: { progress: 40, total: 100, message: "Indexing" },
+          },
+          { id: 8, method: "tools/list", elapsedMs: 5 },
+        ],
+      };
+
+      const formatted = diagnosticCommands.formatDiagnostics(diagnostics);
+
+      expect(formatted).toContain(
+        "[7] tools/call (1200ms elapsed, progress 40/100: Indexing)"
+      );
+      expect(formatted).toContain("[8] tools/list (5ms elapsed)");
+    });
+
+    it("should show which rule chose the timeout of pending requests", () => {
+      const diagnostics = {
+        ...mockClient1.getDiagnostics(),
+        pendingRequestCount: 2,
+        pendingRequests: [
+          {
+            id: 3,
+            method: "tools/call",
+            elapsedMs: 900,
+            timeoutMs: 180000,
+            timeoutSource: 'rules[0] (tool "fs_search")',
+          },
+          {
+            id: 4,
+            method: "ping",
+            elapsedMs: 10,
+            timeoutMs: 30000,
+            timeoutSource: "standardRequestTimeoutMs",
+          },
+        ],
+      };
+
+      const formatted = diagnosticCommands.formatDiagnostics(diagnostics);
+
+      expect(formatted).toContain(
+        '[3] tools/call (900ms elapsed, timeout 180000ms from rules[0] (tool "fs_search"))'
+      );
+      expect(formatted).toContain(
+        "[4] ping (10ms elapsed, timeout 30000ms from standardRequestTimeoutMs)"
+      );
+    });
+
+    it("should show observed latency per method and tool", () => {
+      const diagnostics = {
+        ...mockClient1.getDiagnostics(),
+        latencyStats: [
+          {
+            method: "tools/call",
+            tool: "fs_search",
+            count: 42,
+            ewmaMs: 180,
+            p95Ms: 400,
+            p99Ms: 650,
+            windowSamples: 42,
+          },
+          {
+            method: "tools/list",
+            count: 3,
+            ewmaMs: 12,
+            p95Ms: 20,
+            p99Ms: 20,
+            windowSamples: 3,
+          },
+        ],
+      };
+
+      const formatted = diagnosticCommands.formatDiagnostics(diagnostics);
+
+      expect(formatted).toContain(
+        "Latency:\n  tools/call fs_search: 42 samples, EWMA 180ms, p95 400ms, p99 650ms\n  tools/list: 3 samples, EWMA 12ms, p95 20ms, p99 20ms"
+      );
+    });
   });
 
   describe("Show All MCP Status Command", () => {
@@ -296,6 +387,127 @@ describe("DiagnosticCommands", () => {
       expect(formatted).toMatch(/Process Running: (Yes|No)/);
     });
 
+    it("should include endpoint and session for network transports", () => {
+      const diagnostics = {
+        ...mockClient1.getDiagnostics(),
+        processRunning: true,
+        endpoint: "http://127.0.0.1:3000/mcp",
+        sessionId: "session-123",
+        protocolVersion: "2025-06-18",
+        transport: {
+          type: "streamable-http",
+          endpoint: "http://127.0.0.1:3000/mcp",
+          sessionId: "session-123",
+        },
+      };
+      jest.spyOn(mockClient1, "getDiagnostics").mockReturnValue(diagnostics);
+      diagnosticCommands.registerExtension({
+        name: "test-ext",
+        displayName: "Test Extension",
+        client: mockClient1,
+      });
+
+      const formatted = diagnosticCommands.formatDiagnostics(diagnostics);
+      const summary = diagnosticCommands.formatAllDiagnostics();
+
+      expect(formatted).toContain("Endpoint: http://127.0.0.1:3000/mcp");
+      expect(formatted).toContain("Session ID: session-123");
+      expect(formatted).toContain("Protocol Version: 2025-06-18");
+      expect(formatted).not.toContain("Process ID");
+      expect(summary).toContain("streamable-http");
+    });
+
+    it("should list every process the server runs as", () => {
+      const diagnostics = {
+        ...mockClient1.getDiagnostics(),
+        processRunning: true,
+        processId: 4100,
+        processTree: [4100, 4112, 4130],
+      };
+
+      const formatted = diagnosticCommands.formatDiagnostics(diagnostics);
+
+      expect(formatted).toContain("Process ID: 4100");
+      expect(formatted).toContain("Process Tree: 4100, 4112, 4130");
+    });
+
+    it("should show uptime and resource use of the server", () => {
+      const diagnostics = {
+        ...mockClient1.getDiagnostics(),
+        processRunning: true,
+        processId: 4100,
+        uptimeMs: 3725000,
+        resources: {
+          rssBytes: 150 * 1024 * 1024,
+          cpuTimeMs: 12340,
+          cpuPercent: 2.5,
+          openFds: 42,
+          processCount: 2,
+          sampledAt: Date.now(),
+        },
+      };
+
+      const formatted = diagnosticCommands.formatDiagnostics(diagnostics);
+
+      expect(formatted).toContain("Uptime: 1h 2m 5s");
+      expect(formatted).toContain("Memory (RSS): 150.0 MB");
+      expect(formatted).toContain("CPU: 2.5%, 12.3s total");
+      expect(formatted).toContain("Open File Descriptors: 42 (2 processes)");
+    });
+
+    it("should show circuit breaker state in details and summary", () => {
+      const diagnostics = {
+        ...mockClient1.getDiagnostics(),
+        circuitBreaker: {
+          state: CircuitState.OPEN,
+          failureCount: 5,
+          openedAt: Date.UTC(2024, 0, 1, 12, 0, 0),
+          retryAt: Date.UTC(2024, 0, 1, 12, 0, 30),
+        },
+      };
+      jest.spyOn(mockClient1, "getDiagnostics").mockReturnValue(diagnostics);
+      diagnosticCommands.registerExtension({
+        name: "test-ext",
+        displayName: "Test Extension",
+        client: mockClient1,
+      });
+
+      const formatted = diagnosticCommands.formatDiagnostics(diagnostics);
+      const summary = diagnosticCommands.formatAllDiagnostics();
+
+      expect(formatted).toContain(
+        "Circuit Breaker: open (5 recent failures, probe at 2024-01-01T12:00:30.000Z)"
+      );
+      expect(summary).toMatch(/Pending\s+Circuit/);
+      expect(summary).toMatch(/Test Extension.*\s0\s+open$/m);
+    });
+
+    it("should explain a crash loop with the server's stderr", () => {
+      const diagnostics = {
+        ...mockClient1.getDiagnostics(),
+        connectionState: ConnectionState.CRASH_LOOP,
+        crashLoop: {
+          crashCount: 6,
+          windowMs: 60000,
+          detectedAt: Date.UTC(2024, 0, 1, 12, 0, 0),
+          lastExit: "Server process exited with code: 1",
+          stderr: "Error: Cannot find module 'express'\n    at require\n",
+        },
+      };
+
+      const formatted = diagnosticCommands.formatDiagnostics(diagnostics);
+
+      expect(formatted).toContain(
+        [
+          "Crash Loop: 6 crashes within 60000ms, restarts stopped at 2024-01-01T12:00:00.000Z",
+          "  Last Exit: Server process exited with code: 1",
+          "  Server stderr:",
+          "    Error: Cannot find module 'express'",
+          "        at require",
+        ].join("\n")
+      );
+    });
+
     it("should include pending requests in diagnostics", () => {
       diagnosticCommands.registerExtension({
         name: "test-ext",
@@ -325,6 +537,26 @@ describe("DiagnosticCommands", () => {
       expect(formatted).toContain("Diagnostics");
     });
 
+    it("should mark communication initiated by the server", () => {
+      const diagnostics = {
+        ...mockClient1.getDiagnostics(),
+        recentCommunication: [
+          {
+            type: "request" as const,
+            method: "roots/list",
+            timestamp: Date.now(),
+            success: true,
+            requestId: 1,
+            inbound: true,
+          },
+        ],
+      };
+
+      const formatted = diagnosticCommands.formatDiagnostics(diagnostics);
+
+      expect(formatted).toContain("request (from server): roots/list");
+    });
+
     it("should include state history in diagnostics", () => {
       diagnosticCommands.registerExtension({
         name: "test-ext",
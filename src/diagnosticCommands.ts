@@ -60,11 +60,8 @@ export class DiagnosticCommands {
       throw new Error(`Extension ${extensionName} not registered`);
     }
 
-    // Stop and start the server
-    extension.client.stop();
-
-    // Wait a moment for cleanup
-    await new Promise((resolve) => setTimeout(resolve, 500));
+    // Wait for the old server to exit before starting a new one
+    await extension.client.stop();
 
     await extension.client.start();
   }
@@ -112,21 +109,103 @@ export class DiagnosticCommands {
     if (diagnostics.processId) {
       lines.push(`Process ID: ${diagnostics.processId}`);
     }
+    if (diagnostics.processTree && diagnostics.processTree.length > 0) {
+      lines.push(`Process Tree: ${diagnostics.processTree.join(", ")}`);
+    }
+    if (diagnostics.uptimeMs !== undefined) {
+      lines.push(`Uptime: ${formatDuration(diagnostics.uptimeMs)}`);
+    }
+    if (diagnostics.resources) {
+      const { rssBytes, cpuPercent, cpuTimeMs, openFds, processCount } =
+        diagnostics.resources;
+      const current = cpuPercent !== undefined ? `${cpuPercent}%, ` : "";
+      lines.push(`Memory (RSS): ${(rssBytes / (1024 * 1024)).toFixed(1)} MB`);
+      lines.push(`CPU: ${current}${(cpuTimeMs / 1000).toFixed(1)}s total`);
+      lines.push(
+        `Open File Descriptors: ${openFds}${
+          processCount > 1 ? ` (${processCount} processes)` : ""
+        }`
+      );
+    }
+    if (diagnostics.endpoint) {
+      lines.push(`Endpoint: ${diagnostics.endpoint}`);
+    }
+    if (diagnostics.sessionId) {
+      lines.push(`Session ID: ${diagnostics.sessionId}`);
+    }
+    if (diagnostics.protocolVersion) {
+      lines.push(`Protocol Version: ${diagnostics.protocolVersion}`);
+    }
+    if (diagnostics.circuitBreaker) {
+      const { state, failureCount, retryAt } = diagnostics.circuitBreaker;
+      const probe = retryAt
+        ? `, probe at ${new Date(retryAt).toISOString()}`
+        : "";
+      lines.push(
+        `Circuit Breaker: ${state} (${failureCount} recent failures${probe})`
+      );
+    }
     lines.push("");
 
+    // Why automatic restarts stopped
+    if (diagnostics.crashLoop) {
+      const { crashCount, windowMs, detectedAt, lastExit, stderr } =
+        diagnostics.crashLoop;
+      lines.push(
+        `Crash Loop: ${crashCount} crashes within ${windowMs}ms, restarts stopped at ${new Date(
+          detectedAt
+        ).toISOString()}`
+      );
+      lines.push(`  Last Exit: ${lastExit}`);
+      if (stderr.trim()) {
+        lines.push("  Server stderr:");
+        for (const line of stderr.trimEnd().split(/\r?\n/)) {
+          lines.push(`    ${line}`);
+        }
+      }
+      lines.push("");
+    }
+
     // Pending requests
     lines.push(`Pending Requests: ${diagnostics.pendingRequestCount}`);
     if (diagnostics.pendingRequests.length > 0) {
       lines.push("");
       lines.push("Active Requests:");
       for (const req of diagnostics.pendingRequests) {
+        let progress = "";
+        if (req.progress) {
+          const { progress: value, total, message } = req.progress;
+          progress = `, progress ${value}${
+            total !== undefined ? `/${total}` : ""
+          }${message ? `: ${message}` : ""}`;
+        }
+        const timeout =
+          req.timeoutMs !== undefined
+            ? `, timeout ${req.timeoutMs}ms${
+                req.timeoutSource ? ` from ${req.timeoutSource}` : ""
+              }`
+            : "";
         lines.push(
-          `  - [${req.id}] ${req.method} (${req.elapsedMs}ms elapsed)`
+          `  - [${req.id}] ${req.method} (${req.elapsedMs}ms elapsed${timeout}${progress})`
         );
       }
     }
     lines.push("");
 
+    // Observed latency
+    if (diagnostics.latencyStats && diagnostics.latencyStats.length > 0) {
+      lines.push("Latency:");
+      for (const stats of diagnostics.latencyStats) {
+        const name = stats.tool
+          ? `${stats.method} ${stats.tool}`
+          : stats.method;
+        lines.push(
+          `  ${name}: ${stats.count} samples, EWMA ${stats.ewmaMs}ms, p95 ${stats.p95Ms}ms, p99 ${stats.p99Ms}ms`
+        );
+      }
+      lines.push("");
+    }
+
     // Last error
     if (diagnostics.lastError) {
       lines.push(`Last Error: ${diagnostics.lastError.message}`);
@@ -146,7 +225,10 @@ export class DiagnosticCommands {
         const timestamp = new Date(comm.timestamp).toISOString();
         const status = comm.success ? "✓" : "✗";
         const method = comm.method || "notification";
-        lines.push(`  ${status} [${timestamp}] ${comm.type}: ${method}`);
+        const origin = comm.inbound ? " (from server)" : "";
+        lines.push(
+          `  ${status} [${timestamp}] ${comm.type}${origin}: ${method}`
+        );
       }
       lines.push("");
     }
@@ -189,7 +271,8 @@ export class DiagnosticCommands {
       "Extension".padEnd(30) +
         "State".padEnd(20) +
         "Process".padEnd(15) +
-        "Pending"
+        "Pending".padEnd(10) +
+        "Circuit"
     );
     lines.push("-".repeat(80));
 
@@ -197,16 +280,20 @@ export class DiagnosticCommands {
       const extension = this.extensions.get(name);
       const displayName = extension?.displayName || name;
       const state = diag.connectionState;
-      const processStatus = diag.processRunning
+      const processStatus = !diag.processRunning
+        ? "Not Running"
+        : diag.processId
         ? `PID ${diag.processId}`
-        : "Not Running";
+        : diag.transport?.type ?? "Running";
       const pending = diag.pendingRequestCount.toString();
+      const circuit = diag.circuitBreaker?.state ?? "-";
 
       lines.push(
         displayName.padEnd(30) +
           state.padEnd(20) +
           processStatus.padEnd(15) +
-          pending
+          pending.padEnd(10) +
+          circuit
       );
     }
 
@@ -233,6 +320,21 @@ export class DiagnosticCommands {
   }
 }
 
+/**
+ * Format a duration as hours, minutes and seconds, e.g. "1h 2m 5s"
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const parts = [
+    [Math.floor(seconds / 3600), "h"],
+    [Math.floor((seconds % 3600) / 60), "m"],
+  ]
+    .filter(([value]) => value)
+    .map(([value, unit]) => `${value}${unit}`);
+  parts.push(`${seconds % 60}s`);
+  return parts.join(" ");
+}
+
 /**
  * Global diagnostic commands instance
  */
@@ -0,0 +1,65 @@
+/**
+ * Shared helpers for the HTTP-based transports
+ */
+
+import * as http from "http";
+import * as https from "https";
+
+/**
+ * Error raised when an MCP endpoint answers with a non-success status
+ */
+export class HttpStatusError extends Error {
+  /** HTTP status code returned by the server */
+  readonly status: number;
+
+  constructor(status: number, body: string) {
+    super(
+      `HTTP ${status} from MCP endpoint${body ? `: ${body.slice(0, 200)}` : ""}`
+    );
+    this.name = "HttpStatusError";
+    this.status = status;
+  }
+}
+
+/**
+ * Start an HTTP(S) request and resolve once response headers arrive
+ * @param url Target URL
+ * @param method HTTP method
+ * @param headers Request headers
+ * @param body Optional request body
+ * @param onRequest Called with the request object before it is sent
+ */
+export function sendHttpRequest(
+  url: URL,
+  method: string,
+  headers: Record<string, string>,
+  body?: string,
+  onRequest?: (req: http.ClientRequest) => void
+): Promise<http.IncomingMessage> {
+  const allHeaders = { ...headers };
+  if (body !== undefined) {
+    allHeaders["Content-Length"] = Buffer.byteLength(body).toString();
+  }
+
+  const client = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = client.request(url, { method, headers: allHeaders }, resolve);
+    req.on("error", reject);
+    onRequest?.(req);
+    req.end(body);
+  });
+}
+
+/**
+ * Read a response body as text
+ */
+export function readBody(res: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    res.setEncoding("utf8");
+    res.on("data", (chunk: string) => (body += chunk));
+    res.on("end", () => resolve(body));
+    res.on("error", reject);
+  });
+}
@@ -11,6 +11,52 @@ export type { LogOutputChannel } from "./BaseMCPClient";
 export { TimeoutManager } from "./TimeoutManager";
 export { ConnectionStateManager } from "./ConnectionStateManager";
 export { ReSyncManager } from "./ReSyncManager";
+export {
+  constantBackoff,
+  linearBackoff,
+  exponentialBackoff,
+  fullJitterBackoff,
+  decorrelatedJitterBackoff,
+  createBackoffStrategy,
+} from "./backoffStrategies";
+export type { RandomSource } from "./backoffStrategies";
+export { LatencyTracker } from "./LatencyTracker";
+export { CatalogCache } from "./CatalogCache";
+export { CircuitBreaker } from "./CircuitBreaker";
+export { ResourceMonitor } from "./ResourceMonitor";
+export type { CatalogFetchers } from "./CatalogCache";
+export { BaseTransport } from "./Transport";
+export type { Transport } from "./Transport";
+export { StdioTransport } from "./StdioTransport";
+export type { StdioTransportOptions } from "./StdioTransport";
+export { listProcessTree, signalProcessTree } from "./processTree";
+export { StreamableHttpTransport } from "./StreamableHttpTransport";
+export type { StreamableHttpTransportOptions } from "./StreamableHttpTransport";
+export { SseTransport } from "./SseTransport";
+export type { SseTransportOptions } from "./SseTransport";
+export { AutoDetectHttpTransport } from "./AutoDetectHttpTransport";
+export type { AutoDetectHttpTransportOptions } from "./AutoDetectHttpTransport";
+export { HttpStatusError } from "./httpUtils";
+export { MCPRequestError } from "./MCPRequestError";
+export { ToolValidationError } from "./ToolValidationError";
+export { Deadline, withDeadline } from "./Deadline";
+export { DeadlineExceededError } from "./DeadlineExceededError";
+export { CircuitOpenError } from "./CircuitOpenError";
+export { validateJsonSchema } from "./jsonSchema";
+export {
+  SUPPORTED_PROTOCOL_VERSIONS,
+  LATEST_PROTOCOL_VERSION,
+  PROTOCOL_VERSION_HEADER,
+} from "./protocolVersions";
+export { WebSocketTransport } from "./WebSocketTransport";
+export type { WebSocketTransportOptions } from "./WebSocketTransport";
+export { UnixSocketTransport } from "./UnixSocketTransport";
+export type { UnixSocketTransportOptions } from "./UnixSocketTransport";
+export { InMemoryTransport } from "./InMemoryTransport";
+export { SseParser } from "./SseParser";
+export type { SseEvent } from "./SseParser";
+export { generateTypings, schemaToType } from "./typingsGenerator";
+export type { TypingsGeneratorOptions } from "./typingsGenerator";
 export { DiagnosticCommands, diagnosticCommands } from "./diagnosticCommands";
 export type { ExtensionInfo } from "./diagnosticCommands";
 
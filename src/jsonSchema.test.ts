@@ -0,0 +1,177 @@
+/**
+ * Unit tests for jsonSchema
+ */
+
+import { appendJsonPointer, validateJsonSchema } from "./jsonSchema";
+
+describe("jsonSchema", () => {
+  describe("appendJsonPointer", () => {
+    it("should escape ~ and / in tokens", () => {
+      expect(appendJsonPointer("", "a/b~c")).toBe("/a~1b~0c");
+      expect(appendJsonPointer("/items", 0)).toBe("/items/0");
+    });
+  });
+
+  describe("validateJsonSchema", () => {
+    it("should accept values that match", () => {
+      const schema = {
+        type: "object",
+        properties: {
+          name: { type: "string", pattern: "^[a-z]+$" },
+          tags: { type: "array", items: { type: "string" }, uniqueItems: true },
+          mode: { enum: ["fast", "slow"] },
+          count: { type: ["integer", "null"], minimum: 0 },
+        },
+        required: ["name"],
+      };
+
+      expect(
+        validateJsonSchema(schema, {
+          name: "abc",
+          tags: ["x", "y"],
+          mode: "fast",
+          count: null,
+        })
+      ).toEqual([]);
+    });
+
+    it("should report type mismatches without descending further", () => {
+      expect(
+        validateJsonSchema({ type: "object", required: ["a"] }, [
+          "not",
+          "an",
+          "object",
+        ])
+      ).toEqual([{ path: "", message: "expected object, got array" }]);
+    });
+
+    it("should report nested violations with JSON pointers", () => {
+      const schema = {
+        type: "object",
+        properties: {
+          filters: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { "field/name": { type: "string" } },
+              required: ["op"],
+            },
+          },
+        },
+      };
+
+      expect(
+        validateJsonSchema(schema, {
+          filters: [{ op: "eq", "field/name": "x" }, { "field/name": 3 }],
+        })
+      ).toEqual([
+        { path: "/filters/1/op", message: "is required" },
+        {
+          path: "/filters/1/field~1name",
+          message: "expected string, got integer",
+        },
+      ]);
+    });
+
+    it("should check string, number and array bounds", () => {
+      expect(validateJsonSchema({ maxLength: 2 }, "abc")).toEqual([
+        { path: "", message: "must be at most 2 characters long" },
+      ]);
+      expect(
+        validateJsonSchema({ exclusiveMaximum: 10, multipleOf: 3 }, 10)
+      ).toEqual([
+        { path: "", message: "must be < 10" },
+        { path: "", message: "must be a multiple of 3" },
+      ]);
+      expect(validateJsonSchema({ minItems: 1 }, [])).toEqual([
+        { path: "", message: "must have at least 1 items" },
+      ]);
+    });
+
+    it("should accept decimal multiples despite floating point error", () => {
+      expect(validateJsonSchema({ multipleOf: 0.01 }, 0.07)).toEqual([]);
+      expect(validateJsonSchema({ multipleOf: 0.1 }, 0.3)).toEqual([]);
+      expect(validateJsonSchema({ multipleOf: 0.01 }, 0.075)).toEqual([
+        { path: "", message: "must be a multiple of 0.01" },
+      ]);
+    });
+
+    it("should compare objects regardless of key order", () => {
+      expect(
+        validateJsonSchema(
+          { const: { a: 1, b: [2, { c: 3 }] } },
+          {
+            b: [2, { c: 3 }],
+            a: 1,
+          }
+        )
+      ).toEqual([]);
+      expect(
+        validateJsonSchema({ enum: [{ x: 1, y: 2 }] }, { y: 2, x: 1 })
+      ).toEqual([]);
+      expect(
+        validateJsonSchema({ uniqueItems: true }, [
+          { a: 1, b: 2 },
+          { b: 2, a: 1 },
+        ])
+      ).toEqual([{ path: "", message: "must not contain duplicate items" }]);
+      expect(
+        validateJsonSchema({ uniqueItems: true }, [{ a: 1 }, { a: 1, b: 2 }])
+      ).toEqual([]);
+    });
+
+    it("should not treat inherited names as declared or present", () => {
+      expect(
+        validateJsonSchema(
+          { properties: { a: {} }, additionalProperties: false },
+          { toString: "x", constructor: 1 }
+        )
+      ).toEqual([
+        { path: "/toString", message: "is not allowed" },
+        { path: "/constructor", message: "is not allowed" },
+      ]);
+      expect(validateJsonSchema({ required: ["constructor"] }, {})).toEqual([
+        { path: "/constructor", message: "is required" },
+      ]);
+    });
+
+    it("should validate additionalProperties as a schema", () => {
+      expect(
+        validateJsonSchema(
+          { properties: { a: {} }, additionalProperties: { type: "number" } },
+          { a: "anything", b: 1, c: "two" }
+        )
+      ).toEqual([{ path: "/c", message: "expected number, got string" }]);
+    });
+
+    it("should apply anyOf, oneOf and not", () => {
+      const anyOf = { anyOf: [{ type: "string" }, { type: "number" }] };
+      expect(validateJsonSchema(anyOf, 1)).toEqual([]);
+      expect(validateJsonSchema(anyOf, true)).toEqual([
+        { path: "", message: "must match at least one of the allowed schemas" },
+      ]);
+
+      const oneOf = { oneOf: [{ type: "number" }, { type: "integer" }] };
+      expect(validateJsonSchema(oneOf, 1.5)).toEqual([]);
+      expect(validateJsonSchema(oneOf, 1)).toEqual([
+        {
+          path: "",
+          message: "must match exactly one of the allowed schemas (matched 2)",
+        },
+      ]);
+
+      expect(validateJsonSchema({ not: { const: "x" } }, "x")).toEqual([
+        { path: "", message: "must not match the excluded schema" },
+      ]);
+    });
+
+    it("should ignore keywords it does not support", () => {
+      expect(
+        validateJsonSchema(
+          { $ref: "#/definitions/thing", format: "email", type: "string" },
+          "not an email"
+        )
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Minimal JSON Schema validation for tool input and output schemas
+ *
+ * Covers the keywords tool schemas use in practice: type, enum, const,
+ * properties, required, additionalProperties, items, string/number/array
+ * bounds, pattern, allOf, anyOf, oneOf and not. Other keywords (including
+ * $ref and format) are ignored, so an unsupported schema never rejects a
+ * value.
+ */
+
+import { SchemaViolation } from "./types";
+
+type Schema = Record<string, unknown>;
+
+/**
+ * Validate a value against a JSON Schema
+ * @param schema JSON Schema object
+ * @param value Value to check
+ * @returns Violations found, with JSON-pointer paths; empty when valid
+ */
+export function validateJsonSchema(
+  schema: unknown,
+  value: unknown
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  validate(schema, value, "", violations);
+  return violations;
+}
+
+/**
+ * Append a property name or array index to a JSON pointer (RFC 6901)
+ * @param pointer Pointer to the parent value
+ * @param token Property name or array index
+ */
+export function appendJsonPointer(
+  pointer: string,
+  token: string | number
+): string {
+  return `${pointer}/${String(token).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+}
+
+function validate(
+  schema: unknown,
+  value: unknown,
+  path: string,
+  violations: SchemaViolation[]
+): void {
+  if (schema === false) {
+    violations.push({ path, message: "no value is allowed here" });
+    return;
+  }
+  if (!isObject(schema)) {
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      violations.push({
+        path,
+        message: `expected ${types.join(" or ")}, got ${describeType(value)}`,
+      });
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((v) => equal(v, value))) {
+    violations.push({
+      path,
+      message: `must be one of ${schema.enum
+        .map((v) => JSON.stringify(v))
+        .join(", ")}`,
+    });
+  }
+  if ("const" in schema && !equal(schema.const, value)) {
+    violations.push({
+      path,
+      message: `must be ${JSON.stringify(schema.const)}`,
+    });
+  }
+
+  if (typeof value === "string") {
+    validateString(schema, value, path, violations);
+  } else if (typeof value === "number") {
+    validateNumber(schema, value, path, violations);
+  } else if (Array.isArray(value)) {
+    validateArray(schema, value, path, violations);
+  } else if (isObject(value)) {
+    validateObject(schema, value, path, violations);
+  }
+
+  validateCombinators(schema, value, path, violations);
+}
+
+function validateString(
+  schema: Schema,
+  value: string,
+  path: string,
+  violations: SchemaViolation[]
+): void {
+  const length = [...value].length;
+  if (typeof schema.minLength === "number" && length < schema.minLength) {
+    violations.push({
+      path,
+      message: `must be at least ${schema.minLength} characters long`,
+    });
+  }
+  if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+    violations.push({
+      path,
+      message: `must be at most ${schema.maxLength} characters long`,
+    });
+  }
+  if (typeof schema.pattern === "string") {
+    let pattern: RegExp | undefined;
+    try {
+      pattern = new RegExp(schema.pattern, "u");
+    } catch {
+      // Patterns JavaScript cannot compile are skipped
+    }
+    if (pattern && !pattern.test(value)) {
+      violations.push({
+        path,
+        message: `must match pattern ${schema.pattern}`,
+      });
+    }
+  }
+}
+
+function validateNumber(
+  schema: Schema,
+  value: number,
+  path: string,
+  violations: SchemaViolation[]
+): void {
+  if (typeof schema.minimum === "number" && value < schema.minimum) {
+    violations.push({ path, message: `must be >= ${schema.minimum}` });
+  }
+  if (typeof schema.maximum === "number" && value > schema.maximum) {
+    violations.push({ path, message: `must be <= ${schema.maximum}` });
+  }
+  if (
+    typeof schema.exclusiveMinimum === "number" &&
+    value <= schema.exclusiveMinimum
+  ) {
+    violations.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+  }
+  if (
+    typeof schema.exclusiveMaximum === "number" &&
+    value >= schema.exclusiveMaximum
+  ) {
+    violations.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+  }
+  if (
+    typeof schema.multipleOf === "number" &&
+    schema.multipleOf > 0 &&
+    !isMultipleOf(value, schema.multipleOf)
+  ) {
+    violations.push({
+      path,
+      message: `must be a multiple of ${schema.multipleOf}`,
+    });
+  }
+}
+
+function validateArray(
+  schema: Schema,
+  value: unknown[],
+  path: string,
+  violations: SchemaViolation[]
+): void {
+  if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+    violations.push({
+      path,
+      message: `must have at least ${schema.minItems} items`,
+    });
+  }
+  if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+    violations.push({
+      path,
+      message: `must have at most ${schema.maxItems} items`,
+    });
+  }
+  if (schema.uniqueItems === true) {
+    const duplicate = value.some((item, index) =>
+      value.slice(index + 1).some((other) => equal(item, other))
+    );
+    if (duplicate) {
+      violations.push({ path, message: "must not contain duplicate items" });
+    }
+  }
+
+  if (Array.isArray(schema.items)) {
+    // Tuple form (draft 7)
+    schema.items.forEach((itemSchema, index) => {
+      if (index < value.length) {
+        validate(
+          itemSchema,
+          value[index],
+          appendJsonPointer(path, index),
+          violations
+        );
+      }
+    });
+  } else if (schema.items !== undefined) {
+    value.forEach((item, index) =>
+      validate(schema.items, item, appendJsonPointer(path, index), violations)
+    );
+  }
+}
+
+function validateObject(
+  schema: Schema,
+  value: Schema,
+  path: string,
+  violations: SchemaViolation[]
+): void {
+  const properties = isObject(schema.properties) ? schema.properties : {};
+
+  if (Array.isArray(schema.required)) {
+    for (const name of schema.required) {
+      if (typeof name === "string" && !hasOwn(value, name)) {
+        violations.push({
+          path: appendJsonPointer(path, name),
+          message: "is required",
+        });
+      }
+    }
+  }
+
+  for (const [name, propertyValue] of Object.entries(value)) {
+    const propertyPath = appendJsonPointer(path, name);
+    if (hasOwn(properties, name)) {
+      validate(properties[name], propertyValue, propertyPath, violations);
+    } else if (schema.additionalProperties === false) {
+      violations.push({ path: propertyPath, message: "is not allowed" });
+    } else if (isObject(schema.additionalProperties)) {
+      validate(
+        schema.additionalProperties,
+        propertyValue,
+        propertyPath,
+        violations
+      );
+    }
+  }
+}
+
+function validateCombinators(
+  schema: Schema,
+  value: unknown,
+  path: string,
+  violations: SchemaViolation[]
+): void {
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf) {
+      validate(subschema, value, path, violations);
+    }
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const matches = schema.anyOf.filter(
+      (subschema) => validateJsonSchema(subschema, value).length === 0
+    );
+    if (matches.length === 0) {
+      violations.push({
+        path,
+        message: "must match at least one of the allowed schemas",
+      });
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter(
+      (subschema) => validateJsonSchema(subschema, value).length === 0
+    );
+    if (matches.length !== 1) {
+      violations.push({
+        path,
+        message: `must match exactly one of the allowed schemas (matched ${matches.length})`,
+      });
+    }
+  }
+  if (
+    schema.not !== undefined &&
+    validateJsonSchema(schema.not, value).length === 0
+  ) {
+    violations.push({ path, message: "must not match the excluded schema" });
+  }
+}
+
+function matchesType(type: unknown, value: unknown): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "boolean":
+      return typeof value === "boolean";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "string":
+      return typeof value === "string";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isObject(value);
+    default:
+      // Unknown type names do not reject anything
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "number" && Number.isInteger(value)) {
+    return "integer";
+  }
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Schema {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a property of the object itself, not one inherited from its
+ * prototype (e.g. "toString")
+ */
+function hasOwn(object: Schema, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * Check divisibility with a tolerance for floating point error
+ * (0.07 / 0.01 is 7.000000000000001)
+ */
+function isMultipleOf(value: number, divisor: number): boolean {
+  const quotient = value / divisor;
+  return (
+    Math.abs(quotient - Math.round(quotient)) <
+    1e-9 * Math.max(1, Math.abs(quotient))
+  );
+}
+
+/**
+ * Compare JSON values structurally; key order does not matter
+ */
+function equal(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => equal(item, b[index]))
+    );
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => hasOwn(b, key) && equal(a[key], b[key]))
+    );
+  }
+  return false;
+}
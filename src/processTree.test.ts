@@ -0,0 +1,160 @@
+/**
+ * Unit tests for processTree
+ */
+
+import { ChildProcess, spawn } from "child_process";
+import {
+  isPidAlive,
+  listProcessSubtree,
+  listProcessTree,
+  signalProcessTree,
+} from "./processTree";
+
+/**
+ * Process that starts a long-running child and reports the child's PID
+ * on stderr, like npx starting the real server
+ */
+const WRAPPER = `
+const { spawn } = require("child_process");
+const child = spawn(process.execPath, ["-e", "setInterval(() => {}, 1000)"], { stdio: "ignore" });
+process.stderr.write(String(child.pid));
+setInterval(() => {}, 1000);
+`;
+
+/**
+ * Like WRAPPER, but the child starts its own session and so leaves the
+ * wrapper's process group, like a daemonizing server
+ */
+const SESSION_WRAPPER = WRAPPER.replace(
+  '{ stdio: "ignore" }',
+  '{ stdio: "ignore", detached: true }'
+);
+
+// The tree is read from /proc
+const describeOnLinux = process.platform === "linux" ? describe : describe.skip;
+
+describeOnLinux("processTree", () => {
+  let wrapper: ChildProcess;
+  let grandchildPid: number;
+
+  async function startWrapper(
+    detached: boolean,
+    script: string = WRAPPER
+  ): Promise<void> {
+    wrapper = spawn(process.execPath, ["-e", script], {
+      stdio: ["ignore", "ignore", "pipe"],
+      detached,
+    });
+    grandchildPid = await new Promise<number>((resolve) =>
+      wrapper.stderr!.once("data", (data) => resolve(Number(String(data))))
+    );
+  }
+
+  async function waitUntilDead(pid: number): Promise<void> {
+    while (isPidAlive(pid)) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  afterEach(async () => {
+    for (const pid of [grandchildPid, wrapper.pid!]) {
+      try {
+        process.kill(pid, "SIGKILL");
+      } catch {
+        // Already gone
+      }
+    }
+    await Promise.all([
+      waitUntilDead(grandchildPid),
+      waitUntilDead(wrapper.pid!),
+    ]);
+  });
+
+  it("should list a process and its descendants, root first", async () => {
+    await startWrapper(false);
+
+    expect(listProcessTree(wrapper.pid!)).toEqual([wrapper.pid, grandchildPid]);
+  });
+
+  it("should keep listing group members after their parent exits", async () => {
+    await startWrapper(true);
+    const exited = new Promise((resolve) => wrapper.once("exit", resolve));
+
+    process.kill(wrapper.pid!, "SIGKILL");
+    await exited;
+
+    expect(listProcessTree(wrapper.pid!)).toEqual([grandchildPid]);
+  });
+
+  it("should list the subtree without scanning for group members", async () => {
+    await startWrapper(true);
+
+    expect(await listProcessSubtree(wrapper.pid!)).toEqual([
+      wrapper.pid,
+      grandchildPid,
+    ]);
+
+    const exited = new Promise((resolve) => wrapper.once("exit", resolve));
+    process.kill(wrapper.pid!, "SIGKILL");
+    await exited;
+
+    expect(await listProcessSubtree(wrapper.pid!)).toEqual([]);
+  });
+
+  it("should signal the whole process group of a group leader", async () => {
+    await startWrapper(true);
+
+    expect(signalProcessTree(wrapper.pid!, "SIGKILL")).toEqual([]);
+
+    await waitUntilDead(grandchildPid);
+    expect(isPidAlive(grandchildPid)).toBe(false);
+  });
+
+  it("should also signal descendants that left the process group", async () => {
+    await startWrapper(true, SESSION_WRAPPER);
+
+    expect(signalProcessTree(wrapper.pid!, "SIGKILL")).toEqual([grandchildPid]);
+
+    await waitUntilDead(grandchildPid);
+    expect(isPidAlive(grandchildPid)).toBe(false);
+  });
+
+  it("should signal descendants from a snapshot after their parent exits", async () => {
+    await startWrapper(true, SESSION_WRAPPER);
+    const snapshot = listProcessTree(wrapper.pid!);
+    const exited = new Promise((resolve) => wrapper.once("exit", resolve));
+    process.kill(wrapper.pid!, "SIGKILL");
+    await exited;
+    expect(listProcessTree(wrapper.pid!)).toEqual([]);
+
+    expect(signalProcessTree(wrapper.pid!, "SIGKILL", snapshot)).toEqual([
+      grandchildPid,
+    ]);
+
+    await waitUntilDead(grandchildPid);
+    expect(isPidAlive(grandchildPid)).toBe(false);
+  });
+
+  it("should fall back to signalling descendants found in /proc", async () => {
+    await startWrapper(false);
+
+    expect(signalProcessTree(wrapper.pid!, "SIGKILL")).toEqual([
+      grandchildPid,
+      wrapper.pid,
+    ]);
+
+    await waitUntilDead(grandchildPid);
+    expect(isPidAlive(grandchildPid)).toBe(false);
+  });
+
+  it("should return an empty tree for a process that is not running", async () => {
+    await startWrapper(false);
+    const exited = new Promise((resolve) => wrapper.once("exit", resolve));
+    signalProcessTree(wrapper.pid!, "SIGKILL");
+    await exited;
+    await waitUntilDead(grandchildPid);
+
+    expect(listProcessTree(wrapper.pid!)).toEqual([]);
+    expect(await listProcessSubtree(wrapper.pid!)).toEqual([]);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * processTree - Finds and signals a server process and everything it spawned
+ *
+ * Servers started through wrappers such as npx run as grandchildren of the
+ * spawned process, so signalling only the spawned PID can leave the real
+ * server running. StdioTransport spawns servers as process group leaders;
+ * signalProcessTree signals the whole group, and signals descendants found
+ * in /proc individually when they left the group or there is no group.
+ */
+
+import * as fs from "fs";
+
+/**
+ * One entry of /proc/<pid>/stat
+ */
+interface ProcessStat {
+  pid: number;
+  ppid: number;
+  pgid: number;
+  zombie: boolean;
+}
+
+/**
+ * List a process, its descendants and the members of its process group,
+ * skipping processes that have exited
+ * @param rootPid PID of the spawned process (and process group id)
+ * @returns Running PIDs, the root first, then descendants in spawn order
+ */
+export function listProcessTree(rootPid: number): number[] {
+  const stats = readProcessTable();
+  if (!stats) {
+    // No /proc (e.g. macOS): only the root can be checked
+    return isPidAlive(rootPid) ? [rootPid] : [];
+  }
+
+  const children = new Map<number, number[]>();
+  for (const stat of stats.values()) {
+    const siblings = children.get(stat.ppid) ?? [];
+    siblings.push(stat.pid);
+    children.set(stat.ppid, siblings);
+  }
+
+  // Descendants by parent PID, then group members that were re-parented
+  // after their parent exited
+  const tree: number[] = [];
+  const seen = new Set<number>();
+  const queue = [rootPid];
+  for (const stat of stats.values()) {
+    if (stat.pgid === rootPid) {
+      queue.push(stat.pid);
+    }
+  }
+  while (queue.length > 0) {
+    const pid = queue.shift()!;
+    if (seen.has(pid)) {
+      continue;
+    }
+    seen.add(pid);
+    const stat = stats.get(pid);
+    if (stat && !stat.zombie) {
+      tree.push(pid);
+    }
+    queue.push(...(children.get(pid) ?? []).sort((a, b) => a - b));
+  }
+  return tree;
+}
+
+/**
+ * List a process and its descendants without blocking. Only the subtree is
+ * read where the kernel lists each process's children; otherwise /proc is
+ * scanned. Unlike listProcessTree, group members that were re-parented
+ * after their parent exited are not included.
+ * @param rootPid PID of the spawned process
+ * @returns PIDs, the root first; empty if it is not running or there is no
+ * /proc
+ */
+export async function listProcessSubtree(rootPid: number): Promise<number[]> {
+  if (!(await supportsChildrenFiles())) {
+    return listSubtreeFromTable(rootPid);
+  }
+
+  const tree: number[] = [];
+  const queue = [rootPid];
+  while (queue.length > 0) {
+    const pid = queue.shift()!;
+    const children = await readChildren(pid);
+    if (children === undefined) {
+      continue;
+    }
+    tree.push(pid);
+    queue.push(...children);
+  }
+  return tree;
+}
+
+/**
+ * Send a signal to a process and everything it spawned
+ * @param rootPid PID of the spawned process
+ * @param signal Signal to send
+ * @param snapshot Tree listed earlier (default: listed now). Descendants
+ * that left the process group (setsid, daemons) are only found through it
+ * once their parent has exited.
+ * @returns PIDs signalled individually; empty when the process group was
+ * signalled as a whole and no descendant had left it
+ */
+export function signalProcessTree(
+  rootPid: number,
+  signal: NodeJS.Signals,
+  snapshot: number[] = listProcessTree(rootPid)
+): number[] {
+  let groupSignalled = false;
+  if (process.platform !== "win32") {
+    try {
+      // A negative PID signals every process in the group
+      process.kill(-rootPid, signal);
+      groupSignalled = true;
+    } catch {
+      // Not a process group leader, or the group is gone
+    }
+  }
+
+  // The group signal reaches neither processes outside the group nor,
+  // without it, anything but the root; children first, so a parent cannot
+  // respawn them after it dies
+  const targets = [...new Set([...snapshot, ...listProcessTree(rootPid)])]
+    .filter((pid) => !groupSignalled || isOutsideGroup(pid, rootPid))
+    .reverse();
+  return targets.filter((pid) => {
+    try {
+      process.kill(pid, signal);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Check whether a PID belongs to a running (not zombie) process
+ */
+export function isPidAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  const stat = readProcessStat(String(pid));
+  return !stat?.zombie;
+}
+
+/**
+ * Check whether a running process belongs to another process group than
+ * the one led by groupId
+ */
+function isOutsideGroup(pid: number, groupId: number): boolean {
+  const stat = readProcessStat(String(pid));
+  return stat !== undefined && !stat.zombie && stat.pgid !== groupId;
+}
+
+/**
+ * Read every process from /proc
+ * @returns Processes by PID, or undefined where /proc is not available
+ */
+function readProcessTable(): Map<number, ProcessStat> | undefined {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync("/proc");
+  } catch {
+    return undefined;
+  }
+
+  const stats = new Map<number, ProcessStat>();
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) {
+      continue;
+    }
+    const stat = readProcessStat(entry);
+    if (stat) {
+      stats.set(stat.pid, stat);
+    }
+  }
+  return stats;
+}
+
+/**
+ * Parse /proc/<pid>/stat; undefined if the process is gone or unreadable
+ */
+function readProcessStat(pid: string): ProcessStat | undefined {
+  let content: string;
+  try {
+    content = fs.readFileSync(`/proc/${pid}/stat`, "utf8");
+  } catch {
+    return undefined;
+  }
+  return parseProcessStat(pid, content);
+}
+
+function parseProcessStat(
+  pid: string,
+  content: string
+): ProcessStat | undefined {
+  // The command name is in parentheses and may itself contain spaces or
+  // parentheses, so the fields are counted from the last ")"
+  const fields = content.slice(content.lastIndexOf(")") + 2).split(" ");
+  const [state, ppid, pgid] = fields;
+  if (ppid === undefined || pgid === undefined) {
+    return undefined;
+  }
+  return {
+    pid: Number(pid),
+    ppid: Number(ppid),
+    pgid: Number(pgid),
+    zombie: state === "Z" || state === "X",
+  };
+}
+
+/**
+ * Whether the kernel lists children in /proc/<pid>/task/<tid>/children
+ * (CONFIG_PROC_CHILDREN); checked once
+ */
+let childrenFilesSupported: Promise<boolean> | undefined;
+
+function supportsChildrenFiles(): Promise<boolean> {
+  if (!childrenFilesSupported) {
+    childrenFilesSupported = fs.promises
+      .access(`/proc/${process.pid}/task/${process.pid}/children`)
+      .then(
+        () => true,
+        () => false
+      );
+  }
+  return childrenFilesSupported;
+}
+
+/**
+ * Read the children of every thread of a process
+ * @returns Child PIDs, or undefined if the process is gone
+ */
+async function readChildren(pid: number): Promise<number[] | undefined> {
+  let tids: string[];
+  try {
+    tids = await fs.promises.readdir(`/proc/${pid}/task`);
+  } catch {
+    return undefined;
+  }
+
+  const children: number[] = [];
+  for (const tid of tids) {
+    try {
+      const content = await fs.promises.readFile(
+        `/proc/${pid}/task/${tid}/children`,
+        "utf8"
+      );
+      children.push(...content.split(" ").filter(Boolean).map(Number));
+    } catch {
+      // The thread exited
+    }
+  }
+  return children.sort((a, b) => a - b);
+}
+
+/**
+ * Find descendants by parent PID in a scan of all of /proc
+ */
+async function listSubtreeFromTable(rootPid: number): Promise<number[]> {
+  let entries: string[];
+  try {
+    entries = await fs.promises.readdir("/proc");
+  } catch {
+    return [];
+  }
+
+  const stats = new Map<number, ProcessStat>();
+  const children = new Map<number, number[]>();
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) {
+      continue;
+    }
+    let content: string;
+    try {
+      content = await fs.promises.readFile(`/proc/${entry}/stat`, "utf8");
+    } catch {
+      continue;
+    }
+    const stat = parseProcessStat(entry, content);
+    if (stat) {
+      stats.set(stat.pid, stat);
+      const siblings = children.get(stat.ppid) ?? [];
+      siblings.push(stat.pid);
+      children.set(stat.ppid, siblings);
+    }
+  }
+
+  const tree: number[] = [];
+  const queue = [rootPid];
+  while (queue.length > 0) {
+    const pid = queue.shift()!;
+    const stat = stats.get(pid);
+    if (!stat || stat.zombie) {
+      continue;
+    }
+    tree.push(pid);
+    queue.push(...(children.get(pid) ?? []).sort((a, b) => a - b));
+  }
+  return tree;
+}
@@ -0,0 +1,44 @@
+/**
+ * MCP protocol revisions supported by the client, and the behavior that
+ * depends on the negotiated revision
+ */
+
+/**
+ * Supported protocol versions, newest first
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly string[] = [
+  "2025-06-18",
+  "2025-03-26",
+  "2024-11-05",
+];
+
+/**
+ * Version requested in the initialize request
+ */
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+/**
+ * HTTP header carrying the negotiated version on Streamable HTTP requests
+ */
+export const PROTOCOL_VERSION_HEADER = "MCP-Protocol-Version";
+
+/**
+ * Check whether the client can talk to a server using the given version
+ */
+export function isSupportedProtocolVersion(version: string): boolean {
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(version);
+}
+
+/**
+ * JSON-RPC batches were added in 2025-03-26 and removed in 2025-06-18
+ */
+export function supportsBatching(version: string): boolean {
+  return version === "2025-03-26";
+}
+
+/**
+ * The MCP-Protocol-Version header is required from 2025-06-18 on
+ */
+export function requiresProtocolVersionHeader(version: string): boolean {
+  return version >= "2025-06-18";
+}
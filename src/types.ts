@@ -2,6 +2,8 @@
  * Shared types and interfaces for MCP client base
  */
 
+import type { Deadline } from "./Deadline";
+
 /**
  * Timeout configuration for different types of requests
  */
@@ -12,6 +14,101 @@ export interface TimeoutConfig {
   standardRequestTimeoutMs: number;
   /** Timeout for tools/list requests (default: 60000ms) */
   toolsListTimeoutMs: number;
+  /**
+   * Ordered timeout overrides; the first matching rule wins and requests
+   * matching no rule fall back to the timeouts above
+   */
+  rules?: TimeoutRule[];
+  /** Derive timeouts from observed latency (off unless enabled) */
+  adaptive?: Partial<AdaptiveTimeoutConfig>;
+}
+
+/**
+ * Adaptive timeout configuration. Once a method (or tool) has enough
+ * samples, its timeout becomes multiplier × p99, clamped to floor/ceiling.
+ */
+export interface AdaptiveTimeoutConfig {
+  /** Use adaptive timeouts (default: false) */
+  enabled: boolean;
+  /** Multiple of p99 latency used as the timeout (default: 3) */
+  multiplier: number;
+  /** Lowest adaptive timeout (default: 5000ms) */
+  floorMs: number;
+  /** Highest adaptive timeout (default: 300000ms) */
+  ceilingMs: number;
+  /** Samples needed before the adaptive timeout is used (default: 20) */
+  minSamples: number;
+  /** Number of recent samples used for percentiles (default: 100) */
+  windowSize: number;
+  /** Weight of the newest sample in the moving average (default: 0.2) */
+  ewmaAlpha: number;
+}
+
+/**
+ * Latency statistics for one method, or one tool for tools/call
+ */
+export interface LatencyStats {
+  method: string;
+  /** Tool name, for tools/call statistics */
+  tool?: string;
+  /** Completed requests recorded, including those no longer in the window */
+  count: number;
+  /** Exponentially weighted moving average latency */
+  ewmaMs: number;
+  /** 95th percentile latency over the window */
+  p95Ms: number;
+  /** 99th percentile latency over the window */
+  p99Ms: number;
+  /** Samples currently in the window */
+  windowSamples: number;
+}
+
+/**
+ * Serializable latency history, saved through a LatencyStore
+ */
+export interface LatencySnapshot {
+  version: 1;
+  entries: Array<{
+    method: string;
+    tool?: string;
+    count: number;
+    ewmaMs: number;
+    samples: number[];
+  }>;
+}
+
+/**
+ * Persists latency history between sessions (e.g. in VS Code globalState)
+ */
+export interface LatencyStore {
+  load(): LatencySnapshot | undefined | Promise<LatencySnapshot | undefined>;
+  save(snapshot: LatencySnapshot): void | Promise<void>;
+}
+
+/**
+ * Timeout override for matching requests.
+ * `method` and `tool` accept exact names or glob patterns ("resources/*");
+ * a rule with `tool` only matches tools/call requests for that tool.
+ */
+export interface TimeoutRule {
+  /** Request method or glob pattern, e.g. "ping" or "resources/*" */
+  method?: string;
+  /** Tool name or glob pattern for tools/call, e.g. "debugger_attach" */
+  tool?: string;
+  /** Timeout in milliseconds */
+  timeoutMs: number;
+}
+
+/**
+ * Timeout chosen for a request and what chose it
+ */
+export interface TimeoutSelection {
+  timeoutMs: number;
+  /**
+   * Rule or setting that supplied the timeout, e.g.
+   * 'rules[1] (tool "fs_search")' or "standardRequestTimeoutMs"
+   */
+  source: string;
 }
 
 /**
@@ -32,6 +129,10 @@ export enum ConnectionState {
   CONNECTED = "connected",
   TIMEOUT_RETRYING = "timeout_retrying",
   ERROR = "error",
+  /** The server crashed too often; automatic restarts have stopped */
+  CRASH_LOOP = "crash_loop",
+  /** The server was stopped while idle; the next request starts it again */
+  IDLE_STOPPED = "idle_stopped",
 }
 
 /**
@@ -44,6 +145,8 @@ export interface ConnectionStatus {
   lastError?: Error;
   serverProcessRunning: boolean;
   timestamp: number;
+  /** Circuit breaker state, when the breaker is enabled */
+  circuitBreaker?: CircuitBreakerStatus;
 }
 
 /**
@@ -56,6 +159,57 @@ export interface ReSyncConfig {
   retryDelayMs: number;
   /** Backoff multiplier for exponential backoff (default: 1.5) */
   backoffMultiplier: number;
+  /** Upper bound on any retry delay in milliseconds (default: no limit) */
+  maxDelayMs?: number;
+  /**
+   * How delays grow between retries: a built-in strategy name or a custom
+   * BackoffStrategy (default: "exponential")
+   */
+  backoffStrategy?: BackoffStrategyName | BackoffStrategy;
+}
+
+/**
+ * Built-in backoff strategies
+ * - constant: retryDelayMs every time
+ * - linear: retryDelayMs × attempt
+ * - exponential: retryDelayMs × backoffMultiplier ^ (attempt - 1)
+ * - full-jitter: random between 0 and the exponential delay
+ * - decorrelated-jitter: random between retryDelayMs and 3 × the previous delay
+ */
+export type BackoffStrategyName =
+  | "constant"
+  | "linear"
+  | "exponential"
+  | "full-jitter"
+  | "decorrelated-jitter";
+
+/**
+ * Inputs for computing one retry delay
+ */
+export interface BackoffContext {
+  /** Current attempt number (the first delayed retry is attempt 2) */
+  attempt: number;
+  /** Delay computed for the previous retry, if any */
+  previousDelayMs?: number;
+  /** Base delay (ReSyncConfig.retryDelayMs) */
+  baseDelayMs: number;
+  /** Growth factor (ReSyncConfig.backoffMultiplier) */
+  multiplier: number;
+  /** Upper bound on the delay; Infinity when there is none */
+  maxDelayMs: number;
+}
+
+/**
+ * Computes the delay before a retry
+ */
+export interface BackoffStrategy {
+  /** Name shown in logs and diagnostics */
+  readonly name: string;
+  /**
+   * Delay in milliseconds before the retry described by the context.
+   * ReSyncManager clamps the result to [0, maxDelayMs].
+   */
+  getDelay(context: BackoffContext): number;
 }
 
 /**
@@ -77,6 +231,201 @@ export interface MCPClientConfig {
     logLevel: "debug" | "info" | "warn" | "error";
     logCommunication: boolean;
   };
+  catalog: CatalogConfig;
+  toolValidation: ToolValidationConfig;
+  circuitBreaker: CircuitBreakerConfig;
+  restart: RestartConfig;
+  shutdown: ShutdownConfig;
+  lazyStart: LazyStartConfig;
+  resourceMonitor: ResourceMonitorConfig;
+}
+
+/**
+ * Circuit breaker states
+ * - closed: requests flow normally and failures are counted
+ * - open: requests fail immediately until the cool-down ends
+ * - half-open: one probe request decides whether to close or reopen
+ */
+export enum CircuitState {
+  CLOSED = "closed",
+  OPEN = "open",
+  HALF_OPEN = "half-open",
+}
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerConfig {
+  /** Fail fast while the server keeps timing out (default: false) */
+  enabled: boolean;
+  /** Failures within windowMs that open the circuit (default: 5) */
+  failureThreshold: number;
+  /** Sliding window in which failures are counted (default: 60000ms) */
+  windowMs: number;
+  /** Time the circuit stays open before a probe is allowed (default: 30000ms) */
+  coolDownMs: number;
+}
+
+/**
+ * When the server is restarted after it exits on its own: never, only
+ * after a non-zero exit code or a signal, or after any exit
+ */
+export type RestartPolicy = "never" | "on-failure" | "always";
+
+/**
+ * Automatic restart configuration
+ */
+export interface RestartConfig {
+  /** Which exits trigger a restart (default: "never") */
+  policy: RestartPolicy;
+  /** Crashes within crashWindowMs tolerated before giving up (default: 5) */
+  maxCrashes: number;
+  /** Sliding window in which crashes are counted (default: 60000ms) */
+  crashWindowMs: number;
+}
+
+/**
+ * How long stop() waits at each step of shutting down a stdio server
+ */
+export interface ShutdownConfig {
+  /** Wait for the server to exit after its stdin is closed (default: 2000ms) */
+  gracePeriodMs: number;
+  /** Wait after SIGTERM before sending SIGKILL (default: 2000ms) */
+  killTimeoutMs: number;
+}
+
+/**
+ * On-demand server lifecycle
+ */
+export interface LazyStartConfig {
+  /**
+   * Defer spawning the server from start() to the first request, and start
+   * it again on the next request after an idle stop (default: false)
+   */
+  enabled: boolean;
+  /**
+   * Stop the server after this long without pending requests; 0 keeps it
+   * running (default: 300000ms)
+   */
+  idleTimeoutMs: number;
+}
+
+/**
+ * Resource limits of a server process; unset limits are not checked
+ */
+export interface ResourceThresholds {
+  /** Resident memory of the server and its descendants, in MB */
+  rssMb?: number;
+  /** CPU use over one sampling interval, in percent of one core */
+  cpuPercent?: number;
+  /** Open file descriptors of the server and its descendants */
+  openFds?: number;
+}
+
+/**
+ * Sampling of a stdio server's resource use from /proc
+ */
+export interface ResourceMonitorConfig {
+  /** Sample while the server runs (default: false; Linux only) */
+  enabled: boolean;
+  /** Time between samples (default: 10000ms) */
+  intervalMs: number;
+  /** Limits that log a warning (default: none) */
+  warn: ResourceThresholds;
+  /** Limits that restart the server, e.g. as a memory leak guard (default: none) */
+  restart: ResourceThresholds;
+}
+
+/**
+ * Latest resource sample of a server process and its descendants
+ */
+export interface ResourceUsage {
+  /** Resident memory, in bytes */
+  rssBytes: number;
+  /** CPU time used since the processes started (user + system), in ms */
+  cpuTimeMs: number;
+  /** CPU use since the previous sample, in percent of one core */
+  cpuPercent?: number;
+  /** Open file descriptors */
+  openFds: number;
+  /** Number of processes sampled */
+  processCount: number;
+  /** When the sample was taken */
+  sampledAt: number;
+}
+
+/**
+ * A resource sample that crossed a threshold
+ */
+export interface ResourceThresholdBreach {
+  /** Threshold set that was crossed */
+  level: "warn" | "restart";
+  resource: keyof ResourceThresholds;
+  /** Measured value, in the unit of the threshold */
+  value: number;
+  limit: number;
+}
+
+/**
+ * Why automatic restarts stopped, for diagnostics
+ */
+export interface CrashLoopInfo {
+  /** Crashes counted in the window */
+  crashCount: number;
+  /** Window the crashes happened in */
+  windowMs: number;
+  /** When the crash loop was detected */
+  detectedAt: number;
+  /** How the last run ended, e.g. "Server process exited with code: 1" */
+  lastExit: string;
+  /** Tail of the stderr output of the last run */
+  stderr: string;
+}
+
+/**
+ * Circuit breaker state for status and diagnostics
+ */
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  /** Failures counted in the current window */
+  failureCount: number;
+  /** When the circuit last opened */
+  openedAt?: number;
+  /** When a probe request will be allowed, while open */
+  retryAt?: number;
+}
+
+/**
+ * How tool arguments and structured results are checked against the
+ * tool's schemas: not at all, by logging a warning, or by throwing
+ * a ToolValidationError
+ */
+export type ToolValidationMode = "off" | "warn" | "enforce";
+
+/**
+ * Tool schema validation configuration
+ */
+export interface ToolValidationConfig {
+  /** Default: "warn" */
+  mode: ToolValidationMode;
+}
+
+/**
+ * Value that does not satisfy a JSON Schema
+ */
+export interface SchemaViolation {
+  /** JSON pointer to the offending value ("" for the value itself) */
+  path: string;
+  /** What is wrong with the value */
+  message: string;
+}
+
+/**
+ * Tool, resource and prompt catalog cache configuration
+ */
+export interface CatalogConfig {
+  /** Fetch the catalog after connecting and keep it up to date (default: true) */
+  enabled: boolean;
 }
 
 /**
@@ -90,6 +439,40 @@ export interface PendingRequest {
   reject: (error: Error) => void;
   timeoutHandle: NodeJS.Timeout;
   startTime: number;
+  /** Progress callback registered with the request */
+  onProgress?: (progress: ProgressNotificationParams) => void;
+  /** Restarts the timeout timer; set when progress extends the timeout */
+  resetTimeout?: () => void;
+  /** Last progress notification received for the request */
+  lastProgress?: ProgressNotificationParams;
+  /** Timeout applied to the request */
+  timeoutMs?: number;
+  /** Rule or setting that chose the timeout */
+  timeoutSource?: string;
+}
+
+/**
+ * Per-request options for sendRequest and callTool
+ */
+export interface RequestOptions {
+  /** Timeout in milliseconds (overrides the configured timeout) */
+  timeout?: number;
+  /** Cancels the request when aborted */
+  signal?: AbortSignal;
+  /**
+   * Called for each notifications/progress the server sends for the
+   * request. Setting it attaches a progress token to the request.
+   */
+  onProgress?: (progress: ProgressNotificationParams) => void;
+  /** Restart the timeout each time progress arrives (default: false) */
+  resetTimeoutOnProgress?: boolean;
+  /** Absolute cap on the total request time, even when progress arrives */
+  maxTotalTimeout?: number;
+  /**
+   * Overall budget shared with other requests. The request's timeout is
+   * capped at the time left, and the request is cancelled when it runs out.
+   */
+  deadline?: Deadline;
 }
 
 /**
@@ -100,8 +483,10 @@ export interface CommunicationLogEntry {
   method?: string;
   timestamp: number;
   success: boolean;
-  requestId?: number;
+  requestId?: JSONRPCId;
   error?: string;
+  /** True for messages received from the server */
+  inbound?: boolean;
 }
 
 /**
@@ -110,13 +495,39 @@ export interface CommunicationLogEntry {
 export interface ServerDiagnostics {
   extensionName: string;
   processId?: number;
+  /** PIDs of the server process and everything it spawned (stdio) */
+  processTree?: number[];
+  /** Server endpoint URL (network transports) */
+  endpoint?: string;
+  /** Session ID assigned by the server (network transports) */
+  sessionId?: string;
+  /** Details of the transport in use, if connected */
+  transport?: TransportInfo;
+  /** MCP protocol version negotiated with the server */
+  protocolVersion?: string;
   processRunning: boolean;
   connectionState: ConnectionState;
+  /** Circuit breaker state, when the breaker is enabled */
+  circuitBreaker?: CircuitBreakerStatus;
+  /** Set when automatic restarts stopped because of a crash loop */
+  crashLoop?: CrashLoopInfo;
+  /** Time since the server was started (or connected to), while running */
+  uptimeMs?: number;
+  /** Latest resource sample (stdio servers on Linux) */
+  resources?: ResourceUsage;
   pendingRequestCount: number;
+  /** Observed latency per method and per tool */
+  latencyStats?: LatencyStats[];
   pendingRequests: Array<{
     id: number;
     method: string;
     elapsedMs: number;
+    /** Timeout applied to the request */
+    timeoutMs?: number;
+    /** Rule or setting that chose the timeout */
+    timeoutSource?: string;
+    /** Last progress reported by the server, if any */
+    progress?: { progress: number; total?: number; message?: string };
   }>;
   lastError?: {
     message: string;
@@ -125,3 +536,421 @@ export interface ServerDiagnostics {
   recentCommunication: CommunicationLogEntry[];
   stateHistory: ConnectionStatus[];
 }
+
+/**
+ * JSON-RPC request or notification identifier
+ */
+export type JSONRPCId = number | string;
+
+/**
+ * JSON-RPC error object
+ */
+export interface JSONRPCError {
+  code?: number;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * JSON-RPC message exchanged with an MCP server.
+ *
+ * A single shape is used for requests, notifications and responses so that
+ * transports can pass messages through without inspecting them.
+ */
+export interface JSONRPCMessage {
+  jsonrpc?: string;
+  id?: JSONRPCId;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: JSONRPCError;
+}
+
+/**
+ * Standard JSON-RPC error codes
+ */
+export enum JSONRPCErrorCode {
+  PARSE_ERROR = -32700,
+  INVALID_REQUEST = -32600,
+  METHOD_NOT_FOUND = -32601,
+  INVALID_PARAMS = -32602,
+  INTERNAL_ERROR = -32603,
+}
+
+/**
+ * Context passed to handlers of server-initiated requests
+ */
+export interface ServerRequestContext {
+  /** Request ID chosen by the server */
+  id: JSONRPCId;
+  /** Requested method */
+  method: string;
+}
+
+/**
+ * Handler for a request sent by the server to the client.
+ * Throw an MCPRequestError to reply with a specific JSON-RPC error code.
+ */
+export type ServerRequestHandler<P = unknown, R = unknown> = (
+  params: P,
+  context: ServerRequestContext
+) => R | Promise<R>;
+
+/**
+ * Root directory or file exposed to the server (roots/list)
+ */
+export interface Root {
+  uri: string;
+  name?: string;
+}
+
+/**
+ * Message exchanged in a sampling request
+ */
+export interface SamplingMessage {
+  role: "user" | "assistant";
+  content: { type: string; [key: string]: unknown };
+}
+
+/**
+ * Parameters of a sampling/createMessage request
+ */
+export interface CreateMessageParams {
+  messages: SamplingMessage[];
+  maxTokens: number;
+  systemPrompt?: string;
+  modelPreferences?: Record<string, unknown>;
+  includeContext?: "none" | "thisServer" | "allServers";
+  temperature?: number;
+  stopSequences?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Result of a sampling/createMessage request
+ */
+export interface CreateMessageResult extends SamplingMessage {
+  model: string;
+  stopReason?: string;
+}
+
+/**
+ * Parameters of an elicitation/create request
+ */
+export interface ElicitParams {
+  message: string;
+  requestedSchema: Record<string, unknown>;
+}
+
+/**
+ * Result of an elicitation/create request
+ */
+export interface ElicitResult {
+  action: "accept" | "decline" | "cancel";
+  content?: Record<string, unknown>;
+}
+
+/**
+ * Requests a server may send to the client, with their params and results
+ */
+export interface ServerRequestMap {
+  "roots/list": {
+    params: Record<string, unknown> | undefined;
+    result: { roots: Root[] };
+  };
+  "sampling/createMessage": {
+    params: CreateMessageParams;
+    result: CreateMessageResult;
+  };
+  "elicitation/create": { params: ElicitParams; result: ElicitResult };
+}
+
+/**
+ * Name and version of an MCP client or server implementation
+ */
+export interface Implementation {
+  name: string;
+  version: string;
+  title?: string;
+}
+
+/**
+ * Capabilities the client declares during initialization
+ */
+export interface ClientCapabilities {
+  roots?: { listChanged?: boolean };
+  sampling?: Record<string, unknown>;
+  elicitation?: Record<string, unknown>;
+  experimental?: Record<string, unknown>;
+}
+
+/**
+ * Capabilities the server declares during initialization
+ */
+export interface ServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, unknown>;
+  completions?: Record<string, unknown>;
+  experimental?: Record<string, unknown>;
+}
+
+/**
+ * Result of the initialize request
+ */
+export interface InitializeResult {
+  protocolVersion: string;
+  capabilities: ServerCapabilities;
+  serverInfo: Implementation;
+  instructions?: string;
+}
+
+/**
+ * Optional annotations for the client on content and resources
+ */
+export interface Annotations {
+  audience?: Array<"user" | "assistant">;
+  priority?: number;
+  lastModified?: string;
+}
+
+/**
+ * Tool offered by the server (tools/list)
+ */
+export interface Tool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+  annotations?: Record<string, unknown>;
+}
+
+/**
+ * Resource offered by the server (resources/list)
+ */
+export interface Resource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+  annotations?: Annotations;
+}
+
+/**
+ * Parameterized resource offered by the server (resources/templates/list)
+ */
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  annotations?: Annotations;
+}
+
+/**
+ * Contents of a resource: text or base64-encoded binary data
+ */
+export type ResourceContents =
+  | { uri: string; mimeType?: string; text: string }
+  | { uri: string; mimeType?: string; blob: string };
+
+/**
+ * Result of resources/read
+ */
+export interface ReadResourceResult {
+  contents: ResourceContents[];
+}
+
+/**
+ * Content returned by tools and prompts
+ */
+export type ContentBlock =
+  | { type: "text"; text: string; annotations?: Annotations }
+  | { type: "image"; data: string; mimeType: string; annotations?: Annotations }
+  | { type: "audio"; data: string; mimeType: string; annotations?: Annotations }
+  | ({ type: "resource_link" } & Resource)
+  | {
+      type: "resource";
+      resource: ResourceContents;
+      annotations?: Annotations;
+    };
+
+/**
+ * Result of tools/call
+ */
+export interface CallToolResult {
+  content: ContentBlock[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/**
+ * Argument accepted by a prompt
+ */
+export interface PromptArgument {
+  name: string;
+  title?: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * Prompt offered by the server (prompts/list)
+ */
+export interface Prompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: PromptArgument[];
+}
+
+/**
+ * Message of a prompt returned by prompts/get
+ */
+export interface PromptMessage {
+  role: "user" | "assistant";
+  content: ContentBlock;
+}
+
+/**
+ * Result of prompts/get
+ */
+export interface GetPromptResult {
+  description?: string;
+  messages: PromptMessage[];
+}
+
+/**
+ * Prompt or resource template whose argument is being completed
+ */
+export type CompleteReference =
+  | { type: "ref/prompt"; name: string }
+  | { type: "ref/resource"; uri: string };
+
+/**
+ * Result of completion/complete
+ */
+export interface CompleteResult {
+  completion: {
+    values: string[];
+    total?: number;
+    hasMore?: boolean;
+  };
+}
+
+/**
+ * Kind of list held in the catalog cache
+ */
+export type CatalogKind = "tools" | "resources" | "prompts";
+
+/**
+ * Cached tools, resources and prompts offered by the server
+ */
+export interface Catalog {
+  tools: Tool[];
+  resources: Resource[];
+  prompts: Prompt[];
+}
+
+/**
+ * Catalog change delivered to catalog subscribers
+ */
+export interface CatalogChange {
+  /** List that changed */
+  kind: CatalogKind;
+  /** Whole catalog after the change */
+  catalog: Catalog;
+}
+
+/**
+ * Severity of a log message sent by the server
+ */
+export type LoggingLevel =
+  | "debug"
+  | "info"
+  | "notice"
+  | "warning"
+  | "error"
+  | "critical"
+  | "alert"
+  | "emergency";
+
+/**
+ * Payload of notifications/progress
+ */
+export interface ProgressNotificationParams {
+  progressToken: string | number;
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Payload of notifications/message
+ */
+export interface LoggingMessageNotificationParams {
+  level: LoggingLevel;
+  logger?: string;
+  data: unknown;
+}
+
+/**
+ * Payload of notifications/resources/updated
+ */
+export interface ResourceUpdatedNotificationParams {
+  uri: string;
+}
+
+/**
+ * Payload of notifications/cancelled
+ */
+export interface CancelledNotificationParams {
+  requestId: JSONRPCId;
+  reason?: string;
+}
+
+/**
+ * Notifications a server may send to the client, with their payloads
+ */
+export interface ServerNotificationMap {
+  "notifications/progress": ProgressNotificationParams;
+  "notifications/message": LoggingMessageNotificationParams;
+  "notifications/cancelled": CancelledNotificationParams;
+  "notifications/resources/updated": ResourceUpdatedNotificationParams;
+  "notifications/resources/list_changed": Record<string, unknown> | undefined;
+  "notifications/tools/list_changed": Record<string, unknown> | undefined;
+  "notifications/prompts/list_changed": Record<string, unknown> | undefined;
+}
+
+/**
+ * Information reported by a transport when its connection closes
+ */
+export interface TransportCloseInfo {
+  /** Process exit code (stdio transport only) */
+  code: number | null;
+  /** Signal that terminated the process (stdio transport only) */
+  signal: string | null;
+  /** Human-readable reason for the close, if known */
+  reason?: string;
+}
+
+/**
+ * Transport details included in diagnostics
+ */
+export interface TransportInfo {
+  /** Transport type identifier (e.g. "stdio") */
+  type: string;
+  /** Server process ID, for transports that own a process */
+  processId?: number;
+  /** PIDs of the server process and everything it spawned, root first */
+  processTree?: number[];
+  /** Server endpoint URL, for network transports */
+  endpoint?: string;
+  /** Session ID assigned by the server, if any */
+  sessionId?: string;
+}
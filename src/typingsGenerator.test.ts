@@ -0,0 +1,204 @@
+/**
+ * Unit tests for typingsGenerator
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as ts from "typescript";
+import { BaseMCPClient, LogOutputChannel } from "./BaseMCPClient";
+import { generateTypings, schemaToType } from "./typingsGenerator";
+import { Tool } from "./types";
+
+const TOOLS: Tool[] = [
+  {
+    name: "search_files",
+    description: "Search the workspace",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Text to find" },
+        "max-results": { type: "integer" },
+        kinds: { type: "array", items: { enum: ["file", "folder"] } },
+      },
+      required: ["query"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        hits: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { path: { type: "string" }, line: { type: "number" } },
+            required: ["path"],
+          },
+        },
+      },
+      required: ["hits"],
+    },
+  },
+  {
+    name: "stop",
+    inputSchema: { type: "object" },
+  },
+];
+
+describe("typingsGenerator", () => {
+  describe("schemaToType", () => {
+    it("should map primitive, enum and union schemas", () => {
+      expect(schemaToType({ type: "string" })).toBe("string");
+      expect(schemaToType({ type: "integer" })).toBe("number");
+      expect(schemaToType({ type: ["string", "null"] })).toBe("string | null");
+      expect(schemaToType({ enum: ["a", 1] })).toBe('"a" | 1');
+      expect(schemaToType({ const: true })).toBe("true");
+      expect(
+        schemaToType({ anyOf: [{ type: "string" }, { type: "number" }] })
+      ).toBe("string | number");
+      expect(schemaToType({})).toBe("unknown");
+    });
+
+    it("should map arrays and records", () => {
+      expect(
+        schemaToType({ type: "array", items: { type: ["string", "number"] } })
+      ).toBe("(string | number)[]");
+      expect(
+        schemaToType({
+          type: "array",
+          items: [{ type: "string" }, { type: "boolean" }],
+        })
+      ).toBe("[string, boolean]");
+      expect(
+        schemaToType({
+          type: "object",
+          additionalProperties: { type: "number" },
+        })
+      ).toBe("Record<string, number>");
+    });
+
+    it("should emit nested objects with optional members", () => {
+      expect(
+        schemaToType({
+          type: "object",
+          properties: { id: { type: "string" }, "two words": {} },
+          required: ["id"],
+        })
+      ).toBe('{\n  id: string;\n  "two words"?: unknown;\n}');
+    });
+  });
+
+  describe("generateTypings", () => {
+    const output = generateTypings(TOOLS, {
+      className: "FilesClient",
+      source: "tools.json",
+    });
+
+    it("should emit argument and result interfaces", () => {
+      expect(output).toContain("export interface SearchFilesArgs {");
+      expect(output).toContain("  /** Text to find */\n  query: string;");
+      expect(output).toContain('  "max-results"?: number;');
+      expect(output).toContain('  kinds?: ("file" | "folder")[];');
+      expect(output).toContain("export interface SearchFilesResult {");
+      expect(output).toContain(
+        "export type StopArgs = Record<string, unknown>;"
+      );
+      expect(output).not.toContain("StopResult");
+    });
+
+    it("should emit a typed wrapper class", () => {
+      expect(output).toContain(
+        "export abstract class FilesClient extends BaseMCPClient {"
+      );
+      expect(output).toContain(
+        "  async searchFiles(\n    args: SearchFilesArgs,"
+      );
+      expect(output).toContain(
+        "Promise<TypedCallToolResult<SearchFilesResult>>"
+      );
+      // "stop" would override BaseMCPClient.stop()
+      expect(output).toContain("  async stopTool(\n    args: StopArgs = {},");
+      expect(output).toContain(
+        '  ): Promise<CallToolResult> {\n    return (await this.callTool("stop", args, options))'
+      );
+    });
+
+    it("should order tools by code unit, independent of the locale", () => {
+      const typings = generateTypings(
+        ["b_tool", "B_tool", "a_tool"].map((name) => ({
+          name,
+          inputSchema: { type: "object" },
+        }))
+      );
+
+      const order = ["B_tool", "a_tool", "b_tool"].map((name) =>
+        typings.indexOf(`this.callTool("${name}"`)
+      );
+      expect(order).toEqual([...order].sort((x, y) => x - y));
+    });
+
+    it("should not override any field of BaseMCPClient", () => {
+      class Client extends BaseMCPClient {
+        protected async onServerReady(): Promise<void> {}
+      }
+      const silent = () => {};
+      const channel = new Proxy({}, { get: () => silent });
+      const fields = Object.keys(
+        new Client("typings-test", channel as LogOutputChannel)
+      );
+      // Fields without an initializer only exist once assigned
+      fields.push("transport", "circuitBreaker", "initializeResult");
+
+      const typings = generateTypings(
+        fields.map((name) => ({ name, inputSchema: { type: "object" } }))
+      );
+
+      for (const name of fields) {
+        expect(typings).toContain(`  async ${name}Tool(`);
+      }
+    });
+
+    it("should be deterministic regardless of tool order", () => {
+      expect(
+        generateTypings([...TOOLS].reverse(), {
+          className: "FilesClient",
+          source: "tools.json",
+        })
+      ).toBe(output);
+      expect(output).toMatch(
+        /^\/\/ Generated by mcp-generate-typings from tools\.json\./
+      );
+    });
+
+    it("should produce a file that type-checks against the package", () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-typings-"));
+      try {
+        const file = path.join(dir, "filesClient.ts");
+        fs.writeFileSync(
+          file,
+          generateTypings(TOOLS, {
+            className: "FilesClient",
+            importFrom: path.resolve(__dirname, "index"),
+          })
+        );
+
+        const program = ts.createProgram([file], {
+          strict: true,
+          noEmit: true,
+          skipLibCheck: true,
+          target: ts.ScriptTarget.ES2020,
+          module: ts.ModuleKind.CommonJS,
+          moduleResolution: ts.ModuleResolutionKind.Node10,
+          esModuleInterop: true,
+          types: ["node"],
+        });
+        const diagnostics = ts
+          .getPreEmitDiagnostics(program)
+          .map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"));
+
+        expect(diagnostics).toEqual([]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,392 @@
+/**
+ * typingsGenerator - Emits TypeScript typings for the tools a server offers
+ *
+ * Turns a tools/list result into a .ts file with an argument interface for
+ * each tool, a result interface for tools that declare an outputSchema, and
+ * an abstract client class with one typed method per tool. The output is
+ * deterministic (tools sorted by name, no timestamps) so it can be committed
+ * and diffed.
+ */
+
+import { BASE_CLIENT_FIELDS, BaseMCPClient } from "./BaseMCPClient";
+import { Tool } from "./types";
+
+/**
+ * Options for generateTypings
+ */
+export interface TypingsGeneratorOptions {
+  /** Name of the generated client class (default: "GeneratedMCPClient") */
+  className?: string;
+  /** Module the generated file imports BaseMCPClient from */
+  importFrom?: string;
+  /** Where the tools came from, mentioned in the file header */
+  source?: string;
+}
+
+/**
+ * Default module the generated file imports from
+ */
+export const DEFAULT_TYPINGS_IMPORT = "@ai-capabilities-suite/mcp-client-base";
+
+type Schema = Record<string, unknown>;
+
+/**
+ * Generate a TypeScript module for a list of tools
+ * @param tools Tools from tools/list
+ * @param options Class name, import path and source description
+ * @returns Source of the generated .ts file
+ */
+export function generateTypings(
+  tools: Tool[],
+  options: TypingsGeneratorOptions = {}
+): string {
+  const className = options.className ?? "GeneratedMCPClient";
+  const importFrom = options.importFrom ?? DEFAULT_TYPINGS_IMPORT;
+  // Code unit order, so the output does not depend on the runtime locale
+  const sorted = [...tools].sort((a, b) =>
+    a.name < b.name ? -1 : a.name > b.name ? 1 : 0
+  );
+
+  const usedTypeNames = new Set<string>([className, "TypedCallToolResult"]);
+  const usedMethodNames = new Set<string>(reservedMethodNames());
+
+  const declarations: string[] = [];
+  const methods: string[] = [];
+
+  for (const tool of sorted) {
+    const baseName = uniqueName(toPascalCase(tool.name), usedTypeNames, [
+      "Args",
+      "Result",
+    ]);
+    const argsName = `${baseName}Args`;
+    const resultName = `${baseName}Result`;
+
+    declarations.push(
+      declareType(
+        argsName,
+        tool.inputSchema,
+        `Arguments for the ${tool.name} tool`
+      )
+    );
+    if (tool.outputSchema) {
+      declarations.push(
+        declareType(
+          resultName,
+          tool.outputSchema,
+          `Structured result of the ${tool.name} tool`
+        )
+      );
+    }
+
+    // A tool named like a client member ("stop", "ping") gets a suffix
+    const camelName = toCamelCase(tool.name);
+    const methodName = uniqueName(
+      usedMethodNames.has(camelName) ? `${camelName}Tool` : camelName,
+      usedMethodNames
+    );
+    const returnType = tool.outputSchema
+      ? `TypedCallToolResult<${resultName}>`
+      : "CallToolResult";
+    const argsOptional = !hasRequiredProperties(tool.inputSchema);
+
+    methods.push(
+      [
+        docComment(
+          [tool.title, tool.description, `Calls the "${tool.name}" tool.`],
+          "  "
+        ),
+        `  async ${methodName}(`,
+        `    args: ${argsName}${argsOptional ? " = {}" : ""},`,
+        `    options?: RequestOptions`,
+        `  ): Promise<${returnType}> {`,
+        `    return (await this.callTool(${JSON.stringify(
+          tool.name
+        )}, args, options)) as ${returnType};`,
+        `  }`,
+      ].join("\n")
+    );
+  }
+
+  return [
+    `// Generated by mcp-generate-typings${
+      options.source ? ` from ${options.source}` : ""
+    }.`,
+    "// Do not edit by hand; run the generator again to update.",
+    "",
+    "import {",
+    "  BaseMCPClient,",
+    "  CallToolResult,",
+    "  RequestOptions,",
+    `} from ${JSON.stringify(importFrom)};`,
+    "",
+    "/**",
+    " * Tool call result whose structuredContent has a known type",
+    " */",
+    'export type TypedCallToolResult<T> = Omit<CallToolResult, "structuredContent"> & {',
+    "  structuredContent?: T;",
+    "};",
+    "",
+    ...declarations.map((declaration) => `${declaration}\n`),
+    "/**",
+    " * Client with a typed method for each tool",
+    " */",
+    `export abstract class ${className} extends BaseMCPClient {`,
+    methods.join("\n\n"),
+    "}",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Convert a JSON Schema to a TypeScript type expression
+ * @param schema JSON Schema
+ * @param indent Indentation of the line the type starts on
+ * @returns TypeScript type
+ */
+export function schemaToType(schema: unknown, indent: string = ""): string {
+  if (schema === true || schema === undefined) {
+    return "unknown";
+  }
+  if (schema === false) {
+    return "never";
+  }
+  if (!isObject(schema)) {
+    return "unknown";
+  }
+
+  if ("const" in schema) {
+    return JSON.stringify(schema.const);
+  }
+  if (Array.isArray(schema.enum)) {
+    return union(schema.enum.map((value) => JSON.stringify(value)));
+  }
+  if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+    const options = (schema.anyOf ?? schema.oneOf) as unknown[];
+    return union(options.map((option) => schemaToType(option, indent)));
+  }
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf
+      .map((part) => parenthesize(schemaToType(part, indent)))
+      .join(" & ");
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return union(types.map((type) => typeToTs(type, schema, indent)));
+}
+
+function typeToTs(type: unknown, schema: Schema, indent: string): string {
+  switch (type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array":
+      if (Array.isArray(schema.items)) {
+        return `[${schema.items
+          .map((item) => schemaToType(item, indent))
+          .join(", ")}]`;
+      }
+      return `${parenthesize(schemaToType(schema.items, indent))}[]`;
+    case "object":
+      return objectToTs(schema, indent);
+    case undefined:
+      return isObject(schema.properties)
+        ? objectToTs(schema, indent)
+        : "unknown";
+    default:
+      return "unknown";
+  }
+}
+
+function objectToTs(schema: Schema, indent: string): string {
+  const properties = isObject(schema.properties) ? schema.properties : {};
+  const names = Object.keys(properties);
+  const extra = additionalPropertiesType(schema, names.length > 0);
+
+  if (names.length === 0) {
+    return `Record<string, ${extra ?? "never"}>`;
+  }
+  return `{\n${objectMembers(schema, `${indent}  `)}${indent}}`;
+}
+
+/**
+ * Members of an object type, one per line, each ending with a newline
+ */
+function objectMembers(schema: Schema, indent: string): string {
+  const properties = isObject(schema.properties) ? schema.properties : {};
+  const required = new Set(
+    Array.isArray(schema.required) ? (schema.required as string[]) : []
+  );
+  const names = Object.keys(properties);
+  const extra = additionalPropertiesType(schema, names.length > 0);
+
+  let members = "";
+  for (const name of names) {
+    const property = properties[name];
+    const description = isObject(property) ? property.description : undefined;
+    if (typeof description === "string") {
+      members += `${docComment([description], indent)}\n`;
+    }
+    const optional = required.has(name) ? "" : "?";
+    members += `${indent}${propertyKey(name)}${optional}: ${schemaToType(
+      property,
+      indent
+    )};\n`;
+  }
+  if (extra !== undefined) {
+    members += `${indent}[key: string]: ${extra};\n`;
+  }
+  return members;
+}
+
+/**
+ * Index signature type for additionalProperties, if any. With named
+ * properties alongside, the index type has to be unknown to stay valid.
+ */
+function additionalPropertiesType(
+  schema: Schema,
+  hasProperties: boolean
+): string | undefined {
+  if (schema.additionalProperties === false) {
+    return undefined;
+  }
+  if (hasProperties) {
+    return isObject(schema.additionalProperties) ? "unknown" : undefined;
+  }
+  return isObject(schema.additionalProperties)
+    ? schemaToType(schema.additionalProperties, "")
+    : "unknown";
+}
+
+function declareType(name: string, schema: unknown, summary: string): string {
+  const description =
+    isObject(schema) && typeof schema.description === "string"
+      ? schema.description
+      : undefined;
+  const doc = docComment([summary, description], "");
+
+  if (
+    isObject(schema) &&
+    isObject(schema.properties) &&
+    isPlainObjectSchema(schema)
+  ) {
+    return `${doc}\nexport interface ${name} {\n${objectMembers(
+      schema,
+      "  "
+    )}}`;
+  }
+  return `${doc}\nexport type ${name} = ${schemaToType(schema)};`;
+}
+
+/**
+ * Whether a schema describes an object and nothing else, so it can be
+ * emitted as an interface
+ */
+function isPlainObjectSchema(schema: Schema): boolean {
+  return (
+    (schema.type === undefined || schema.type === "object") &&
+    !("const" in schema) &&
+    schema.enum === undefined &&
+    schema.anyOf === undefined &&
+    schema.oneOf === undefined &&
+    schema.allOf === undefined
+  );
+}
+
+function hasRequiredProperties(schema: unknown): boolean {
+  return (
+    isObject(schema) &&
+    Array.isArray(schema.required) &&
+    schema.required.length > 0
+  );
+}
+
+function docComment(lines: Array<unknown>, indent: string): string {
+  const text = lines
+    .filter((line): line is string => typeof line === "string" && line !== "")
+    .flatMap((line) => line.replace(/\*\//g, "*\\/").split(/\r?\n/));
+  if (text.length === 1) {
+    return `${indent}/** ${text[0]} */`;
+  }
+  return [
+    `${indent}/**`,
+    ...text.map((line) => `${indent} *${line ? ` ${line}` : ""}`),
+    `${indent} */`,
+  ].join("\n");
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  return unique.length === 0 ? "never" : unique.join(" | ");
+}
+
+function parenthesize(type: string): string {
+  return /[|&]/.test(type) && !type.startsWith("{") ? `(${type})` : type;
+}
+
+function words(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function toPascalCase(name: string): string {
+  const pascal = words(name)
+    .map((word) => word[0].toUpperCase() + word.slice(1).toLowerCase())
+    .join("");
+  return /^[A-Za-z]/.test(pascal) ? pascal : `Tool${pascal}`;
+}
+
+function toCamelCase(name: string): string {
+  const pascal = toPascalCase(name);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * Pick a name not used yet, appending a number on collision
+ * @param name Preferred name
+ * @param used Names taken so far; the chosen name is added
+ * @param suffixes Suffixes appended to the name, each of which must be free
+ */
+function uniqueName(
+  name: string,
+  used: Set<string>,
+  suffixes: string[] = [""]
+): string {
+  let candidate = name;
+  for (
+    let n = 2;
+    suffixes.some((suffix) => used.has(candidate + suffix));
+    n++
+  ) {
+    candidate = `${name}${n}`;
+  }
+  for (const suffix of suffixes) {
+    used.add(candidate + suffix);
+  }
+  return candidate;
+}
+
+/**
+ * Members of BaseMCPClient that generated methods must not override
+ */
+function reservedMethodNames(): string[] {
+  return [
+    ...BASE_CLIENT_FIELDS,
+    ...Object.getOwnPropertyNames(BaseMCPClient.prototype),
+  ];
+}
+
+function isObject(value: unknown): value is Schema {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
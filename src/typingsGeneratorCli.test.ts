@@ -0,0 +1,137 @@
+/**
+ * Unit tests for typingsGeneratorCli
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  parseTypingsCliArgs,
+  runTypingsCli,
+  toolsFromSnapshot,
+} from "./typingsGeneratorCli";
+
+const TOOLS_SERVER = `
+const readline = require("readline");
+const rl = readline.createInterface({ input: process.stdin });
+const tools = [{ name: "echo", inputSchema: { type: "object", properties: { text: { type: "string" } }, required: ["text"] } }];
+rl.on("line", (line) => {
+  const msg = JSON.parse(line);
+  if (msg.id === undefined) return;
+  const result = msg.method === "tools/list" ? { tools } : { capabilities: { tools: {} } };
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: msg.id, result }) + "\\n");
+});
+`;
+
+describe("typingsGeneratorCli", () => {
+  let dir: string;
+  let stderr: jest.SpyInstance;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-typings-cli-"));
+    stderr = jest.spyOn(process.stderr, "write").mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    stderr.mockRestore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("parseTypingsCliArgs", () => {
+    it("should take the server command after --", () => {
+      expect(
+        parseTypingsCliArgs(["--out", "tools.ts", "--", "node", "server.js"])
+      ).toEqual({ out: "tools.ts", command: ["node", "server.js"] });
+    });
+
+    it("should require exactly one source", () => {
+      expect(() => parseTypingsCliArgs(["--out", "tools.ts"])).toThrow(
+        "Specify exactly one of --snapshot, --url or -- <command> [args...]"
+      );
+      expect(() =>
+        parseTypingsCliArgs(["--snapshot", "a.json", "--url", "http://x"])
+      ).toThrow("Specify exactly one");
+    });
+
+    it("should reject unknown options and missing values", () => {
+      expect(() => parseTypingsCliArgs(["--verbose"])).toThrow(
+        "Unknown option: --verbose"
+      );
+      expect(() => parseTypingsCliArgs(["--snapshot"])).toThrow(
+        "Missing value for --snapshot"
+      );
+    });
+  });
+
+  describe("toolsFromSnapshot", () => {
+    it("should accept a tools/list result or a bare array", () => {
+      const tools = [{ name: "a", inputSchema: {} }];
+      expect(toolsFromSnapshot({ tools })).toEqual(tools);
+      expect(toolsFromSnapshot(tools)).toEqual(tools);
+      expect(() => toolsFromSnapshot({})).toThrow(
+        "Snapshot must be a tools/list result or an array of tools"
+      );
+    });
+  });
+
+  describe("runTypingsCli", () => {
+    it("should generate typings from a snapshot", async () => {
+      const snapshot = path.join(dir, "tools.json");
+      const out = path.join(dir, "tools.ts");
+      fs.writeFileSync(
+        snapshot,
+        JSON.stringify({ tools: [{ name: "index", inputSchema: {} }] })
+      );
+
+      const code = await runTypingsCli([
+        "--snapshot",
+        snapshot,
+        "--out",
+        out,
+        "--class",
+        "IndexClient",
+      ]);
+
+      expect(code).toBe(0);
+      const output = fs.readFileSync(out, "utf8");
+      expect(output).toContain(`from ${snapshot}.`);
+      expect(output).toContain(
+        "export abstract class IndexClient extends BaseMCPClient {"
+      );
+    });
+
+    it("should read tools/list from a server and save a snapshot", async () => {
+      const out = path.join(dir, "tools.ts");
+      const saved = path.join(dir, "saved.json");
+
+      const code = await runTypingsCli([
+        "--out",
+        out,
+        "--save-snapshot",
+        saved,
+        "--",
+        process.execPath,
+        "-e",
+        TOOLS_SERVER,
+      ]);
+
+      expect(code).toBe(0);
+      expect(fs.readFileSync(out, "utf8")).toContain(
+        "export interface EchoArgs {\n  text: string;\n}"
+      );
+      expect(JSON.parse(fs.readFileSync(saved, "utf8")).tools[0].name).toBe(
+        "echo"
+      );
+    });
+
+    it("should exit with 2 on bad arguments and 1 on failure", async () => {
+      await expect(runTypingsCli([])).resolves.toBe(2);
+      await expect(
+        runTypingsCli(["--snapshot", path.join(dir, "missing.json")])
+      ).resolves.toBe(1);
+      expect(stderr).toHaveBeenCalledWith(
+        expect.stringMatching(/^Failed to generate typings: .*ENOENT/)
+      );
+    });
+  });
+});
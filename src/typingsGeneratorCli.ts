@@ -0,0 +1,234 @@
+#!/usr/bin/env node
+/**
+ * mcp-generate-typings - Command-line entry point for typingsGenerator
+ *
+ * Reads the tools of a server, either by connecting with BaseMCPClient or
+ * from a saved tools/list snapshot, and writes the generated .ts file.
+ *
+ *   mcp-generate-typings --out src/serverTools.ts -- node server.js
+ *   mcp-generate-typings --url http://localhost:3000/mcp --class MyClient
+ *   mcp-generate-typings --snapshot tools.json --out src/serverTools.ts
+ */
+
+import * as fs from "fs";
+import { BaseMCPClient, LogOutputChannel } from "./BaseMCPClient";
+import { Transport } from "./Transport";
+import { AutoDetectHttpTransport } from "./AutoDetectHttpTransport";
+import { generateTypings } from "./typingsGenerator";
+import { Tool } from "./types";
+
+const USAGE = `Usage: mcp-generate-typings [options] (--snapshot <file> | --url <url> | -- <command> [args...])
+
+Options:
+  --out <file>            Write the generated file here (default: stdout)
+  --class <name>          Name of the generated client class
+  --import <module>       Module to import BaseMCPClient from
+  --save-snapshot <file>  Also save the tools/list result as JSON
+  --help                  Show this help`;
+
+/**
+ * Parsed command-line options
+ */
+export interface TypingsCliOptions {
+  snapshot?: string;
+  url?: string;
+  command?: string[];
+  out?: string;
+  className?: string;
+  importFrom?: string;
+  saveSnapshot?: string;
+  help?: boolean;
+}
+
+/**
+ * Parse command-line arguments
+ * @param argv Arguments after the script name
+ * @returns Parsed options
+ * @throws Error for unknown options, missing values or no tool source
+ */
+export function parseTypingsCliArgs(argv: string[]): TypingsCliOptions {
+  const options: TypingsCliOptions = {};
+  const valueOptions: Record<string, keyof TypingsCliOptions> = {
+    "--snapshot": "snapshot",
+    "--url": "url",
+    "--out": "out",
+    "--class": "className",
+    "--import": "importFrom",
+    "--save-snapshot": "saveSnapshot",
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--") {
+      options.command = argv.slice(i + 1);
+      break;
+    }
+    if (arg === "--help" || arg === "-h") {
+      options.help = true;
+      return options;
+    }
+
+    const key = valueOptions[arg];
+    if (!key) {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+    const value = argv[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+    (options as Record<string, unknown>)[key] = value;
+  }
+
+  const sources = [options.snapshot, options.url, options.command?.length];
+  if (sources.filter(Boolean).length !== 1) {
+    throw new Error(
+      "Specify exactly one of --snapshot, --url or -- <command> [args...]"
+    );
+  }
+  return options;
+}
+
+/**
+ * Extract tools from a saved tools/list result or a bare array of tools
+ * @param json Parsed snapshot file
+ * @returns Tools in the snapshot
+ */
+export function toolsFromSnapshot(json: unknown): Tool[] {
+  const tools = Array.isArray(json)
+    ? json
+    : (json as { tools?: unknown } | null)?.tools;
+  if (!Array.isArray(tools)) {
+    throw new Error(
+      "Snapshot must be a tools/list result or an array of tools"
+    );
+  }
+  return tools as Tool[];
+}
+
+/**
+ * Client used only to read tools/list from the server being described
+ */
+class TypingsClient extends BaseMCPClient {
+  constructor(private readonly cliOptions: TypingsCliOptions) {
+    super("mcp-generate-typings", stderrChannel(), {
+      logging: { logLevel: "warn", logCommunication: false },
+      catalog: { enabled: false },
+    });
+  }
+
+  protected getServerCommand(): { command: string; args: string[] } {
+    const [command, ...args] = this.cliOptions.command ?? [];
+    return { command, args };
+  }
+
+  protected createTransport(): Transport {
+    return this.cliOptions.url
+      ? new AutoDetectHttpTransport({ url: this.cliOptions.url })
+      : super.createTransport();
+  }
+
+  protected async onServerReady(): Promise<void> {}
+}
+
+/**
+ * Output channel that writes warnings and errors to stderr
+ */
+function stderrChannel(): LogOutputChannel {
+  const write = (message: string | Error) =>
+    process.stderr.write(`${String(message)}\n`);
+  const ignore = () => {};
+  return {
+    trace: ignore,
+    debug: ignore,
+    info: ignore,
+    warn: write,
+    error: write,
+    append: ignore,
+    appendLine: ignore,
+    clear: ignore,
+    show: ignore,
+    hide: ignore,
+    dispose: ignore,
+  };
+}
+
+/**
+ * Read the tools from the configured source
+ */
+async function loadTools(options: TypingsCliOptions): Promise<Tool[]> {
+  if (options.snapshot) {
+    return toolsFromSnapshot(
+      JSON.parse(fs.readFileSync(options.snapshot, "utf8"))
+    );
+  }
+
+  const client = new TypingsClient(options);
+  try {
+    await client.start();
+    return await client.listTools();
+  } finally {
+    await client.stop();
+  }
+}
+
+/**
+ * Run the generator
+ * @param argv Arguments after the script name
+ * @returns Process exit code
+ */
+export async function runTypingsCli(argv: string[]): Promise<number> {
+  let options: TypingsCliOptions;
+  try {
+    options = parseTypingsCliArgs(argv);
+  } catch (error) {
+    process.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n\n${USAGE}\n`
+    );
+    return 2;
+  }
+  if (options.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  try {
+    const tools = await loadTools(options);
+    const source =
+      options.snapshot ?? options.url ?? (options.command ?? []).join(" ");
+
+    if (options.saveSnapshot) {
+      fs.writeFileSync(
+        options.saveSnapshot,
+        `${JSON.stringify({ tools }, null, 2)}\n`
+      );
+    }
+
+    const output = generateTypings(tools, {
+      className: options.className,
+      importFrom: options.importFrom,
+      source,
+    });
+    if (options.out) {
+      fs.writeFileSync(options.out, output);
+      process.stderr.write(
+        `Wrote ${tools.length} tool typings to ${options.out}\n`
+      );
+    } else {
+      process.stdout.write(output);
+    }
+    return 0;
+  } catch (error) {
+    process.stderr.write(
+      `Failed to generate typings: ${
+        error instanceof Error ? error.message : String(error)
+      }\n`
+    );
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  runTypingsCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}